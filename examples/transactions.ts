@@ -10,6 +10,9 @@ import {
   estimateFee,
   createRPCClient,
   generateWallet,
+  addressToScriptPubKey,
+  parseAmount,
+  formatAmount,
   UTXO
 } from '../src/index';
 
@@ -39,8 +42,9 @@ async function main() {
       {
         txid: '0000000000000000000000000000000000000000000000000000000000000001',
         vout: 0,
-        value: 100_000_000, // 1 TETSUO
-        confirmations: 10
+        value: parseAmount('1'),
+        confirmations: 10,
+        scriptPubKey: addressToScriptPubKey(sender.address)
       }
     ];
 
@@ -49,14 +53,14 @@ async function main() {
     const { inputs, outputs, fee } = buildTransaction(
       sender.address,
       recipient.address,
-      0.5, // Send 0.5 TETSUO
+      parseAmount('0.5'),
       mockUTXOs,
       sender.address // Change address
     );
 
     console.log('  Inputs:', inputs.length);
     console.log('  Outputs:', outputs.length);
-    console.log('  Fee:', fee, 'satoshis');
+    console.log('  Fee:', fee.toString(), 'satoshis');
     console.log();
 
     // Create transaction hex
@@ -67,14 +71,14 @@ async function main() {
 
     // Sign transaction
     console.log('Signing transaction...');
-    const signedTx = signTransaction(unsignedTx, sender.privateKey, inputs);
+    const signedTx = await signTransaction(unsignedTx, sender.privateKey, inputs, mockUTXOs);
     console.log('  Signed TX (first 100 chars):', signedTx.substring(0, 100) + '...');
     console.log();
 
     // Estimate fee
     console.log('Fee estimation...');
     const estimatedFee = estimateFee(inputs.length, outputs.length);
-    console.log('  Estimated Fee:', estimatedFee, 'satoshis');
+    console.log('  Estimated Fee:', estimatedFee.toString(), 'satoshis');
     console.log();
 
     console.log('✓ Transaction would be ready to broadcast');
@@ -82,9 +86,9 @@ async function main() {
     try {
       // Get balance
       const balance = await rpc.getBalance(sender.address);
-      console.log('Sender balance:', balance, 'TETSUO\n');
+      console.log('Sender balance:', formatAmount(balance), 'TETSUO\n');
 
-      if (balance < 0.5) {
+      if (balance < parseAmount('0.5')) {
         console.log('⚠ Insufficient balance for example transaction');
         return;
       }
@@ -103,18 +107,19 @@ async function main() {
       const { inputs, outputs, fee } = buildTransaction(
         sender.address,
         recipient.address,
-        0.5,
+        parseAmount('0.5'),
         utxos,
         sender.address
       );
 
       console.log('  Inputs:', inputs.length);
       console.log('  Outputs:', outputs.length);
-      console.log('  Fee:', fee, 'satoshis');
+      console.log('  Fee:', fee.toString(), 'satoshis');
 
       // Create and sign transaction
       const unsignedTx = createTransactionHex(inputs, outputs);
-      const signedTx = signTransaction(unsignedTx, sender.privateKey, inputs);
+      const spent = inputs.map(input => utxos.find(u => u.txid === input.txid && u.vout === input.vout)!);
+      const signedTx = await signTransaction(unsignedTx, sender.privateKey, inputs, spent);
 
       console.log('\n✓ Transaction ready to broadcast');
       console.log('Signed TX:', signedTx.substring(0, 100) + '...');
@@ -3,24 +3,35 @@
  */
 
 import { hash160, base58check, base58checkDecode, fromHex } from './crypto';
-import { InvalidAddressError } from './types';
+import { MAINNET, NETWORKS } from './network';
+import { InvalidAddressError, Network } from './types';
 
-// TETSUO address prefix (T = 0x41)
-const TETSUO_ADDRESS_PREFIX = 0x41;
+export type AddressType = 'p2pkh' | 'p2sh';
 
 /**
  * Generate a TETSUO address from a public key
  * Address format: base58check(prefix + hash160(publicKey))
  */
-export function generateAddress(publicKeyHex: string): string {
+export function generateAddress(publicKeyHex: string, network: Network = MAINNET): string {
   const publicKeyBuffer = fromHex(publicKeyHex);
 
   // Hash the public key: HASH160 = RIPEMD160(SHA256(pubKey))
   const publicKeyHash = hash160(publicKeyBuffer);
 
-  // Add TETSUO prefix (0x41 = 65 = 'T')
+  return hash160ToAddress(publicKeyHash, network);
+}
+
+/**
+ * Encode a 20-byte public key hash as a TETSUO address
+ */
+export function hash160ToAddress(publicKeyHash: Buffer, network: Network = MAINNET): string {
+  if (publicKeyHash.length !== 20) {
+    throw new InvalidAddressError(publicKeyHash.toString('hex'));
+  }
+
+  // Add the network prefix (0x41 = 65 = 'T' on mainnet)
   const addressPayload = Buffer.concat([
-    Buffer.from([TETSUO_ADDRESS_PREFIX]),
+    Buffer.from([network.pubKeyHashVersion]),
     publicKeyHash
   ]);
 
@@ -29,43 +40,75 @@ export function generateAddress(publicKeyHex: string): string {
 }
 
 /**
- * Validate a TETSUO address format
+ * Generate a pay-to-script-hash address from a redeem script
  */
-export function isValidAddress(address: string): boolean {
+export function generateScriptAddress(redeemScriptHex: string, network: Network = MAINNET): string {
+  return hash160ToScriptAddress(hash160(fromHex(redeemScriptHex)), network);
+}
+
+/**
+ * Encode a 20-byte script hash as a TETSUO P2SH address
+ */
+export function hash160ToScriptAddress(scriptHash: Buffer, network: Network = MAINNET): string {
+  if (scriptHash.length !== 20) {
+    throw new InvalidAddressError(scriptHash.toString('hex'));
+  }
+
+  return base58check(Buffer.concat([Buffer.from([network.scriptHashVersion]), scriptHash]));
+}
+
+/**
+ * Get the address type, or undefined if the address is invalid or belongs
+ * to another network
+ */
+export function getAddressType(address: string, network: Network = MAINNET): AddressType | undefined {
   try {
     if (!address || typeof address !== 'string') {
-      return false;
-    }
-
-    // TETSUO addresses start with 'T'
-    if (!address.startsWith('T')) {
-      return false;
+      return undefined;
     }
 
     // Decode and verify checksum
     const decoded = base58checkDecode(address);
 
-    // Check prefix
-    if (decoded[0] !== TETSUO_ADDRESS_PREFIX) {
-      return false;
-    }
-
     // Check length (1 byte prefix + 20 bytes hash160)
     if (decoded.length !== 21) {
-      return false;
+      return undefined;
+    }
+
+    // Check prefix
+    if (decoded[0] === network.pubKeyHashVersion) {
+      return 'p2pkh';
+    }
+    if (decoded[0] === network.scriptHashVersion) {
+      return 'p2sh';
     }
 
-    return true;
+    return undefined;
   } catch {
-    return false;
+    return undefined;
   }
 }
 
+/**
+ * Validate a TETSUO address format (P2PKH or P2SH)
+ */
+export function isValidAddress(address: string, network: Network = MAINNET): boolean {
+  return getAddressType(address, network) !== undefined;
+}
+
+/**
+ * Find the built-in network an address belongs to, if any. Testnet and
+ * regtest share version bytes, so their addresses report TESTNET.
+ */
+export function getAddressNetwork(address: string): Network | undefined {
+  return Object.values(NETWORKS).find(network => isValidAddress(address, network));
+}
+
 /**
  * Validate and return the address, or throw error
  */
-export function validateAddress(address: string): string {
-  if (!isValidAddress(address)) {
+export function validateAddress(address: string, network: Network = MAINNET): string {
+  if (!isValidAddress(address, network)) {
     throw new InvalidAddressError(address);
   }
   return address;
@@ -74,8 +117,8 @@ export function validateAddress(address: string): string {
 /**
  * Get the hash160 from a TETSUO address
  */
-export function addressToHash160(address: string): Buffer {
-  if (!isValidAddress(address)) {
+export function addressToHash160(address: string, network: Network = MAINNET): Buffer {
+  if (!isValidAddress(address, network)) {
     throw new InvalidAddressError(address);
   }
 
@@ -86,7 +129,7 @@ export function addressToHash160(address: string): Buffer {
 /**
  * Get the public key hash from an address
  */
-export function getAddressHash(address: string): string {
-  const hash = addressToHash160(address);
+export function getAddressHash(address: string, network: Network = MAINNET): string {
+  const hash = addressToHash160(address, network);
   return hash.toString('hex');
 }
@@ -0,0 +1,97 @@
+/**
+ * TETSUO Wallet SDK - Amounts
+ *
+ * Amounts are bigint satoshis. TETSUO values only exist as decimal strings at
+ * the edges (user input, display, node JSON) and are converted exactly, so
+ * no floating-point rounding can change what gets sent.
+ */
+
+import { Amount, WalletError } from './types';
+
+/** Satoshis per TETSUO */
+export const COIN = 100_000_000n;
+
+/** Decimal places of one satoshi */
+export const AMOUNT_DECIMALS = 8;
+
+/** Largest amount accepted from user input (21,000,000 TETSUO) */
+export const MAX_AMOUNT: Amount = 21_000_000n * COIN;
+
+/**
+ * Parse a decimal TETSUO string ("1.5", "0.00000001") into satoshis.
+ * Rejects negative values, more than 8 decimal places and anything above
+ * MAX_AMOUNT.
+ */
+export function parseAmount(value: string): Amount {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new WalletError(`Invalid amount: ${value}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > AMOUNT_DECIMALS) {
+    throw new WalletError(`Amount has more than ${AMOUNT_DECIMALS} decimal places: ${value}`);
+  }
+
+  const amount = BigInt(whole || '0') * COIN + BigInt(fraction.padEnd(AMOUNT_DECIMALS, '0'));
+  if (amount > MAX_AMOUNT) {
+    throw new WalletError(`Amount exceeds maximum (${formatAmount(MAX_AMOUNT)} TETSUO)`);
+  }
+  return amount;
+}
+
+/**
+ * Format satoshis as a decimal TETSUO string without trailing zeros
+ * (150000000n -> "1.5")
+ */
+export function formatAmount(amount: Amount): string {
+  const sign = amount < 0n ? '-' : '';
+  const absolute = amount < 0n ? -amount : amount;
+  const whole = absolute / COIN;
+  const fraction = (absolute % COIN).toString().padStart(AMOUNT_DECIMALS, '0').replace(/0+$/, '');
+
+  return sign + whole.toString() + (fraction ? '.' + fraction : '');
+}
+
+/**
+ * Convert a TETSUO value from node JSON to satoshis. The number is rounded
+ * to 8 decimal places first, which recovers the decimal the node meant
+ * (0.1 + 0.2 -> 30000000n).
+ */
+export function amountFromCoins(coins: number): Amount {
+  if (!Number.isFinite(coins)) {
+    throw new WalletError(`Invalid amount: ${coins}`);
+  }
+
+  const text = Math.abs(coins).toFixed(AMOUNT_DECIMALS);
+  const [whole, fraction] = text.split('.');
+  const amount = BigInt(whole) * COIN + BigInt(fraction);
+  return coins < 0 ? -amount : amount;
+}
+
+/**
+ * Convert a whole number of satoshis (number, numeric string or bigint)
+ */
+export function amountFromSatoshis(satoshis: number | string | bigint): Amount {
+  if (typeof satoshis === 'bigint') {
+    return satoshis;
+  }
+  if (typeof satoshis === 'number' ? !Number.isSafeInteger(satoshis) : !/^-?\d+$/.test(satoshis)) {
+    throw new WalletError(`Invalid satoshi amount: ${satoshis}`);
+  }
+  return BigInt(satoshis);
+}
+
+/**
+ * Sum a list of amounts
+ */
+export function sumAmounts(amounts: Amount[]): Amount {
+  return amounts.reduce((sum, amount) => sum + amount, 0n);
+}
+
+/**
+ * Largest of one or more amounts (Math.max for bigint)
+ */
+export function maxAmount(first: Amount, ...rest: Amount[]): Amount {
+  return rest.reduce((max, amount) => amount > max ? amount : max, first);
+}
@@ -10,10 +10,81 @@ import {
   importFromPrivateKey,
   isValidAddress,
   createRPCClient,
-  isValidMnemonic,
+  diagnoseMnemonic,
+  splitMnemonic,
+  recoverMnemonic,
+  decodeShare,
+  getSupportedMnemonicLengths,
+  MNEMONIC_LANGUAGES,
+  MnemonicLanguage,
+  MnemonicValidation,
   buildTransaction,
   createTransactionHex,
-  signTransaction
+  signTransaction,
+  verifyTransaction,
+  TransactionVerification,
+  discoverAccount,
+  scanAccount,
+  deriveAccountAddress,
+  fromExtendedKey,
+  createWatchOnlyWallet,
+  DEFAULT_GAP_LIMIT,
+  RECEIVE_CHAIN,
+  CHANGE_CHAIN,
+  DiscoveredAccount,
+  UTXO,
+  Psbt,
+  createPsbt,
+  signPsbt,
+  combinePsbts,
+  finalizePsbt,
+  extractTransaction,
+  getPsbtFee,
+  getPsbtUtxos,
+  encodePsbt,
+  decodePsbt,
+  createMultisigScript,
+  decodeMultisigScript,
+  generateScriptAddress,
+  CoinSelectionStrategy,
+  COIN_SELECTION_STRATEGIES,
+  DEFAULT_COIN_SELECTION,
+  isCoinSelectionStrategy,
+  FeePriority,
+  isFeePriority,
+  resolveFeeRate,
+  getTransactionSize,
+  getTransactionFeeRate,
+  buildBatchTransaction,
+  PaymentRecipient,
+  TransactionData,
+  buildSweepTransaction,
+  encodeWIF,
+  parsePrivateKey,
+  generateAddress,
+  derivePublicKey,
+  MAX_DATA_CARRIER_SIZE,
+  signMessage,
+  verifyMessage,
+  FeeBumpResult,
+  signalsReplaceByFee,
+  getSpentOutputs,
+  getTransactionFee,
+  createReplacementTransaction,
+  createChildPaysForParent,
+  DecryptionError,
+  Amount,
+  AMOUNT_DECIMALS,
+  parseAmount,
+  formatAmount,
+  sumAmounts,
+  Network,
+  GeneratedWallet,
+  ImportedWallet,
+  MAINNET,
+  NETWORKS,
+  getNetwork,
+  getTransactionUrl
 } from './index';
 import chalk from 'chalk';
 import axios from 'axios';
@@ -32,9 +103,15 @@ const AUTH_TAG_LENGTH = 16;
 interface StoredWallet {
   name: string;
   address: string;
-  privateKey: string;
-  publicKey: string;
+  privateKey?: string;
+  publicKey?: string;
+  watchOnly?: boolean;
+  extendedPublicKey?: string;
+  redeemScript?: string;
   mnemonic?: string;
+  // The BIP39 passphrase itself is never stored
+  hasPassphrase?: boolean;
+  derivationPath?: string;
   createdAt: string;
 }
 
@@ -45,13 +122,45 @@ interface WalletStore {
 
 interface Config {
   rpcUrl: string;
+  // Network profile name; wallets are kept in a separate file per network
+  network?: string;
+  // Tried in order when the RPC URL stops responding
+  fallbackUrls?: string[];
 }
 
 // Constants
 const WALLET_DIR = path.join(process.env.HOME || '~', '.tetsuo');
-const WALLET_FILE = path.join(WALLET_DIR, 'wallets.json');
 const CONFIG_FILE = path.join(WALLET_DIR, 'config.json');
-let RPC_URL = process.env.TETSUO_RPC_URL || 'https://tetsuoarena.com';
+let NETWORK: Network = MAINNET;
+let WALLET_FILE = getWalletFile(NETWORK);
+let RPC_URL = process.env.TETSUO_RPC_URL || NETWORK.rpcUrl;
+let FALLBACK_URLS: string[] = [];
+
+// Mainnet wallets stay in wallets.json; other networks get their own file
+function getWalletFile(network: Network): string {
+  return path.join(WALLET_DIR, network === MAINNET ? 'wallets.json' : `wallets-${network.name}.json`);
+}
+
+// RPC client for the current network
+function getRPCClient() {
+  return createRPCClient({ networkUrl: RPC_URL, network: NETWORK }, { fallbackUrls: FALLBACK_URLS });
+}
+
+// Hint for an address that is valid on another network
+function wrongNetworkHint(address: string): string {
+  const networks = Object.values(NETWORKS).filter(network => isValidAddress(address, network));
+  return networks.length > 0 && !networks.includes(NETWORK)
+    ? ` (this is a ${networks.map(network => network.name).join('/')} address; switch with /network)`
+    : '';
+}
+
+// Explorer link for a broadcast transaction, when the network has an explorer
+function printTransactionLink(txid: string): void {
+  const url = getTransactionUrl(txid, NETWORK);
+  if (url) {
+    console.log(chalk.cyan('\nCheck transaction status at: ' + url));
+  }
+}
 
 // Fetch TETSUO price from Solana dexscreener
 async function fetchTetsuoPrice(): Promise<void> {
@@ -73,8 +182,8 @@ async function fetchTetsuoPrice(): Promise<void> {
       console.log(chalk.cyan('─'.repeat(60)));
       console.log(chalk.yellow('  Price:      ') + chalk.white(`$${price.toFixed(6)}`));
       console.log(chalk.yellow('  24h Change: ') + changeColor(`${changeSign}${change24h.toFixed(2)}%`));
-      console.log(chalk.yellow('  24h Volume: ') + chalk.white(`$${formatAmount(volume24h)}`));
-      console.log(chalk.yellow('  Liquidity:  ') + chalk.white(`$${formatAmount(liquidity)}`));
+      console.log(chalk.yellow('  24h Volume: ') + chalk.white(`$${volume24h.toLocaleString('en-US', { maximumFractionDigits: 8 })}`));
+      console.log(chalk.yellow('  Liquidity:  ') + chalk.white(`$${liquidity.toLocaleString('en-US', { maximumFractionDigits: 8 })}`));
       console.log(chalk.gray('  Source: dexscreener.com/solana/tetsuo'));
       console.log(chalk.cyan('─'.repeat(60)));
     }
@@ -84,16 +193,11 @@ async function fetchTetsuoPrice(): Promise<void> {
   }
 }
 
-// Format amount in standard crypto format (removes trailing zeros, adds thousand separators)
-function formatAmount(value: number): string {
-  if (value === 0) return '0';
-  let formatted = value.toFixed(8);
-  // Remove trailing zeros after decimal
-  formatted = formatted.replace(/\.?0+$/, '');
-  // Add thousand separators
-  const parts = formatted.split('.');
+// Format satoshis as TETSUO in standard crypto format (no trailing zeros, thousand separators)
+function displayAmount(amount: Amount): string {
+  const parts = formatAmount(amount).split('.');
   parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-  return parts.length > 1 ? parts.join('.') : parts[0];
+  return parts.join('.');
 }
 
 // Derive encryption key from password using PBKDF2
@@ -120,7 +224,7 @@ function encryptData(data: string, password: string): string {
 function decryptData(encryptedData: string, password: string): string {
   const parts = encryptedData.split(':');
   if (parts.length !== 4) {
-    throw new Error('Invalid encrypted data format');
+    throw new DecryptionError('Invalid encrypted data format');
   }
 
   const salt = Buffer.from(parts[0], 'hex');
@@ -133,10 +237,11 @@ function decryptData(encryptedData: string, password: string): string {
   const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
   decipher.setAuthTag(authTag);
 
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-
-  return decrypted;
+  try {
+    return decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+  } catch (error) {
+    throw new DecryptionError('Invalid password', { cause: error });
+  }
 }
 
 // Check if wallet file is encrypted
@@ -183,40 +288,41 @@ function initWalletStorage() {
   if (!fs.existsSync(WALLET_DIR)) {
     fs.mkdirSync(WALLET_DIR, { recursive: true });
   }
+
+  // Load config and update the network and RPC_URL
+  const config = loadConfig();
+  try {
+    NETWORK = getNetwork(config.network || MAINNET.name);
+  } catch {
+    console.log(chalk.yellow(`[WARNING] Unknown network "${config.network}" in config, using mainnet`));
+  }
+  WALLET_FILE = getWalletFile(NETWORK);
+  RPC_URL = config.rpcUrl || NETWORK.rpcUrl;
+  FALLBACK_URLS = config.fallbackUrls || [];
+
   if (!fs.existsSync(WALLET_FILE)) {
     fs.writeFileSync(WALLET_FILE, JSON.stringify({ wallets: [] }, null, 2));
   }
-
-  // Load config and update RPC_URL
-  const config = loadConfig();
-  RPC_URL = config.rpcUrl;
 }
 
 // Load wallets from storage (with decryption)
 function loadWallets(): WalletStore {
-  try {
-    if (!fs.existsSync(WALLET_FILE)) {
-      return { wallets: [] };
-    }
-
-    const data = fs.readFileSync(WALLET_FILE, 'utf-8');
+  if (!fs.existsSync(WALLET_FILE)) {
+    return { wallets: [] };
+  }
 
-    // Check if encrypted
-    if (isWalletEncrypted()) {
-      if (!sessionPassword) {
-        throw new Error('Wallet is locked. Please unlock first.');
-      }
-      const decrypted = decryptData(data, sessionPassword);
-      return JSON.parse(decrypted);
-    }
+  const data = fs.readFileSync(WALLET_FILE, 'utf-8');
 
-    return JSON.parse(data);
-  } catch (error: any) {
-    if (error.message.includes('Unsupported state') || error.message.includes('bad decrypt')) {
-      throw new Error('Invalid password');
+  // Check if encrypted
+  if (isWalletEncrypted()) {
+    if (!sessionPassword) {
+      throw new Error('Wallet is locked. Please unlock first.');
     }
-    throw error;
+    const decrypted = decryptData(data, sessionPassword);
+    return JSON.parse(decrypted);
   }
+
+  return JSON.parse(data);
 }
 
 // Save wallets to storage (with encryption)
@@ -250,9 +356,31 @@ async function createWallet(rl: readline.Interface): Promise<void> {
     return;
   }
 
+  const lengths = getSupportedMnemonicLengths();
+  const wordsInput = (await question(rl, `Mnemonic length (${lengths.join('/')} words, default 12): `)).trim();
+  const wordCount = wordsInput ? parseInt(wordsInput) : 12;
+  if (!lengths.includes(wordCount)) {
+    console.log(chalk.red(`[ERROR] Mnemonic length must be one of ${lengths.join(', ')} words`));
+    return;
+  }
+
+  const languageInput = (await question(rl, 'Wordlist language (default english, "list" to show all): ')).trim().toLowerCase();
+  if (languageInput === 'list') {
+    console.log(chalk.cyan(MNEMONIC_LANGUAGES.join(', ')));
+    return;
+  }
+  const language = (languageInput || 'english') as MnemonicLanguage;
+  if (!MNEMONIC_LANGUAGES.includes(language)) {
+    console.log(chalk.red(`[ERROR] Unsupported language. Use one of: ${MNEMONIC_LANGUAGES.join(', ')}`));
+    return;
+  }
+
+  const passphrase = await promptPassphrase(rl, true);
+  if (passphrase === null) return;
+
   try {
     console.log(chalk.yellow('[...] Generating wallet...'));
-    const wallet = await generateWallet();
+    const wallet = await generateWallet({ wordCount, passphrase, language, network: NETWORK });
 
     const store = loadWallets();
     const exists = store.wallets.some(w => w.name === trimmedName);
@@ -267,6 +395,7 @@ async function createWallet(rl: readline.Interface): Promise<void> {
       privateKey: wallet.privateKey,
       publicKey: wallet.publicKey,
       mnemonic: wallet.mnemonic,
+      hasPassphrase: passphrase ? true : undefined,
       createdAt: new Date().toISOString()
     });
 
@@ -279,6 +408,9 @@ async function createWallet(rl: readline.Interface): Promise<void> {
     console.log(chalk.green('[OK] Wallet created successfully!'));
     console.log(chalk.cyan('\n[NOTE] Mnemonic (BACKUP THIS):'));
     console.log(chalk.yellow(wallet.mnemonic));
+    if (passphrase) {
+      console.log(chalk.yellow('[WARNING] Back up the passphrase too: the mnemonic alone restores a different, empty wallet'));
+    }
     console.log(chalk.cyan('\n[ADDR] Address:'));
     console.log(chalk.yellow(wallet.address));
   } catch (error: any) {
@@ -286,6 +418,21 @@ async function createWallet(rl: readline.Interface): Promise<void> {
   }
 }
 
+function printMnemonicDiagnostics(validation: MnemonicValidation): void {
+  console.log(chalk.red(`[ERROR] Invalid mnemonic (checked against the ${validation.language} wordlist)`));
+
+  for (const unknown of validation.unknownWords) {
+    const hint = unknown.suggestions.length > 0 ? ` - did you mean ${unknown.suggestions.join(', ')}?` : '';
+    console.log(chalk.yellow(`  Word ${unknown.index + 1} "${unknown.word}" is not in the wordlist${hint}`));
+  }
+  if (validation.errors.includes('wrong-length')) {
+    console.log(chalk.yellow(`  Expected ${getSupportedMnemonicLengths().join('/')} words, got ${validation.wordCount}`));
+  }
+  if (validation.errors.includes('bad-checksum')) {
+    console.log(chalk.yellow('  Every word is valid but the checksum does not match: check the word order and for swapped words'));
+  }
+}
+
 async function importWallet(rl: readline.Interface): Promise<void> {
   const name = await question(rl, 'Wallet name: ');
   const trimmedName = name.trim();
@@ -304,30 +451,67 @@ async function importWallet(rl: readline.Interface): Promise<void> {
     return;
   }
 
-  const type = await question(rl, 'Import from (mnemonic/privatekey): ');
+  const type = await question(rl, 'Import from (mnemonic/privatekey/watch): ');
 
   try {
-    let wallet;
+    let wallet: GeneratedWallet | ImportedWallet;
+    let hasPassphrase: boolean | undefined;
+
+    if (type.toLowerCase() === 'watch') {
+      const source = await question(rl, 'Enter address or extended public key: ');
+      const watchOnly = createWatchOnlyWallet(source, NETWORK);
+
+      const store = loadWallets();
+      if (store.wallets.some(w => w.name === trimmedName)) {
+        console.log(chalk.red('[ERROR] Wallet with this name already exists'));
+        return;
+      }
+
+      store.wallets.push({
+        name: trimmedName,
+        address: watchOnly.address,
+        watchOnly: true,
+        extendedPublicKey: watchOnly.extendedPublicKey,
+        createdAt: new Date().toISOString()
+      });
+
+      if (!store.selectedWallet) {
+        store.selectedWallet = trimmedName;
+      }
+
+      saveWallets(store);
+      console.log(chalk.green('[OK] Watch-only wallet imported!'));
+      console.log(chalk.cyan('[ADDR] Address:'));
+      console.log(chalk.yellow(watchOnly.address));
+      return;
+    }
 
     if (type.toLowerCase() === 'mnemonic') {
-      const mnemonic = await question(rl, 'Enter mnemonic (12 words): ');
-      if (!isValidMnemonic(mnemonic)) {
-        console.log(chalk.red('[ERROR] Invalid mnemonic'));
+      const mnemonic = await question(rl, 'Enter mnemonic (12-24 words, any BIP39 language): ');
+      const validation = diagnoseMnemonic(mnemonic);
+      if (!validation.valid) {
+        printMnemonicDiagnostics(validation);
         return;
       }
+      const passphrase = await promptPassphrase(rl, false);
+      if (passphrase === null) return;
+      const derivationPath = await question(rl, 'Derivation path (Enter for legacy TETSUO derivation): ');
       console.log(chalk.yellow('[...] Importing wallet...'));
-      wallet = await importFromMnemonic(mnemonic);
+      wallet = await importFromMnemonic(mnemonic, { derivationPath: derivationPath.trim() || undefined, passphrase, network: NETWORK });
+      hasPassphrase = passphrase ? true : undefined;
     } else if (type.toLowerCase() === 'privatekey') {
-      const privateKey = await question(rl, 'Enter private key (hex): ');
+      const privateKey = await question(rl, 'Enter private key (WIF or hex): ');
       // Validate private key format
-      if (!/^[a-fA-F0-9]{64}$/.test(privateKey)) {
-        console.log(chalk.red('[ERROR] Invalid private key - must be 64 hex characters'));
+      try {
+        parsePrivateKey(privateKey, NETWORK);
+      } catch (error: any) {
+        console.log(chalk.red('[ERROR] ' + error.message));
         return;
       }
       console.log(chalk.yellow('[...] Importing wallet...'));
-      wallet = importFromPrivateKey(privateKey);
+      wallet = importFromPrivateKey(privateKey, NETWORK);
     } else {
-      console.log(chalk.red('[ERROR] Invalid import type. Use "mnemonic" or "privatekey"'));
+      console.log(chalk.red('[ERROR] Invalid import type. Use "mnemonic", "privatekey" or "watch"'));
       return;
     }
 
@@ -343,7 +527,9 @@ async function importWallet(rl: readline.Interface): Promise<void> {
       address: wallet.address,
       privateKey: wallet.privateKey,
       publicKey: wallet.publicKey,
-      mnemonic: (wallet as any).mnemonic,
+      mnemonic: 'mnemonic' in wallet ? wallet.mnemonic : undefined,
+      hasPassphrase,
+      derivationPath: 'derivationPath' in wallet ? wallet.derivationPath : undefined,
       createdAt: new Date().toISOString()
     });
 
@@ -360,6 +546,159 @@ async function importWallet(rl: readline.Interface): Promise<void> {
   }
 }
 
+async function backupShares(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+  if (!wallet.mnemonic) {
+    console.log(chalk.red('[ERROR] Only wallets with a mnemonic can be backed up as shares'));
+    return;
+  }
+
+  const shareCount = parseInt(await question(rl, 'Total number of shares: '));
+  const threshold = parseInt(await question(rl, 'Shares needed to restore: '));
+
+  try {
+    const shares = splitMnemonic(wallet.mnemonic, threshold, shareCount);
+
+    console.log(chalk.cyan(`\n[NOTE] ${threshold}-of-${shareCount} backup shares (store each one in a different place):`));
+    console.log('─'.repeat(80));
+    shares.forEach((share, i) => {
+      console.log(chalk.cyan(`Share ${i + 1}/${shareCount}:`));
+      console.log(chalk.yellow(share));
+    });
+    console.log('─'.repeat(80));
+    if (wallet.hasPassphrase) {
+      console.log(chalk.yellow('[WARNING] The shares do not include the BIP39 passphrase; back it up separately'));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+  }
+}
+
+async function restoreShares(rl: readline.Interface): Promise<void> {
+  const name = await question(rl, 'Wallet name: ');
+  const trimmedName = name.trim();
+
+  // Validate wallet name
+  if (!trimmedName) {
+    console.log(chalk.red('[ERROR] Wallet name cannot be empty'));
+    return;
+  }
+  if (trimmedName.length > 50) {
+    console.log(chalk.red('[ERROR] Wallet name too long (max 50 characters)'));
+    return;
+  }
+  if (!/^[a-zA-Z0-9_-]+$/.test(trimmedName)) {
+    console.log(chalk.red('[ERROR] Wallet name can only contain letters, numbers, underscores, and hyphens'));
+    return;
+  }
+
+  try {
+    // The first share tells how many are needed
+    const shares = [await question(rl, 'Share 1: ')];
+    const { threshold } = decodeShare(shares[0]);
+    while (shares.length < threshold) {
+      shares.push(await question(rl, `Share ${shares.length + 1} of ${threshold}: `));
+    }
+
+    const languageInput = (await question(rl, 'Mnemonic language (default english): ')).trim().toLowerCase();
+    const language = (languageInput || 'english') as MnemonicLanguage;
+    if (!MNEMONIC_LANGUAGES.includes(language)) {
+      console.log(chalk.red(`[ERROR] Unsupported language. Use one of: ${MNEMONIC_LANGUAGES.join(', ')}`));
+      return;
+    }
+
+    const mnemonic = recoverMnemonic(shares, language);
+    const passphrase = await promptPassphrase(rl, false);
+    if (passphrase === null) return;
+    const derivationPath = await question(rl, 'Derivation path (Enter for legacy TETSUO derivation): ');
+    console.log(chalk.yellow('[...] Restoring wallet...'));
+    const wallet = await importFromMnemonic(mnemonic, { derivationPath: derivationPath.trim() || undefined, passphrase, network: NETWORK });
+
+    const store = loadWallets();
+    if (store.wallets.some(w => w.name === trimmedName)) {
+      console.log(chalk.red('[ERROR] Wallet with this name already exists'));
+      return;
+    }
+
+    store.wallets.push({
+      name: trimmedName,
+      address: wallet.address,
+      privateKey: wallet.privateKey,
+      publicKey: wallet.publicKey,
+      mnemonic: wallet.mnemonic,
+      hasPassphrase: passphrase ? true : undefined,
+      derivationPath: wallet.derivationPath,
+      createdAt: new Date().toISOString()
+    });
+
+    if (!store.selectedWallet) {
+      store.selectedWallet = trimmedName;
+    }
+
+    saveWallets(store);
+    console.log(chalk.green('[OK] Wallet restored from shares!'));
+    console.log(chalk.cyan('[ADDR] Address:'));
+    console.log(chalk.yellow(wallet.address));
+  } catch (error: any) {
+    console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+  }
+}
+
+async function createMultisigWallet(rl: readline.Interface): Promise<void> {
+  const name = await question(rl, 'Wallet name: ');
+  const trimmedName = name.trim();
+
+  if (!trimmedName || trimmedName.length > 50 || !/^[a-zA-Z0-9_-]+$/.test(trimmedName)) {
+    console.log(chalk.red('[ERROR] Wallet name must be 1-50 letters, numbers, underscores, or hyphens'));
+    return;
+  }
+
+  const keysInput = await question(rl, 'Public keys (comma separated): ');
+  const publicKeys = keysInput.split(',').map(k => k.trim()).filter(Boolean);
+  const required = parseInt(await question(rl, `Required signatures (1-${publicKeys.length}): `));
+
+  try {
+    // Sort keys (BIP67) so every co-signer derives the same address
+    const redeemScript = createMultisigScript(required, publicKeys, { sort: true });
+    const address = generateScriptAddress(redeemScript, NETWORK);
+
+    const store = loadWallets();
+    if (store.wallets.some(w => w.name === trimmedName)) {
+      console.log(chalk.red('[ERROR] Wallet with this name already exists'));
+      return;
+    }
+
+    store.wallets.push({
+      name: trimmedName,
+      address,
+      watchOnly: true,
+      redeemScript,
+      createdAt: new Date().toISOString()
+    });
+
+    if (!store.selectedWallet) {
+      store.selectedWallet = trimmedName;
+    }
+
+    saveWallets(store);
+
+    console.log(chalk.green(`[OK] ${required}-of-${publicKeys.length} multisig wallet created!`));
+    console.log(chalk.cyan('\n[ADDR] Address:'));
+    console.log(chalk.yellow(address));
+    console.log(chalk.cyan('\n[NOTE] Redeem script (share with co-signers):'));
+    console.log(chalk.yellow(redeemScript));
+    console.log(chalk.gray('\nSpend with /psbt-export, collect signatures with /psbt-sign, then /psbt-broadcast'));
+  } catch (error: any) {
+    console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+  }
+}
+
 async function listWallets(): Promise<void> {
   const store = loadWallets();
 
@@ -373,9 +712,10 @@ async function listWallets(): Promise<void> {
 
   store.wallets.forEach((wallet, index) => {
     const selected = store.selectedWallet === wallet.name ? ' [SELECTED]' : '';
+    const watchOnly = wallet.watchOnly ? chalk.gray(' [WATCH-ONLY]') : '';
     const created = new Date(wallet.createdAt).toLocaleDateString();
     console.log(
-      `${index + 1}. ${chalk.bold(wallet.name)}${selected}`
+      `${index + 1}. ${chalk.bold(wallet.name)}${selected}${watchOnly}`
     );
     console.log(`   Address: ${chalk.green(wallet.address)}`);
     console.log(`   Created: ${created}`);
@@ -417,14 +757,16 @@ async function getBalance(): Promise<void> {
 
   try {
     console.log(chalk.yellow('[...] Fetching balance...'));
-    const rpc = createRPCClient(RPC_URL);
-    const balance = await rpc.getBalance(wallet.address);
+    const rpc = getRPCClient();
+    const balance = wallet.extendedPublicKey
+      ? (await scanWatchOnlyAccount(wallet, rpc)).balance
+      : await rpc.getBalance(wallet.address);
 
     console.log(chalk.cyan('\n[BALANCE] Balance Information:'));
     console.log('─'.repeat(50));
     console.log(chalk.yellow('  Wallet:  ') + chalk.white(wallet.name));
     console.log(chalk.yellow('  Address: ') + chalk.white(wallet.address));
-    console.log(chalk.yellow('  Balance: ') + chalk.green(`${formatAmount(balance)} TETSUO`));
+    console.log(chalk.yellow('  Balance: ') + chalk.green(`${displayAmount(balance)} TETSUO`));
     console.log('─'.repeat(50));
   } catch (error: any) {
     console.log(chalk.red(`[ERROR] Error: ${error.message}`));
@@ -442,8 +784,8 @@ async function getTransactions(): Promise<void> {
 
   try {
     console.log(chalk.yellow('[...] Fetching transactions...'));
-    const rpc = createRPCClient(RPC_URL);
-    const transactions = await rpc.getTransactionHistory(wallet.address);
+    const rpc = getRPCClient();
+    const transactions = await getWalletTransactions(wallet, rpc);
 
     if (transactions.length === 0) {
       console.log(chalk.cyan('\n[HISTORY] Transaction History:'));
@@ -459,8 +801,8 @@ async function getTransactions(): Promise<void> {
     transactions.forEach((tx: any) => {
       const type = tx.isIncoming ? chalk.green('↓ RECEIVE') : chalk.yellow('↑ SEND');
       const date = new Date(tx.timestamp).toLocaleDateString();
-      const feeStr = tx.fee ? ` | Fee: ${tx.fee}` : '';
-      console.log(`${type} | ${formatAmount(tx.amount)} TETSUO | Confirmations: ${tx.confirmations}${feeStr} | ${date}`);
+      const feeStr = tx.fee ? ` | Fee: ${displayAmount(tx.fee)} TETSUO` : '';
+      console.log(`${type} | ${displayAmount(tx.amount)} TETSUO | Confirmations: ${tx.confirmations}${feeStr} | ${date}`);
     });
     console.log('─'.repeat(80));
   } catch (error: any) {
@@ -477,12 +819,26 @@ async function receiveTokens(): Promise<void> {
     return;
   }
 
+  let address = wallet.address;
+
+  if (wallet.extendedPublicKey) {
+    try {
+      console.log(chalk.yellow('[...] Finding next unused address...'));
+      const account = await scanWatchOnlyAccount(wallet, getRPCClient());
+      const accountNode = fromExtendedKey(wallet.extendedPublicKey, { network: NETWORK });
+      address = deriveAccountAddress(accountNode, RECEIVE_CHAIN, account.nextReceiveIndex, undefined, NETWORK).address;
+    } catch (error: any) {
+      console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+      return;
+    }
+  }
+
   console.log(chalk.cyan('\n[ADDR] Receive Address:'));
-  console.log(chalk.green(wallet.address));
+  console.log(chalk.green(address));
   console.log(chalk.yellow('\nShare this address to receive TETSUO'));
 }
 
-async function sendTokens(rl: readline.Interface): Promise<void> {
+async function sendTokens(rl: readline.Interface, exportOnly: boolean = false, withMemo: boolean = false): Promise<void> {
   const store = loadWallets();
   const wallet = store.wallets.find(w => w.name === store.selectedWallet);
 
@@ -492,95 +848,99 @@ async function sendTokens(rl: readline.Interface): Promise<void> {
   }
 
   const toAddress = await question(rl, 'Recipient address: ');
-  if (!isValidAddress(toAddress)) {
-    console.log(chalk.red('[ERROR] Invalid recipient address'));
+  if (!isValidAddress(toAddress, NETWORK)) {
+    console.log(chalk.red('[ERROR] Invalid recipient address' + wrongNetworkHint(toAddress)));
     return;
   }
 
-  const amount = await question(rl, 'Amount (TETSUO): ');
-  const numAmount = parseFloat(amount);
-
-  // Validate amount
-  if (isNaN(numAmount)) {
-    console.log(chalk.red('[ERROR] Invalid amount - must be a number'));
-    return;
-  }
-  if (numAmount <= 0) {
-    console.log(chalk.red('[ERROR] Amount must be greater than 0'));
-    return;
-  }
-  if (numAmount > 21_000_000) {
-    console.log(chalk.red('[ERROR] Amount exceeds maximum (21,000,000 TETSUO)'));
-    return;
-  }
-  // Check for too many decimal places (max 8)
-  const decimalPlaces = (amount.split('.')[1] || '').length;
-  if (decimalPlaces > 8) {
-    console.log(chalk.red('[ERROR] Maximum 8 decimal places allowed'));
-    return;
+  const amount = await question(rl, 'Amount (TETSUO, or "max" for the whole balance): ');
+  const sendMax = amount.trim().toLowerCase() === 'max';
+  let numAmount: Amount = 0n;
+  if (!sendMax) {
+    try {
+      numAmount = parseAmountInput(amount);
+    } catch (error: any) {
+      console.log(chalk.red('[ERROR] ' + error.message));
+      return;
+    }
   }
+
   // Prevent sending to self
   if (toAddress === wallet.address) {
     console.log(chalk.red('[ERROR] Cannot send to yourself'));
     return;
   }
 
+  let memo: string | Buffer | undefined;
+  if (withMemo) {
+    memo = parseMemoInput(await question(rl, `Memo (text, or 0x-prefixed hex; max ${MAX_DATA_CARRIER_SIZE} bytes): `));
+    if (memo.length === 0) {
+      console.log(chalk.red('[ERROR] Memo must not be empty'));
+      return;
+    }
+  }
+
+  // Send-max spends every UTXO, so there is nothing to select
+  const spendOptions = await promptSpendOptions(rl, !sendMax);
+  if (!spendOptions) return;
+
   try {
     console.log(chalk.yellow('\n[...] Preparing transaction...'));
-    const rpc = createRPCClient(RPC_URL);
+    const rpc = getRPCClient();
 
     // Get UTXOs
     console.log(chalk.yellow('  Fetching UTXOs...'));
-    const utxos = await rpc.getUTXOs(wallet.address);
+    const { utxos, changeAddress } = await getSpendableUTXOs(wallet, rpc);
 
     if (utxos.length === 0) {
       console.log(chalk.red('[ERROR] No UTXOs available to spend'));
       return;
     }
 
-    // Build transaction
-    const txData = buildTransaction(wallet.address, toAddress, numAmount, utxos, wallet.address);
+    // Use the node's fee rate unless the user picked one
+    const feeRate = await resolveSpendFeeRate(spendOptions, rpc);
+
+    // Build transaction (send-max takes the fee out of the payment)
+    const txData = sendMax
+      ? buildSweepTransaction(wallet.address, toAddress, utxos, {
+        feeRate,
+        replaceable: spendOptions.replaceable,
+        memo,
+        network: NETWORK
+      })
+      : buildTransaction(wallet.address, toAddress, numAmount, utxos, changeAddress, {
+        coinSelection: spendOptions.coinSelection,
+        feeRate,
+        replaceable: spendOptions.replaceable,
+        memo,
+        network: NETWORK
+      });
+    if (sendMax) {
+      numAmount = txData.outputs[0].value;
+    }
 
     // Show transaction details
     console.log(chalk.cyan('\n[HISTORY] Transaction Details:'));
     console.log('─'.repeat(60));
     console.log(chalk.yellow('  From:     ') + wallet.address);
     console.log(chalk.yellow('  To:       ') + toAddress);
-    console.log(chalk.yellow('  Amount:   ') + chalk.green(formatAmount(numAmount) + ' TETSUO'));
-    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(formatAmount(txData.fee / 100_000_000) + ' TETSUO'));
-    console.log(chalk.yellow('  Total:    ') + chalk.cyan(formatAmount(numAmount + txData.fee / 100_000_000) + ' TETSUO'));
-    console.log('─'.repeat(60));
-
-    // Ask for confirmation
-    const confirm = await question(rl, chalk.cyan('\nConfirm transaction? (yes/no): '));
-    if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
-      console.log(chalk.yellow('[CANCEL] Transaction cancelled'));
-      return;
+    console.log(chalk.yellow('  Amount:   ') + chalk.green(displayAmount(numAmount) + ' TETSUO'));
+    if (memo !== undefined) {
+      console.log(chalk.yellow('  Memo:     ') + (Buffer.isBuffer(memo) ? '0x' + memo.toString('hex') : memo) + chalk.gray(' (OP_RETURN)'));
     }
-
-    // Create and sign transaction
-    console.log(chalk.yellow('\n[...] Signing transaction...'));
-    const txHex = createTransactionHex(txData.inputs, txData.outputs);
-    const signedTxHex = signTransaction(txHex, wallet.privateKey, txData.inputs, utxos);
-
-    // Broadcast signed transaction (client-side only - private key never leaves device)
-    console.log(chalk.yellow('  Broadcasting...'));
-    const txid = await rpc.broadcastTransaction(signedTxHex);
-
-    console.log(chalk.green('\n[OK] Transaction sent successfully!'));
-    console.log(chalk.cyan('\n[INFO] Transaction Info:'));
-    console.log('─'.repeat(60));
-    console.log(chalk.yellow('  TXID:     ') + chalk.green(txid));
-    console.log(chalk.yellow('  Amount:   ') + chalk.green(formatAmount(numAmount) + ' TETSUO'));
-    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(formatAmount(txData.fee / 100_000_000) + ' TETSUO'));
+    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(displayAmount(txData.fee) + ' TETSUO') + chalk.gray(` (${feeRate} sat/byte)`));
+    console.log(chalk.yellow('  Total:    ') + chalk.cyan(displayAmount(numAmount + txData.fee) + ' TETSUO'));
+    console.log(chalk.yellow('  Inputs:   ') + txData.inputs.length + chalk.gray(` (${sendMax ? 'all UTXOs' : spendOptions.coinSelection})`));
     console.log('─'.repeat(60));
-    console.log(chalk.cyan('\nCheck transaction status at: https://tetsuoarena.com/tx/' + txid));
+
+    await confirmAndBroadcast(rl, wallet, rpc, txData, utxos, numAmount, exportOnly);
   } catch (error: any) {
     console.log(chalk.red('\n[ERROR] Error: ' + error.message));
   }
 }
 
-async function walletData(): Promise<void> {
+// Pay every recipient listed in a CSV file with one transaction
+async function sendBatch(rl: readline.Interface): Promise<void> {
   const store = loadWallets();
   const wallet = store.wallets.find(w => w.name === store.selectedWallet);
 
@@ -589,20 +949,69 @@ async function walletData(): Promise<void> {
     return;
   }
 
-  console.log(chalk.cyan('\n[INFO] Wallet Data:'));
-  console.log('─'.repeat(80));
-  console.log(`Name:       ${chalk.yellow(wallet.name)}`);
-  console.log(`Address:    ${chalk.green(wallet.address)}`);
-  console.log(`Public Key: ${chalk.blue(wallet.publicKey)}`);
-  console.log(`Created:    ${new Date(wallet.createdAt).toLocaleString()}`);
-  if (wallet.mnemonic) {
-    console.log(chalk.yellow('\nMnemonic (keep safe):'));
-    console.log(chalk.red(wallet.mnemonic));
+  console.log(chalk.gray('CSV format: one "address,amount" per line (TETSUO); header and # comments are skipped'));
+  const filePath = (await question(rl, 'Recipients CSV file: ')).trim();
+
+  let recipients: PaymentRecipient[];
+  try {
+    recipients = parseRecipientsCsv(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    console.log(chalk.red('[ERROR] ' + error.message));
+    return;
+  }
+
+  if (recipients.some(r => r.address === wallet.address)) {
+    console.log(chalk.red('[ERROR] Cannot send to yourself'));
+    return;
+  }
+
+  const spendOptions = await promptSpendOptions(rl);
+  if (!spendOptions) return;
+
+  try {
+    console.log(chalk.yellow('\n[...] Preparing transaction...'));
+    const rpc = getRPCClient();
+
+    console.log(chalk.yellow('  Fetching UTXOs...'));
+    const { utxos, changeAddress } = await getSpendableUTXOs(wallet, rpc);
+
+    if (utxos.length === 0) {
+      console.log(chalk.red('[ERROR] No UTXOs available to spend'));
+      return;
+    }
+
+    const feeRate = await resolveSpendFeeRate(spendOptions, rpc);
+    const txData = buildBatchTransaction(wallet.address, recipients, utxos, changeAddress, {
+      coinSelection: spendOptions.coinSelection,
+      feeRate,
+      replaceable: spendOptions.replaceable,
+      network: NETWORK
+    });
+
+    const total = sumAmounts(recipients.map(r => r.amount));
+
+    console.log(chalk.cyan('\n[HISTORY] Batch Payment:'));
+    console.log('─'.repeat(60));
+    recipients.forEach((recipient, i) => {
+      console.log(chalk.gray(`  ${String(i + 1).padStart(3)}. `) + recipient.address + '  ' +
+        chalk.green(displayAmount(recipient.amount) + ' TETSUO'));
+    });
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  Recipients: ') + recipients.length);
+    console.log(chalk.yellow('  Amount:     ') + chalk.green(displayAmount(total) + ' TETSUO'));
+    console.log(chalk.yellow('  Fee:        ') + chalk.yellow(displayAmount(txData.fee) + ' TETSUO') + chalk.gray(` (${feeRate} sat/byte)`));
+    console.log(chalk.yellow('  Total:      ') + chalk.cyan(displayAmount(total + txData.fee) + ' TETSUO'));
+    console.log(chalk.yellow('  Inputs:     ') + txData.inputs.length + chalk.gray(` (${spendOptions.coinSelection})`));
+    console.log('─'.repeat(60));
+
+    await confirmAndBroadcast(rl, wallet, rpc, txData, utxos, total, false);
+  } catch (error: any) {
+    console.log(chalk.red('\n[ERROR] Error: ' + error.message));
   }
-  console.log('─'.repeat(80));
 }
 
-async function deleteWallet(rl: readline.Interface): Promise<void> {
+// Move every UTXO held by a private key into the selected wallet
+async function sweepPrivateKey(rl: readline.Interface): Promise<void> {
   const store = loadWallets();
   const wallet = store.wallets.find(w => w.name === store.selectedWallet);
 
@@ -611,36 +1020,770 @@ async function deleteWallet(rl: readline.Interface): Promise<void> {
     return;
   }
 
-  const confirm = await question(rl, `Delete ${wallet.name}? (yes/no): `);
-  if (confirm.toLowerCase() !== 'yes') {
-    console.log(chalk.yellow('Cancelled'));
+  const keyInput = await question(rl, 'Private key to sweep (WIF or hex): ');
+  let source: { address: string; privateKey: string };
+  try {
+    source = importFromPrivateKey(keyInput, NETWORK);
+  } catch (error: any) {
+    console.log(chalk.red('[ERROR] ' + error.message));
     return;
   }
 
-  store.wallets = store.wallets.filter(w => w.name !== wallet.name);
-  if (store.selectedWallet === wallet.name) {
-    store.selectedWallet = store.wallets[0]?.name;
+  if (source.address === wallet.address) {
+    console.log(chalk.red('[ERROR] This key belongs to the selected wallet'));
+    return;
   }
 
-  saveWallets(store);
-  console.log(chalk.green('[OK] Wallet deleted'));
-}
+  const spendOptions = await promptSpendOptions(rl, false);
+  if (!spendOptions) return;
 
-async function configureRPC(rl: readline.Interface): Promise<void> {
-  const config = loadConfig();
+  try {
+    console.log(chalk.yellow('\n[...] Fetching UTXOs for ' + source.address + '...'));
+    const rpc = getRPCClient();
+    const utxos = await rpc.getUTXOs(source.address);
 
-  console.log(chalk.cyan('\n[CONFIG]  RPC Configuration:'));
-  console.log(`Current RPC URL: ${chalk.green(RPC_URL)}`);
+    if (utxos.length === 0) {
+      console.log(chalk.red('[ERROR] No funds found at ' + source.address));
+      return;
+    }
+
+    const feeRate = await resolveSpendFeeRate(spendOptions, rpc);
+    const txData = buildSweepTransaction(source.address, wallet.address, utxos, {
+      feeRate,
+      replaceable: spendOptions.replaceable,
+      network: NETWORK
+    });
+    const amount = txData.outputs[0].value;
+
+    console.log(chalk.cyan('\n[HISTORY] Sweep Details:'));
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  From:     ') + source.address);
+    console.log(chalk.yellow('  To:       ') + wallet.address + chalk.gray(` (${wallet.name})`));
+    console.log(chalk.yellow('  UTXOs:    ') + utxos.length);
+    console.log(chalk.yellow('  Amount:   ') + chalk.green(displayAmount(amount) + ' TETSUO'));
+    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(displayAmount(txData.fee) + ' TETSUO') + chalk.gray(` (${feeRate} sat/byte)`));
+    console.log('─'.repeat(60));
+
+    const sweepWallet: StoredWallet = {
+      name: 'sweep',
+      address: source.address,
+      privateKey: source.privateKey,
+      createdAt: new Date().toISOString()
+    };
+    await confirmAndBroadcast(rl, sweepWallet, rpc, txData, utxos, amount, false);
+  } catch (error: any) {
+    console.log(chalk.red('\n[ERROR] Error: ' + error.message));
+  }
+}
+
+// Speed up an unconfirmed transaction with replace-by-fee or child-pays-for-parent
+async function bumpTransactionFee(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+
+  const txid = (await question(rl, 'Transaction ID to speed up: ')).trim().toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(txid)) {
+    console.log(chalk.red('[ERROR] Invalid transaction ID'));
+    return;
+  }
+
+  try {
+    console.log(chalk.yellow('\n[...] Fetching transaction...'));
+    const rpc = getRPCClient();
+
+    const original = await rpc.getDecodedTransaction(txid);
+    const spentOutputs = (await getSpentOutputs(original, rpc))
+      .map(utxo => wallet.redeemScript ? { ...utxo, redeemScript: wallet.redeemScript } : utxo);
+    const originalFee = getTransactionFee(original, spentOutputs);
+
+    const ownAddresses = new Set([wallet.address]);
+    if (wallet.extendedPublicKey) {
+      const account = await scanWatchOnlyAccount(wallet, rpc);
+      [...account.receive, ...account.change].forEach(entry => ownAddresses.add(entry.address));
+    }
+
+    const replaceable = signalsReplaceByFee(original);
+
+    console.log(chalk.cyan('\n[HISTORY] Original Transaction:'));
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  TXID:     ') + original.txid);
+    original.outputs.forEach((output, i) => {
+      const owner = output.address && ownAddresses.has(output.address) ? chalk.gray(' [OURS]') : '';
+      console.log(chalk.gray(`  ${i}. `) + (output.address || 'non-standard') + '  ' +
+        chalk.green(displayAmount(output.value) + ' TETSUO') + owner);
+    });
+    console.log(chalk.yellow('  Fee:      ') + displayAmount(originalFee) + ' TETSUO' +
+      chalk.gray(` (${(Number(originalFee) / original.size).toFixed(1)} sat/byte)`));
+    console.log(chalk.yellow('  RBF:      ') + (replaceable ? chalk.green('signalled') : chalk.yellow('not signalled')));
+    console.log('─'.repeat(60));
 
-  const newUrl = await question(rl, 'Enter new RPC URL (or press Enter to keep current): ');
+    let method = 'cpfp';
+    if (replaceable) {
+      method = (await question(rl, 'Bump with (rbf/cpfp, default rbf): ')).trim().toLowerCase() || 'rbf';
+      if (method !== 'rbf' && method !== 'cpfp') {
+        console.log(chalk.red('[ERROR] Unknown method'));
+        return;
+      }
+    } else {
+      console.log(chalk.gray('Not replaceable: spending one of our outputs with a child transaction (CPFP)'));
+    }
 
-  if (newUrl.trim()) {
-    RPC_URL = newUrl.trim();
-    saveConfig({ rpcUrl: RPC_URL });
-    console.log(chalk.green('[OK] RPC URL updated!'));
-    console.log(`New URL: ${chalk.green(RPC_URL)}`);
+    const feeInput = (await question(rl, 'New fee rate (low/normal/high or sat/byte): ')).trim().toLowerCase();
+    const feeRate = resolveFeeRate(isFeePriority(feeInput) ? feeInput : Number(feeInput), undefined, NETWORK);
+
+    const { utxos, changeAddress } = await getSpendableUTXOs(wallet, rpc);
+    let result: FeeBumpResult;
+    let amount: Amount;
+
+    if (method === 'rbf') {
+      // Keep the change going back to the address the original used
+      const originalChange = original.outputs.find(output => output.address && ownAddresses.has(output.address));
+      result = createReplacementTransaction(original, spentOutputs, {
+        feeRate,
+        changeAddress: originalChange?.address || changeAddress,
+        utxos,
+        network: NETWORK
+      });
+      amount = sumAmounts(result.outputs
+        .filter(output => output.address && !ownAddresses.has(output.address))
+        .map(output => output.value));
+    } else {
+      const ours = original.outputs.find(output => output.address && ownAddresses.has(output.address));
+      if (!ours) {
+        console.log(chalk.red('[ERROR] No output of this transaction pays this wallet'));
+        return;
+      }
+      result = createChildPaysForParent(original, originalFee, {
+        address: ours.address!,
+        toAddress: changeAddress,
+        feeRate,
+        network: NETWORK
+      });
+      result.utxos = result.utxos.map(utxo => wallet.redeemScript ? { ...utxo, redeemScript: wallet.redeemScript } : utxo);
+      amount = result.outputs[0].value;
+    }
+
+    console.log(chalk.cyan(`\n[HISTORY] ${method === 'rbf' ? 'Replacement' : 'Child'} Transaction:`));
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  Inputs:   ') + result.inputs.length);
+    result.outputs.forEach(output => {
+      console.log(chalk.yellow('  Output:   ') + output.address + '  ' + chalk.green(displayAmount(output.value) + ' TETSUO'));
+    });
+    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(displayAmount(result.fee) + ' TETSUO') + chalk.gray(` (${feeRate} sat/byte)`));
+    console.log('─'.repeat(60));
+
+    await confirmAndBroadcast(rl, wallet, rpc, result, result.utxos, amount, false);
+  } catch (error: any) {
+    console.log(chalk.red('\n[ERROR] Error: ' + error.message));
+  }
+}
+
+// Ask for coin selection strategy and fee rate; undefined if the input is invalid
+async function promptSpendOptions(
+  rl: readline.Interface,
+  askCoinSelection: boolean = true
+): Promise<{ coinSelection: CoinSelectionStrategy; feeOverride?: number | FeePriority; replaceable: boolean } | undefined> {
+  const strategies = Object.keys(COIN_SELECTION_STRATEGIES).join('/');
+  const strategyInput = askCoinSelection
+    ? (await question(rl, `Coin selection (${strategies}, default ${DEFAULT_COIN_SELECTION}): `)).trim() || DEFAULT_COIN_SELECTION
+    : DEFAULT_COIN_SELECTION;
+  if (!isCoinSelectionStrategy(strategyInput)) {
+    console.log(chalk.red('[ERROR] Unknown coin selection strategy'));
+    return undefined;
+  }
+
+  const feeInput = (await question(rl, 'Fee rate (low/normal/high or sat/byte, Enter for node estimate): ')).trim().toLowerCase();
+  let feeOverride: number | FeePriority | undefined;
+  if (feeInput) {
+    feeOverride = isFeePriority(feeInput) ? feeInput : Number(feeInput);
+    try {
+      resolveFeeRate(feeOverride, undefined, NETWORK);
+    } catch (error: any) {
+      console.log(chalk.red('[ERROR] ' + error.message));
+      return undefined;
+    }
+  }
+
+  const rbfInput = await question(rl, 'Allow fee bumping later (replace-by-fee)? (yes/no, default no): ');
+  const replaceable = rbfInput.toLowerCase() === 'yes' || rbfInput.toLowerCase() === 'y';
+
+  return { coinSelection: strategyInput, feeOverride, replaceable };
+}
+
+// Use the node's fee rate unless the user picked one
+async function resolveSpendFeeRate(
+  options: { feeOverride?: number | FeePriority },
+  rpc: ReturnType<typeof createRPCClient>
+): Promise<number> {
+  return options.feeOverride === undefined ? rpc.getFeeRate() : resolveFeeRate(options.feeOverride, undefined, NETWORK);
+}
+
+// Confirm, then sign and broadcast (or export a PSBT for wallets that cannot sign)
+async function confirmAndBroadcast(
+  rl: readline.Interface,
+  wallet: StoredWallet,
+  rpc: ReturnType<typeof createRPCClient>,
+  txData: TransactionData,
+  utxos: UTXO[],
+  amount: Amount,
+  exportOnly: boolean
+): Promise<void> {
+  // Ask for confirmation
+  const confirm = await question(rl, chalk.cyan('\nConfirm transaction? (yes/no): '));
+  if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+    console.log(chalk.yellow('[CANCEL] Transaction cancelled'));
+    return;
+  }
+
+  const txHex = createTransactionHex(txData.inputs, txData.outputs, undefined, {
+    version: txData.version,
+    locktime: txData.locktime,
+    network: NETWORK
+  });
+
+  // Watch-only wallets cannot sign: export an unsigned PSBT instead
+  if (exportOnly || wallet.watchOnly || !wallet.privateKey) {
+    if (!exportOnly) {
+      console.log(chalk.yellow('\n[WATCH-ONLY] This wallet cannot sign transactions.'));
+    }
+    await writePsbtFile(rl, createPsbt(txHex, utxos), `unsigned-${Date.now()}.psbt`);
+    console.log(chalk.cyan('Sign it offline with /psbt-sign, then broadcast with /psbt-broadcast'));
+    return;
+  }
+
+  // Sign transaction
+  console.log(chalk.yellow('\n[...] Signing transaction...'));
+  const signedTxHex = await signTransaction(txHex, wallet.privateKey, txData.inputs, utxos);
+
+  // Never broadcast something a node would reject or that pays the wrong fee
+  const verification = verifyTransaction(signedTxHex, utxos, { expectedFee: txData.fee, network: NETWORK });
+  if (!verification.valid) {
+    printVerificationErrors(verification);
+    return;
+  }
+
+  // Broadcast signed transaction (client-side only - private key never leaves device)
+  console.log(chalk.yellow('  Broadcasting...'));
+  const txid = await rpc.broadcastTransaction(signedTxHex);
+
+  console.log(chalk.green('\n[OK] Transaction sent successfully!'));
+  console.log(chalk.cyan('\n[INFO] Transaction Info:'));
+  console.log('─'.repeat(60));
+  console.log(chalk.yellow('  TXID:     ') + chalk.green(txid));
+  console.log(chalk.yellow('  Amount:   ') + chalk.green(displayAmount(amount) + ' TETSUO'));
+  console.log(chalk.yellow('  Fee:      ') + chalk.yellow(displayAmount(txData.fee) + ' TETSUO'));
+  console.log(chalk.yellow('  Size:     ') + getTransactionSize(signedTxHex) + ' bytes' +
+    chalk.gray(` (${getTransactionFeeRate(signedTxHex, txData.fee).toFixed(1)} sat/byte)`));
+  console.log('─'.repeat(60));
+  printTransactionLink(txid);
+}
+
+function printVerificationErrors(verification: TransactionVerification): void {
+  console.log(chalk.red('\n[ERROR] Transaction failed verification and was NOT broadcast:'));
+  for (const error of verification.errors) {
+    console.log(chalk.red(`  - ${error}`));
+  }
+  for (const { index, txid, vout, error } of verification.inputErrors) {
+    console.log(chalk.red(`  - Input ${index} (${txid}:${vout}): ${error}`));
+  }
+}
+
+// Optional BIP39 passphrase; returns undefined for none and null if confirmation fails
+async function promptPassphrase(rl: readline.Interface, confirm: boolean): Promise<string | undefined | null> {
+  const passphrase = await question(rl, 'BIP39 passphrase (optional, Enter for none): ');
+  if (!passphrase) {
+    return undefined;
+  }
+
+  if (confirm && (await question(rl, 'Confirm passphrase: ')) !== passphrase) {
+    console.log(chalk.red('[ERROR] Passphrases do not match'));
+    return null;
+  }
+  return passphrase;
+}
+
+// Memo text for an OP_RETURN output; "0x" + hex is sent as raw bytes (e.g. a document hash)
+function parseMemoInput(input: string): string | Buffer {
+  const memo = input.trim();
+  return /^0x([0-9a-fA-F]{2})+$/.test(memo) ? Buffer.from(memo.slice(2), 'hex') : memo;
+}
+
+// Validate a TETSUO amount typed by the user, returning satoshis
+function parseAmountInput(amount: string): Amount {
+  if (!/^\s*\d*\.?\d+\s*$/.test(amount)) {
+    throw new Error('Invalid amount - must be a number');
+  }
+  if ((amount.trim().split('.')[1] || '').length > AMOUNT_DECIMALS) {
+    throw new Error(`Maximum ${AMOUNT_DECIMALS} decimal places allowed`);
+  }
+
+  const satoshis = parseAmount(amount);
+  if (satoshis <= 0n) {
+    throw new Error('Amount must be greater than 0');
+  }
+  return satoshis;
+}
+
+// Parse "address,amount" lines; a header row, blank lines and # comments are skipped
+function parseRecipientsCsv(content: string): PaymentRecipient[] {
+  const recipients: PaymentRecipient[] = [];
+
+  content.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const [address, amount, ...rest] = trimmed.split(',').map(field => field.trim());
+    if (recipients.length === 0 && address.toLowerCase() === 'address') return;
+
+    if (amount === undefined || rest.length > 0) {
+      throw new Error(`Line ${i + 1}: expected "address,amount"`);
+    }
+    if (!isValidAddress(address, NETWORK)) {
+      throw new Error(`Line ${i + 1}: invalid address ${address}${wrongNetworkHint(address)}`);
+    }
+
+    try {
+      recipients.push({ address, amount: parseAmountInput(amount) });
+    } catch (error: any) {
+      throw new Error(`Line ${i + 1}: ${error.message}`);
+    }
+  });
+
+  if (recipients.length === 0) {
+    throw new Error('No recipients found in CSV file');
+  }
+
+  return recipients;
+}
+
+// Scan an xpub watch-only wallet for used addresses
+async function scanWatchOnlyAccount(wallet: StoredWallet, rpc: ReturnType<typeof createRPCClient>): Promise<DiscoveredAccount> {
+  return scanAccount(fromExtendedKey(wallet.extendedPublicKey!, { network: NETWORK }), rpc, { network: NETWORK });
+}
+
+// Get transaction history for every address of a wallet
+async function getWalletTransactions(wallet: StoredWallet, rpc: ReturnType<typeof createRPCClient>) {
+  if (!wallet.extendedPublicKey) {
+    return rpc.getTransactionHistory(wallet.address);
+  }
+
+  const account = await scanWatchOnlyAccount(wallet, rpc);
+  const seen = new Set<string>();
+  const transactions = [];
+
+  for (const entry of [...account.receive, ...account.change]) {
+    for (const tx of await rpc.getTransactionHistory(entry.address)) {
+      if (!seen.has(tx.txid)) {
+        seen.add(tx.txid);
+        transactions.push(tx);
+      }
+    }
+  }
+
+  return transactions.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Get spendable UTXOs and the change address for a wallet
+async function getSpendableUTXOs(
+  wallet: StoredWallet,
+  rpc: ReturnType<typeof createRPCClient>
+): Promise<{ utxos: UTXO[]; changeAddress: string }> {
+  if (!wallet.extendedPublicKey) {
+    const utxos = await rpc.getUTXOs(wallet.address);
+    // P2SH spends need the redeem script alongside each UTXO
+    return {
+      utxos: wallet.redeemScript ? utxos.map(utxo => ({ ...utxo, redeemScript: wallet.redeemScript })) : utxos,
+      changeAddress: wallet.address
+    };
+  }
+
+  const account = await scanWatchOnlyAccount(wallet, rpc);
+  const utxos: UTXO[] = [];
+
+  for (const entry of [...account.receive, ...account.change]) {
+    utxos.push(...await rpc.getUTXOs(entry.address));
+  }
+
+  const accountNode = fromExtendedKey(wallet.extendedPublicKey, { network: NETWORK });
+  const changeAddress = deriveAccountAddress(accountNode, CHANGE_CHAIN, account.nextChangeIndex, undefined, NETWORK).address;
+
+  return { utxos, changeAddress };
+}
+
+async function discoverAddresses(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+
+  if (!wallet.mnemonic) {
+    console.log(chalk.red('[ERROR] Account discovery requires a wallet imported from a mnemonic'));
+    return;
+  }
+
+  // The passphrase is not stored, so ask for it again
+  const passphrase = wallet.hasPassphrase ? await promptPassphrase(rl, false) : undefined;
+  if (passphrase === null) return;
+
+  const gapInput = await question(rl, `Gap limit (default ${DEFAULT_GAP_LIMIT}): `);
+  const gapLimit = gapInput.trim() ? parseInt(gapInput.trim()) : DEFAULT_GAP_LIMIT;
+
+  if (isNaN(gapLimit) || gapLimit < 1) {
+    console.log(chalk.red('[ERROR] Gap limit must be a positive number'));
+    return;
+  }
+
+  try {
+    console.log(chalk.yellow('[...] Scanning receive and change addresses...'));
+    const rpc = getRPCClient();
+    const account = await discoverAccount(wallet.mnemonic, rpc, { gapLimit, passphrase, network: NETWORK });
+    const used = [...account.receive, ...account.change];
+
+    console.log(chalk.cyan('\n[ACCOUNT] Discovered Addresses:'));
+    console.log(chalk.yellow('  Account: ') + account.accountPath);
+    console.log('─'.repeat(80));
+
+    if (used.length === 0) {
+      console.log(chalk.yellow('No used addresses found'));
+    }
+
+    used.forEach(entry => {
+      const chain = entry.chain === 0 ? 'receive' : 'change ';
+      console.log(`${chain} | ${entry.path} | ${chalk.green(entry.address)} | ${displayAmount(entry.balance)} TETSUO | ${entry.transactionCount} tx`);
+    });
+
+    console.log('─'.repeat(80));
+    console.log(chalk.yellow('  Next receive index: ') + account.nextReceiveIndex);
+    console.log(chalk.yellow('  Next change index:  ') + account.nextChangeIndex);
+    console.log(chalk.yellow('  Total balance:      ') + chalk.green(`${displayAmount(account.balance)} TETSUO`));
+  } catch (error: any) {
+    console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+  }
+}
+
+// Ask for a file path and write a PSBT to it
+async function writePsbtFile(rl: readline.Interface, psbt: Psbt, defaultName: string): Promise<string> {
+  const defaultPath = path.join(WALLET_DIR, defaultName);
+  const filePath = (await question(rl, `Save PSBT to (default ${defaultPath}): `)).trim() || defaultPath;
+  fs.writeFileSync(filePath, encodePsbt(psbt) + '\n');
+  console.log(chalk.green('[OK] PSBT saved to: ') + filePath);
+  return filePath;
+}
+
+// Read a PSBT from a file
+function readPsbtFile(filePath: string): Psbt {
+  return decodePsbt(fs.readFileSync(filePath.trim(), 'utf-8'));
+}
+
+async function signPsbtFile(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+
+  if (!wallet.privateKey) {
+    console.log(chalk.red('[ERROR] Watch-only wallets cannot sign'));
+    return;
+  }
+
+  const filePath = await question(rl, 'PSBT file to sign: ');
+
+  try {
+    const psbt = readPsbtFile(filePath);
+
+    console.log(chalk.cyan('\n[PSBT] Transaction to sign:'));
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  Inputs:   ') + psbt.inputs.length);
+    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(displayAmount(getPsbtFee(psbt)) + ' TETSUO'));
+    console.log('─'.repeat(60));
+
+    const confirm = await question(rl, chalk.cyan('\nSign with ' + wallet.name + '? (yes/no): '));
+    if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+      console.log(chalk.yellow('[CANCEL] Signing cancelled'));
+      return;
+    }
+
+    const signed = await signPsbt(psbt, wallet.privateKey);
+    await writePsbtFile(rl, signed, path.basename(filePath.trim()).replace(/(\.psbt)?$/, '.signed.psbt'));
+  } catch (error: any) {
+    console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+  }
+}
+
+async function broadcastPsbtFile(rl: readline.Interface): Promise<void> {
+  const input = await question(rl, 'Signed PSBT file(s), comma separated: ');
+  const files = input.split(',').map(f => f.trim()).filter(Boolean);
+
+  if (files.length === 0) {
+    console.log(chalk.red('[ERROR] No PSBT files given'));
+    return;
+  }
+
+  try {
+    const psbt = finalizePsbt(combinePsbts(files.map(readPsbtFile)));
+    const txHex = extractTransaction(psbt);
+    const fee = getPsbtFee(psbt);
+
+    // Co-signers' signatures are untrusted input; check them like our own
+    const verification = verifyTransaction(txHex, getPsbtUtxos(psbt), { network: NETWORK });
+    if (!verification.valid) {
+      printVerificationErrors(verification);
+      return;
+    }
+
+    console.log(chalk.cyan('\n[PSBT] Finalized Transaction:'));
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  Inputs:   ') + psbt.inputs.length);
+    console.log(chalk.yellow('  Fee:      ') + chalk.yellow(displayAmount(fee) + ' TETSUO'));
+    console.log(chalk.yellow('  Size:     ') + `${txHex.length / 2} bytes`);
+    console.log('─'.repeat(60));
+
+    const confirm = await question(rl, chalk.cyan('\nBroadcast transaction? (yes/no): '));
+    if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+      console.log(chalk.yellow('[CANCEL] Broadcast cancelled'));
+      return;
+    }
+
+    const rpc = getRPCClient();
+    const txid = await rpc.broadcastTransaction(txHex);
+
+    console.log(chalk.green('\n[OK] Transaction sent successfully!'));
+    console.log(chalk.yellow('  TXID:     ') + chalk.green(txid));
+    printTransactionLink(txid);
+  } catch (error: any) {
+    console.log(chalk.red(`[ERROR] Error: ${error.message}`));
+  }
+}
+
+// Prove ownership of the selected wallet's address by signing a message
+async function signWalletMessage(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+  if (!wallet.privateKey) {
+    console.log(chalk.red('[ERROR] Watch-only and multisig wallets cannot sign messages'));
+    return;
+  }
+
+  const message = await question(rl, 'Message to sign: ');
+
+  try {
+    const signature = await signMessage(wallet.privateKey, message, wallet.address, NETWORK);
+
+    console.log(chalk.cyan('\n[SIGNED] Message Signature:'));
+    console.log('─'.repeat(60));
+    console.log(chalk.yellow('  Address:   ') + wallet.address);
+    console.log(chalk.yellow('  Message:   ') + message);
+    console.log(chalk.yellow('  Signature: ') + chalk.green(signature));
+    console.log('─'.repeat(60));
+
+    // The legacy address does not commit to the key that signed
+    if (generateAddress(derivePublicKey(wallet.privateKey), NETWORK) !== wallet.address) {
+      console.log(chalk.yellow('[WARNING] Legacy address: only verifiers that hold this wallet can check the signature'));
+    }
+  } catch (error: any) {
+    console.log(chalk.red('[ERROR] ' + error.message));
+  }
+}
+
+// Check a signature made with /sign-message (or any TETSUO message signer)
+async function verifySignedMessage(rl: readline.Interface): Promise<void> {
+  const address = (await question(rl, 'Address: ')).trim();
+  if (!isValidAddress(address, NETWORK)) {
+    console.log(chalk.red('[ERROR] Invalid address' + wrongNetworkHint(address)));
+    return;
+  }
+
+  const message = await question(rl, 'Message: ');
+  const signature = (await question(rl, 'Signature (base64): ')).trim();
+
+  // A legacy address can only be checked against the signing key in our own wallet file
+  const stored = loadWallets().wallets.find(w => w.address === address && w.privateKey);
+  const signingPublicKey = stored?.privateKey && generateAddress(derivePublicKey(stored.privateKey), NETWORK) !== address
+    ? derivePublicKey(stored.privateKey)
+    : undefined;
+
+  if (verifyMessage(address, message, signature, NETWORK, { signingPublicKey })) {
+    console.log(chalk.green('[OK] Signature is valid - the message was signed by ' + address));
   } else {
+    console.log(chalk.red('[ERROR] Signature is NOT valid for this address and message'));
+  }
+}
+
+async function walletData(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+
+  console.log(chalk.cyan('\n[INFO] Wallet Data:'));
+  console.log('─'.repeat(80));
+  console.log(`Name:       ${chalk.yellow(wallet.name)}`);
+  console.log(`Address:    ${chalk.green(wallet.address)}`);
+  if (wallet.publicKey) {
+    console.log(`Public Key: ${chalk.blue(wallet.publicKey)}`);
+  }
+  if (wallet.extendedPublicKey) {
+    console.log(`XPUB:       ${chalk.blue(wallet.extendedPublicKey)}`);
+  }
+  if (wallet.redeemScript) {
+    const { requiredSignatures, publicKeys } = decodeMultisigScript(wallet.redeemScript);
+    console.log(`Type:       ${chalk.gray(`${requiredSignatures}-of-${publicKeys.length} multisig`)}`);
+    console.log(`Redeem:     ${chalk.blue(wallet.redeemScript)}`);
+  } else if (wallet.watchOnly) {
+    console.log(`Type:       ${chalk.gray('Watch-only')}`);
+  }
+  if (wallet.derivationPath) {
+    console.log(`Path:       ${chalk.blue(wallet.derivationPath)}`);
+  }
+  if (wallet.hasPassphrase) {
+    console.log(`Passphrase: ${chalk.gray('yes (not stored)')}`);
+  }
+  console.log(`Created:    ${new Date(wallet.createdAt).toLocaleString()}`);
+  if (wallet.mnemonic) {
+    console.log(chalk.yellow('\nMnemonic (keep safe):'));
+    console.log(chalk.red(wallet.mnemonic));
+  }
+  console.log('─'.repeat(80));
+
+  if (!wallet.privateKey) return;
+
+  const format = (await question(rl, 'Export private key? (no/wif/hex, default no): ')).trim().toLowerCase();
+  if (format === 'wif' || format === 'hex') {
+    console.log(chalk.yellow('\nPrivate key (keep safe):'));
+    console.log(chalk.red(format === 'wif' ? encodeWIF(wallet.privateKey, true, NETWORK) : wallet.privateKey));
+
+    // Other tools derive the secp256k1 address from the key, not the legacy HMAC one
+    if (generateAddress(derivePublicKey(wallet.privateKey), NETWORK) !== wallet.address) {
+      console.log(chalk.yellow('[WARNING] This wallet uses legacy key derivation; other tools will show a different address for this key'));
+    }
+  }
+}
+
+async function deleteWallet(rl: readline.Interface): Promise<void> {
+  const store = loadWallets();
+  const wallet = store.wallets.find(w => w.name === store.selectedWallet);
+
+  if (!wallet) {
+    console.log(chalk.red('[ERROR] No wallet selected'));
+    return;
+  }
+
+  const confirm = await question(rl, `Delete ${wallet.name}? (yes/no): `);
+  if (confirm.toLowerCase() !== 'yes') {
+    console.log(chalk.yellow('Cancelled'));
+    return;
+  }
+
+  store.wallets = store.wallets.filter(w => w.name !== wallet.name);
+  if (store.selectedWallet === wallet.name) {
+    store.selectedWallet = store.wallets[0]?.name;
+  }
+
+  saveWallets(store);
+  console.log(chalk.green('[OK] Wallet deleted'));
+}
+
+async function configureRPC(rl: readline.Interface): Promise<void> {
+  const config = loadConfig();
+
+  console.log(chalk.cyan('\n[CONFIG]  RPC Configuration:'));
+  console.log(`Current RPC URL: ${chalk.green(RPC_URL)}`);
+  console.log(`Fallback URLs:   ${FALLBACK_URLS.length > 0 ? chalk.green(FALLBACK_URLS.join(', ')) : chalk.gray('none')}`);
+
+  const newUrl = (await question(rl, 'Enter new RPC URL (or press Enter to keep current): ')).trim();
+  const fallbacks = (await question(rl, 'Fallback RPC URLs, comma-separated ("none" to clear, Enter to keep): ')).trim();
+
+  if (!newUrl && !fallbacks) {
     console.log(chalk.yellow('No changes made'));
+    return;
+  }
+
+  if (newUrl) {
+    RPC_URL = newUrl;
+  }
+  if (fallbacks) {
+    FALLBACK_URLS = fallbacks.toLowerCase() === 'none' ? [] : fallbacks.split(',').map(url => url.trim()).filter(Boolean);
+  }
+  saveConfig({ ...config, rpcUrl: RPC_URL, fallbackUrls: FALLBACK_URLS });
+  console.log(chalk.green('[OK] RPC configuration updated!'));
+  console.log(`RPC URL:       ${chalk.green(RPC_URL)}`);
+  console.log(`Fallback URLs: ${FALLBACK_URLS.length > 0 ? chalk.green(FALLBACK_URLS.join(', ')) : chalk.gray('none')}`);
+}
+
+// Switch network profile; each network keeps its own wallet file and RPC URL
+async function switchNetwork(rl: readline.Interface, name?: string): Promise<void> {
+  console.log(chalk.cyan('\n[NETWORK] Network Configuration:'));
+  console.log(`Current network: ${chalk.green(NETWORK.name)} (${RPC_URL})`);
+
+  const input = name ?? (await question(rl, `Switch to (${Object.keys(NETWORKS).join('/')}, or press Enter to keep current): `)).trim();
+  if (!input) {
+    console.log(chalk.yellow('No changes made'));
+    return;
+  }
+
+  let network: Network;
+  try {
+    network = getNetwork(input);
+  } catch (error: any) {
+    console.log(chalk.red('[ERROR] ' + error.message));
+    return;
+  }
+  if (network === NETWORK) {
+    console.log(chalk.yellow(`Already on ${network.name}`));
+    return;
+  }
+
+  const previous = {
+    network: NETWORK,
+    walletFile: WALLET_FILE,
+    rpcUrl: RPC_URL,
+    fallbackUrls: FALLBACK_URLS,
+    password: sessionPassword
+  };
+  NETWORK = network;
+  WALLET_FILE = getWalletFile(network);
+  RPC_URL = network.rpcUrl;
+  FALLBACK_URLS = [];
+  if (!fs.existsSync(WALLET_FILE)) {
+    fs.writeFileSync(WALLET_FILE, JSON.stringify({ wallets: [] }, null, 2));
+  }
+
+  // The other network's wallet file has its own password
+  sessionPassword = null;
+  if (isWalletEncrypted() && !(await unlockWallet(rl))) {
+    NETWORK = previous.network;
+    WALLET_FILE = previous.walletFile;
+    RPC_URL = previous.rpcUrl;
+    FALLBACK_URLS = previous.fallbackUrls;
+    sessionPassword = previous.password;
+    console.log(chalk.yellow(`Staying on ${NETWORK.name}`));
+    return;
+  }
+
+  saveConfig({ ...loadConfig(), rpcUrl: RPC_URL, network: network.name, fallbackUrls: FALLBACK_URLS });
+  console.log(chalk.green(`[OK] Switched to ${network.name}`));
+  console.log(`RPC URL: ${chalk.green(RPC_URL)} (change with /config)`);
+  if (network === MAINNET) {
+    console.log(chalk.yellow('[WARNING] Mainnet transactions spend real funds'));
   }
 }
 
@@ -737,7 +1880,7 @@ async function unlockWallet(rl: readline.Interface): Promise<boolean> {
     }
   }
 
-  console.log(chalk.red('\n[ERROR] Too many failed attempts. Exiting.'));
+  console.log(chalk.red('\n[ERROR] Too many failed attempts.'));
   return false;
 }
 
@@ -813,6 +1956,7 @@ async function main() {
     // Wallet is encrypted, need to unlock
     const unlocked = await unlockWallet(rl);
     if (!unlocked) {
+      console.log(chalk.red('Exiting.'));
       rl.close();
       process.exit(1);
     }
@@ -843,25 +1987,40 @@ async function main() {
       ? chalk.green(`[${store.selectedWallet}]`)
       : chalk.red('[No Wallet Selected]');
 
-    console.log(`\n${selected} Commands:`);
+    const network = NETWORK === MAINNET ? '' : chalk.magenta(`[${NETWORK.name.toUpperCase()}] `);
+
+    console.log(`\n${network}${selected} Commands:`);
     console.log('/create-wallet    - Create new wallet');
-    console.log('/import-wallet    - Import from mnemonic or private key');
+    console.log('/import-wallet    - Import from mnemonic, private key or watch-only');
+    console.log('/create-multisig  - Create m-of-n multisig wallet');
     console.log('/list-wallets     - Show all wallets');
     console.log('/select-wallet    - Select active wallet');
     console.log('/balance          - Check balance');
     console.log('/transactions     - View transaction history');
     console.log('/receive          - Show receive address');
-    console.log('/send             - Send tokens');
+    console.log('/send             - Send tokens (--memo to attach OP_RETURN data)');
+    console.log('/send-batch       - Pay many recipients from a CSV file');
+    console.log('/sweep            - Move all funds from a private key into this wallet');
+    console.log('/bump-fee         - Speed up an unconfirmed transaction (RBF/CPFP)');
+    console.log('/psbt-export      - Build unsigned transaction (PSBT) file');
+    console.log('/psbt-sign        - Sign a PSBT file offline');
+    console.log('/psbt-broadcast   - Finalize and broadcast PSBT file(s)');
+    console.log('/sign-message     - Sign a message to prove address ownership');
+    console.log('/verify-message   - Verify a signed message');
+    console.log('/discover         - Scan HD addresses for funds');
     console.log('/wallet-data      - View wallet details');
+    console.log('/backup-shares    - Split the mnemonic into k-of-n backup shares');
+    console.log('/restore-shares   - Restore a wallet from backup shares');
     console.log('/delete-wallet    - Delete wallet');
-    console.log('/config           - Configure RPC URL');
+    console.log('/config           - Configure RPC URL and fallbacks');
+    console.log('/network          - Switch network (mainnet, or regtest for testing)');
     console.log('/set-password     - Enable wallet encryption');
     console.log('/change-password  - Change encryption password');
     console.log('/price            - Show TETSUO price (Solana)');
     console.log('/exit             - Exit CLI\n');
 
     const input = await question(rl, 'Command: ');
-    const command = input.toLowerCase().trim();
+    const [command = '', ...args] = input.toLowerCase().trim().split(/\s+/);
 
     switch (command) {
       case '/create-wallet':
@@ -870,6 +2029,9 @@ async function main() {
       case '/import-wallet':
         await importWallet(rl);
         break;
+      case '/create-multisig':
+        await createMultisigWallet(rl);
+        break;
       case '/list-wallets':
         await listWallets();
         break;
@@ -886,10 +2048,43 @@ async function main() {
         await receiveTokens();
         break;
       case '/send':
-        await sendTokens(rl);
+        await sendTokens(rl, false, args.includes('--memo'));
+        break;
+      case '/send-batch':
+        await sendBatch(rl);
+        break;
+      case '/sweep':
+        await sweepPrivateKey(rl);
+        break;
+      case '/bump-fee':
+        await bumpTransactionFee(rl);
+        break;
+      case '/psbt-export':
+        await sendTokens(rl, true, args.includes('--memo'));
+        break;
+      case '/psbt-sign':
+        await signPsbtFile(rl);
+        break;
+      case '/psbt-broadcast':
+        await broadcastPsbtFile(rl);
+        break;
+      case '/sign-message':
+        await signWalletMessage(rl);
+        break;
+      case '/verify-message':
+        await verifySignedMessage(rl);
+        break;
+      case '/discover':
+        await discoverAddresses(rl);
         break;
       case '/wallet-data':
-        await walletData();
+        await walletData(rl);
+        break;
+      case '/backup-shares':
+        await backupShares(rl);
+        break;
+      case '/restore-shares':
+        await restoreShares(rl);
         break;
       case '/delete-wallet':
         await deleteWallet(rl);
@@ -897,6 +2092,9 @@ async function main() {
       case '/config':
         await configureRPC(rl);
         break;
+      case '/network':
+        await switchNetwork(rl, args[0]);
+        break;
       case '/set-password':
         if (sessionPassword) {
           console.log(chalk.yellow('Wallet is already encrypted. Use /change-password to change it.'));
@@ -0,0 +1,220 @@
+/**
+ * TETSUO Wallet SDK - Coin Selection Strategies
+ */
+
+import { sumAmounts } from './amount';
+import {
+  Amount,
+  CoinSelectionOptions,
+  CoinSelectionResult,
+  CoinSelectionStrategy,
+  CoinSelector,
+  InsufficientFundsError,
+  UTXO,
+  WalletError
+} from './types';
+
+/** Change outputs below this value (satoshis) are dropped into the fee */
+export const DUST_THRESHOLD: Amount = 546n;
+
+/** Strategy used when the caller does not pick one */
+export const DEFAULT_COIN_SELECTION: CoinSelectionStrategy = 'oldest-first';
+
+// Upper bound on branch-and-bound search steps
+const BNB_MAX_TRIES = 100_000;
+
+/**
+ * Largest UTXOs first: fewest inputs, smallest transaction
+ */
+export const largestFirst: CoinSelector = (utxos, amount, options) => {
+  const sorted = [...utxos].sort((a, b) => compareValues(b, a) || compareOutpoints(a, b));
+  return accumulate(sorted, amount, options);
+};
+
+/**
+ * Most-confirmed UTXOs first
+ */
+export const oldestFirst: CoinSelector = (utxos, amount, options) => {
+  const sorted = [...utxos].sort((a, b) =>
+    b.confirmations - a.confirmations || compareValues(b, a) || compareOutpoints(a, b)
+  );
+  return accumulate(sorted, amount, options);
+};
+
+/**
+ * Spend every UTXO, merging them into one output plus change
+ */
+export const consolidate: CoinSelector = (utxos, amount, options) => {
+  const sorted = [...utxos].sort((a, b) => compareValues(a, b) || compareOutpoints(a, b));
+  return finalizeSelection(sorted, amount, options);
+};
+
+/**
+ * Privacy-oriented: avoid linking UTXOs together. Spends the smallest single
+ * UTXO that covers the payment; only combines UTXOs when no single one is
+ * enough, and then uses as few as possible.
+ */
+export const privacy: CoinSelector = (utxos, amount, options) => {
+  const single = [...utxos]
+    .sort((a, b) => compareValues(a, b) || compareOutpoints(a, b))
+    .find(utxo => utxo.value >= amount + options.calculateFee([utxo], false));
+
+  if (single) {
+    return finalizeSelection([single], amount, options);
+  }
+
+  return largestFirst(utxos, amount, options);
+};
+
+/**
+ * Branch and bound: search for an input set whose value matches the payment
+ * plus fee closely enough that no change output is needed. Falls back to
+ * largest-first when no changeless match exists.
+ */
+export const branchAndBound: CoinSelector = (utxos, amount, options) => {
+  const dustThreshold = options.dustThreshold ?? DUST_THRESHOLD;
+  const sorted = [...utxos].sort((a, b) => compareValues(b, a) || compareOutpoints(a, b));
+
+  // Remaining value available from index i onwards
+  const remaining: Amount[] = new Array(sorted.length + 1).fill(0n);
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    remaining[i] = remaining[i + 1] + sorted[i].value;
+  }
+
+  let best: UTXO[] | undefined;
+  let bestWaste: Amount | undefined;
+  let tries = 0;
+  const selected: UTXO[] = [];
+
+  const search = (index: number, total: Amount): void => {
+    if (++tries > BNB_MAX_TRIES) {
+      return;
+    }
+
+    const feeWithout = options.calculateFee(selected, false);
+    const target = amount + feeWithout;
+    // Costs of creating and later spending a change output
+    const costOfChange = options.calculateFee(selected, true) - feeWithout + dustThreshold;
+
+    if (total > target + costOfChange) {
+      return;
+    }
+
+    if (selected.length > 0 && total >= target) {
+      const waste = total - target;
+      if (bestWaste === undefined || waste < bestWaste || (waste === bestWaste && selected.length < best!.length)) {
+        best = [...selected];
+        bestWaste = waste;
+      }
+      if (waste === 0n) {
+        tries = BNB_MAX_TRIES;
+      }
+      return;
+    }
+
+    if (index >= sorted.length || total + remaining[index] < target) {
+      return;
+    }
+
+    selected.push(sorted[index]);
+    search(index + 1, total + sorted[index].value);
+    selected.pop();
+
+    search(index + 1, total);
+  };
+
+  search(0, 0n);
+
+  if (best) {
+    const total = sumAmounts(best.map(utxo => utxo.value));
+    return { inputs: best, fee: total - amount, change: 0n };
+  }
+
+  return largestFirst(utxos, amount, options);
+};
+
+/**
+ * Built-in strategies by name
+ */
+export const COIN_SELECTION_STRATEGIES: Record<CoinSelectionStrategy, CoinSelector> = {
+  'branch-and-bound': branchAndBound,
+  'largest-first': largestFirst,
+  'oldest-first': oldestFirst,
+  'privacy': privacy,
+  'consolidate': consolidate
+};
+
+/**
+ * Select UTXOs for a payment using a named strategy or a custom selector
+ */
+export function selectCoins(
+  utxos: UTXO[],
+  amount: Amount,
+  options: CoinSelectionOptions & { strategy?: CoinSelectionStrategy | CoinSelector }
+): CoinSelectionResult {
+  const strategy = options.strategy ?? DEFAULT_COIN_SELECTION;
+  const selector = typeof strategy === 'function' ? strategy : COIN_SELECTION_STRATEGIES[strategy];
+
+  if (!selector) {
+    throw new WalletError(`Unknown coin selection strategy: ${strategy}`);
+  }
+
+  return selector(utxos, amount, options);
+}
+
+/**
+ * Check whether a string names a built-in strategy
+ */
+export function isCoinSelectionStrategy(name: string): name is CoinSelectionStrategy {
+  return Object.prototype.hasOwnProperty.call(COIN_SELECTION_STRATEGIES, name);
+}
+
+/**
+ * Add UTXOs in order until the payment and fee are covered
+ */
+function accumulate(sorted: UTXO[], amount: Amount, options: CoinSelectionOptions): CoinSelectionResult {
+  const selected: UTXO[] = [];
+  let total = 0n;
+
+  for (const utxo of sorted) {
+    selected.push(utxo);
+    total += utxo.value;
+
+    if (total >= amount + options.calculateFee(selected, false)) {
+      return finalizeSelection(selected, amount, options);
+    }
+  }
+
+  return finalizeSelection(selected, amount, options);
+}
+
+/**
+ * Work out fee and change for a chosen input set. Change below the dust
+ * threshold is left to the fee.
+ */
+export function finalizeSelection(selected: UTXO[], amount: Amount, options: CoinSelectionOptions): CoinSelectionResult {
+  const dustThreshold = options.dustThreshold ?? DUST_THRESHOLD;
+  const total = sumAmounts(selected.map(utxo => utxo.value));
+
+  const feeWithChange = options.calculateFee(selected, true);
+  const change = total - amount - feeWithChange;
+  if (change >= dustThreshold) {
+    return { inputs: selected, fee: feeWithChange, change };
+  }
+
+  const feeWithoutChange = options.calculateFee(selected, false);
+  if (total < amount + feeWithoutChange) {
+    throw new InsufficientFundsError(amount + feeWithoutChange, total);
+  }
+
+  return { inputs: selected, fee: total - amount, change: 0n };
+}
+
+// Sort comparator for bigint values (a - b does not give a number)
+function compareValues(a: UTXO, b: UTXO): number {
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
+
+function compareOutpoints(a: UTXO, b: UTXO): number {
+  return a.txid.localeCompare(b.txid) || a.vout - b.vout;
+}
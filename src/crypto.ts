@@ -141,3 +141,48 @@ export function base58checkDecode(encoded: string): Buffer {
 
   return payload;
 }
+
+/**
+ * Encode a Bitcoin-style variable length integer
+ */
+export function writeVarInt(value: number): Buffer {
+  if (value < 0xfd) {
+    return Buffer.from([value]);
+  }
+  if (value <= 0xffff) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = 0xfd;
+    buffer.writeUInt16LE(value, 1);
+    return buffer;
+  }
+  if (value <= 0xffffffff) {
+    const buffer = Buffer.alloc(5);
+    buffer[0] = 0xfe;
+    buffer.writeUInt32LE(value, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(9);
+  buffer[0] = 0xff;
+  buffer.writeBigUInt64LE(BigInt(value), 1);
+  return buffer;
+}
+
+/**
+ * Decode a variable length integer, returning its value and encoded size
+ */
+export function readVarInt(buffer: Buffer, offset: number = 0): { value: number; size: number } {
+  const first = buffer[offset];
+  if (first === undefined) {
+    throw new Error('Unexpected end of data reading varint');
+  }
+  if (first < 0xfd) {
+    return { value: first, size: 1 };
+  }
+  if (first === 0xfd) {
+    return { value: buffer.readUInt16LE(offset + 1), size: 3 };
+  }
+  if (first === 0xfe) {
+    return { value: buffer.readUInt32LE(offset + 1), size: 5 };
+  }
+  return { value: Number(buffer.readBigUInt64LE(offset + 1)), size: 9 };
+}
@@ -0,0 +1,141 @@
+/**
+ * TETSUO Wallet SDK - Account Discovery (BIP44 gap limit scanning)
+ */
+
+import { generateAddress } from './address';
+import { deriveChild, derivePath, getAccountPath, toExtendedKey } from './hd';
+import { mnemonicToMasterNode } from './wallet';
+import { TetsuoRPC } from './rpc';
+import { sumAmounts } from './amount';
+import { MAINNET } from './network';
+import { DiscoveredAccount, DiscoveredAddress, DiscoveryOptions, HDNode, Network, WalletError } from './types';
+
+/** Number of consecutive unused addresses that ends a chain scan (BIP44 default) */
+export const DEFAULT_GAP_LIMIT = 20;
+
+/** External (receive) and internal (change) chain indexes */
+export const RECEIVE_CHAIN = 0;
+export const CHANGE_CHAIN = 1;
+
+/** RPC methods discovery relies on */
+export type DiscoveryRPC = Pick<TetsuoRPC, 'getTransactionHistory' | 'getUTXOs'>;
+
+/**
+ * Restore a BIP44 account from a mnemonic (and BIP39 passphrase, if any) by
+ * scanning its receive and change chains for addresses with history
+ */
+export async function discoverAccount(
+  mnemonic: string,
+  rpc: DiscoveryRPC,
+  options: DiscoveryOptions & { accountIndex?: number; passphrase?: string } = {}
+): Promise<DiscoveredAccount> {
+  const accountPath = options.accountPath || getAccountPath(options.accountIndex ?? 0);
+  const master = await mnemonicToMasterNode(mnemonic, options.passphrase);
+  const accountNode = derivePath(master, accountPath);
+
+  return scanAccount(accountNode, rpc, { ...options, accountPath });
+}
+
+/**
+ * Scan an account-level node (private or public) for used addresses.
+ * Each chain stops after `gapLimit` consecutive addresses with no
+ * transactions and no UTXOs.
+ */
+export async function scanAccount(
+  accountNode: HDNode,
+  rpc: DiscoveryRPC,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveredAccount> {
+  const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new WalletError('Gap limit must be a positive integer');
+  }
+
+  const accountPath = options.accountPath || 'm';
+
+  const receive = await scanChain(accountNode, RECEIVE_CHAIN, accountPath, gapLimit, rpc, options.network);
+  const change = await scanChain(accountNode, CHANGE_CHAIN, accountPath, gapLimit, rpc, options.network);
+
+  const used = [...receive, ...change];
+
+  return {
+    accountPath,
+    extendedPublicKey: toExtendedKey(accountNode, { publicOnly: true, network: options.network }),
+    receive,
+    change,
+    nextReceiveIndex: nextUnusedIndex(receive),
+    nextChangeIndex: nextUnusedIndex(change),
+    balance: sumAmounts(used.map(entry => entry.balance))
+  };
+}
+
+/**
+ * Derive the address at chain/index below an account node
+ */
+export function deriveAccountAddress(
+  accountNode: HDNode,
+  chain: number,
+  index: number,
+  accountPath: string = 'm',
+  network: Network = MAINNET
+): Omit<DiscoveredAddress, 'balance' | 'transactionCount'> {
+  const node = deriveChild(deriveChild(accountNode, chain), index);
+
+  return {
+    address: generateAddress(node.publicKey, network),
+    publicKey: node.publicKey,
+    privateKey: node.privateKey,
+    path: `${accountPath}/${chain}/${index}`,
+    chain,
+    index
+  };
+}
+
+/**
+ * Walk one chain until the gap limit is reached
+ */
+async function scanChain(
+  accountNode: HDNode,
+  chain: number,
+  accountPath: string,
+  gapLimit: number,
+  rpc: DiscoveryRPC,
+  network: Network = MAINNET
+): Promise<DiscoveredAddress[]> {
+  const chainNode = deriveChild(accountNode, chain);
+  const used: DiscoveredAddress[] = [];
+  let unusedRun = 0;
+
+  for (let index = 0; unusedRun < gapLimit; index++) {
+    const node = deriveChild(chainNode, index);
+    const address = generateAddress(node.publicKey, network);
+
+    const [history, utxos] = await Promise.all([
+      rpc.getTransactionHistory(address),
+      rpc.getUTXOs(address)
+    ]);
+
+    if (history.length === 0 && utxos.length === 0) {
+      unusedRun++;
+      continue;
+    }
+
+    unusedRun = 0;
+    used.push({
+      address,
+      publicKey: node.publicKey,
+      privateKey: node.privateKey,
+      path: `${accountPath}/${chain}/${index}`,
+      chain,
+      index,
+      balance: sumAmounts(utxos.map(utxo => utxo.value)),
+      transactionCount: history.length
+    });
+  }
+
+  return used;
+}
+
+function nextUnusedIndex(used: DiscoveredAddress[]): number {
+  return used.length > 0 ? used[used.length - 1].index + 1 : 0;
+}
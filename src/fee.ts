@@ -0,0 +1,161 @@
+/**
+ * TETSUO Wallet SDK - Fee Rates & Transaction Size
+ */
+
+import { writeVarInt } from './crypto';
+import { createDataScript, decodeMultisigScript, decodeTimelockScript, getScriptType, pushData } from './script';
+import { MAINNET } from './network';
+import { Amount, FeePriority, Network, WalletError } from './types';
+
+/** Lowest fee rate (satoshis per byte) accepted for a mainnet transaction */
+export const MIN_FEE_RATE = MAINNET.minFeeRate;
+
+/** Priority presets in satoshis per byte */
+export const FEE_RATE_PRESETS: Record<FeePriority, number> = {
+  low: 300,
+  normal: 700,
+  high: 1500
+};
+
+/** Highest fee rate accepted before broadcasting, to catch fee mistakes */
+export const MAX_FEE_RATE = 10 * FEE_RATE_PRESETS.high;
+
+/** Fee rate used when neither the caller nor the node provides one */
+export const DEFAULT_FEE_RATE = FEE_RATE_PRESETS.normal;
+
+/** Largest low-S DER signature including the sighash byte */
+export const MAX_SIGNATURE_SIZE = 72;
+
+const COMPRESSED_PUBLIC_KEY_SIZE = 33;
+const P2PKH_SCRIPT_SIZE = 25;
+
+/**
+ * Serialized size of a signed input. P2PKH inputs assume a compressed key;
+ * inputs with a redeem script are sized as P2SH multisig, or as the P2PKH or
+ * multisig script wrapped by a CLTV/CSV template. Signatures are counted at
+ * their maximum length, so the result is exact or at most a byte or two high
+ * per signature.
+ */
+export function estimateInputSize(input: { redeemScript?: string } = {}): number {
+  let scriptSigSize: number;
+
+  if (input.redeemScript) {
+    // Timelock scripts are satisfied like the script they wrap
+    const innerScript = decodeTimelockScript(input.redeemScript)?.innerScript ?? input.redeemScript;
+    const redeemPush = pushData(input.redeemScript).length / 2;
+
+    if (getScriptType(innerScript) === 'p2pkh') {
+      // <sig> <pubkey> <redeemScript>
+      scriptSigSize = 1 + MAX_SIGNATURE_SIZE + 1 + COMPRESSED_PUBLIC_KEY_SIZE + redeemPush;
+    } else {
+      const { requiredSignatures } = decodeMultisigScript(innerScript);
+      // OP_0 <sig>... <redeemScript>
+      scriptSigSize = 1 + requiredSignatures * (1 + MAX_SIGNATURE_SIZE) + redeemPush;
+    }
+  } else {
+    // <sig> <pubkey>
+    scriptSigSize = 1 + MAX_SIGNATURE_SIZE + 1 + COMPRESSED_PUBLIC_KEY_SIZE;
+  }
+
+  // txid + vout + script length + scriptSig + sequence
+  return 32 + 4 + writeVarInt(scriptSigSize).length + scriptSigSize + 4;
+}
+
+/**
+ * Serialized size of an output paying `scriptPubKey`
+ */
+export function estimateOutputSize(scriptPubKey: string): number {
+  const scriptSize = scriptPubKey.length / 2;
+  return 8 + writeVarInt(scriptSize).length + scriptSize;
+}
+
+/**
+ * Serialized size of the signed transaction spending `inputs` to `outputScripts`
+ */
+export function estimateSignedTransactionSize(
+  inputs: Array<{ redeemScript?: string }>,
+  outputScripts: string[]
+): number {
+  return 4 +
+    writeVarInt(inputs.length).length +
+    inputs.reduce((sum, input) => sum + estimateInputSize(input), 0) +
+    writeVarInt(outputScripts.length).length +
+    outputScripts.reduce((sum, script) => sum + estimateOutputSize(script), 0) +
+    4;
+}
+
+/**
+ * Serialized size of an OP_RETURN output carrying `dataSize` bytes
+ */
+export function estimateDataOutputSize(dataSize: number): number {
+  return estimateOutputSize(createDataScript('00'.repeat(dataSize)));
+}
+
+/**
+ * Size of a P2PKH-only transaction from input and output counts, plus an
+ * OP_RETURN output when `dataSize` is non-zero
+ */
+export function estimateP2PKHTransactionSize(inputCount: number, outputCount: number, dataSize: number = 0): number {
+  const totalOutputs = outputCount + (dataSize > 0 ? 1 : 0);
+  return 4 +
+    writeVarInt(inputCount).length + inputCount * estimateInputSize() +
+    writeVarInt(totalOutputs).length + outputCount * (8 + 1 + P2PKH_SCRIPT_SIZE) +
+    (dataSize > 0 ? estimateDataOutputSize(dataSize) : 0) +
+    4;
+}
+
+/**
+ * Fee in satoshis for `size` bytes at `feeRate` satoshis per byte
+ */
+export function calculateFee(size: number, feeRate: number): Amount {
+  return BigInt(Math.ceil(size * feeRate));
+}
+
+/**
+ * Size in bytes of a serialized transaction
+ */
+export function getTransactionSize(txHex: string): number {
+  return txHex.length / 2;
+}
+
+/**
+ * Effective fee rate (satoshis per byte) a fee pays for a signed transaction
+ */
+export function getTransactionFeeRate(txHex: string, fee: Amount): number {
+  return Number(fee) / getTransactionSize(txHex);
+}
+
+/**
+ * Check whether a string names a fee priority preset
+ */
+export function isFeePriority(value: string): value is FeePriority {
+  return Object.prototype.hasOwnProperty.call(FEE_RATE_PRESETS, value);
+}
+
+/**
+ * Resolve a preset name or explicit sat/byte rate. Falls back to
+ * `defaultRate` (e.g. the node's estimate) when nothing is given. Rates
+ * below the network's fee floor are rejected.
+ */
+export function resolveFeeRate(
+  feeRate: number | FeePriority | undefined,
+  defaultRate: number = DEFAULT_FEE_RATE,
+  network: Network = MAINNET
+): number {
+  if (feeRate === undefined) {
+    return Math.max(defaultRate, network.minFeeRate);
+  }
+
+  if (typeof feeRate === 'string') {
+    if (!isFeePriority(feeRate)) {
+      throw new WalletError(`Unknown fee priority: ${feeRate}`);
+    }
+    return FEE_RATE_PRESETS[feeRate];
+  }
+
+  if (!Number.isFinite(feeRate) || feeRate < network.minFeeRate) {
+    throw new WalletError(`Fee rate must be at least ${network.minFeeRate} sat/byte`);
+  }
+
+  return feeRate;
+}
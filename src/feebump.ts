@@ -0,0 +1,205 @@
+/**
+ * TETSUO Wallet SDK - Fee Bumping (replace-by-fee and child-pays-for-parent)
+ */
+
+import { maxAmount, sumAmounts } from './amount';
+import { DUST_THRESHOLD, finalizeSelection } from './coinselect';
+import { MIN_FEE_RATE, calculateFee, estimateSignedTransactionSize, resolveFeeRate } from './fee';
+import { MAINNET } from './network';
+import { addressToScriptPubKey, getOutputScript } from './script';
+import { SEQUENCE_FINAL, SEQUENCE_RBF } from './timelock';
+import { TetsuoRPC } from './rpc';
+import {
+  Amount,
+  DecodedTransaction,
+  FeeBumpResult,
+  FeePriority,
+  InsufficientFundsError,
+  Network,
+  TransactionInput,
+  TransactionOutput,
+  UTXO,
+  WalletError
+} from './types';
+
+/** RPC methods fee bumping relies on */
+export type FeeBumpRPC = Pick<TetsuoRPC, 'getDecodedTransaction'>;
+
+/** Extra fee rate a mainnet replacement must pay for its own relay (BIP125 rule 4) */
+export const INCREMENTAL_RELAY_FEE_RATE = MIN_FEE_RATE;
+
+/**
+ * Check whether a transaction signals opt-in replace-by-fee
+ */
+export function signalsReplaceByFee(tx: DecodedTransaction): boolean {
+  return tx.inputs.some(input => input.sequence < SEQUENCE_FINAL - 1);
+}
+
+/**
+ * Look up the outputs a transaction spends, in input order
+ */
+export async function getSpentOutputs(tx: DecodedTransaction, rpc: FeeBumpRPC): Promise<UTXO[]> {
+  const spent: UTXO[] = [];
+
+  for (const input of tx.inputs) {
+    const previous = await rpc.getDecodedTransaction(input.txid);
+    const output = previous.outputs[input.vout];
+    if (!output) {
+      throw new WalletError(`Output ${input.txid}:${input.vout} not found`);
+    }
+
+    spent.push({
+      txid: input.txid,
+      vout: input.vout,
+      value: output.value,
+      confirmations: 0,
+      scriptPubKey: output.scriptPubKey
+    });
+  }
+
+  return spent;
+}
+
+/**
+ * Fee paid by a transaction, given the outputs it spends
+ */
+export function getTransactionFee(tx: DecodedTransaction, spentOutputs: UTXO[]): Amount {
+  const totalIn = sumAmounts(spentOutputs.map(utxo => utxo.value));
+  const totalOut = sumAmounts(tx.outputs.map(output => output.value));
+  return totalIn - totalOut;
+}
+
+/**
+ * Rebuild a replace-by-fee transaction with a higher fee. The payments, any
+ * OP_RETURN data and the original inputs are kept; the extra fee comes out of the change output
+ * (the one paying `changeAddress`), and further `utxos` are added only if the
+ * change cannot cover it. Only confirmed `utxos` are added (BIP125 forbids new
+ * unconfirmed inputs), never outputs of the original itself. The relay
+ * increment is the network's fee floor.
+ */
+export function createReplacementTransaction(
+  original: DecodedTransaction,
+  spentOutputs: UTXO[],
+  options: { feeRate: number | FeePriority; changeAddress: string; utxos?: UTXO[]; network?: Network }
+): FeeBumpResult {
+  if (!signalsReplaceByFee(original)) {
+    throw new WalletError('Transaction does not signal replace-by-fee');
+  }
+
+  const network = options.network ?? MAINNET;
+  const feeRate = resolveFeeRate(options.feeRate, undefined, network);
+  const originalFee = getTransactionFee(original, spentOutputs);
+
+  const payments: TransactionOutput[] = original.outputs
+    .filter(output => output.address !== options.changeAddress)
+    .map(output => {
+      if (output.data !== undefined) {
+        return { value: output.value, data: output.data };
+      }
+      if (!output.address) {
+        throw new WalletError('Cannot replace a transaction with non-standard outputs');
+      }
+      return { address: output.address, value: output.value };
+    });
+  const amount = sumAmounts(payments.map(payment => payment.value));
+
+  const paymentScripts = payments.map(payment => getOutputScript(payment, network));
+  const changeScript = addressToScriptPubKey(options.changeAddress, network);
+
+  // Must beat the new rate and pay the original fee plus relay of the replacement
+  const calculateReplacementFee = (selected: UTXO[], hasChange: boolean): Amount => {
+    const size = estimateSignedTransactionSize(selected, hasChange ? [...paymentScripts, changeScript] : paymentScripts);
+    return maxAmount(calculateFee(size, feeRate), originalFee + calculateFee(size, network.minFeeRate));
+  };
+
+  // Original inputs first, then the most confirmed extra UTXOs
+  const spent = new Set(spentOutputs.map(utxo => `${utxo.txid}:${utxo.vout}`));
+  const candidates = (options.utxos || [])
+    .filter(utxo => !spent.has(`${utxo.txid}:${utxo.vout}`) && utxo.txid !== original.txid && utxo.confirmations > 0)
+    .sort((a, b) => b.confirmations - a.confirmations);
+
+  const selected = [...spentOutputs];
+  let total = sumAmounts(selected.map(utxo => utxo.value));
+  while (total < amount + calculateReplacementFee(selected, false) && candidates.length > 0) {
+    const next = candidates.shift()!;
+    selected.push(next);
+    total += next.value;
+  }
+
+  const { fee, change } = finalizeSelection(selected, amount, { calculateFee: calculateReplacementFee });
+
+  // Original inputs keep their sequences (and any relative locks)
+  const inputs: TransactionInput[] = selected.map((utxo, i) => ({
+    txid: utxo.txid,
+    vout: utxo.vout,
+    sequence: i < original.inputs.length ? original.inputs[i].sequence : SEQUENCE_RBF
+  }));
+
+  const outputs = [...payments];
+  if (change > 0n) {
+    outputs.push({ address: options.changeAddress, value: change });
+  }
+
+  return { inputs, outputs, fee, version: original.version, locktime: original.locktime, utxos: selected };
+}
+
+/**
+ * Fetch a transaction by txid and build its replace-by-fee replacement
+ */
+export async function bumpFee(
+  txid: string,
+  rpc: FeeBumpRPC,
+  options: { feeRate: number | FeePriority; changeAddress: string; utxos?: UTXO[]; network?: Network }
+): Promise<FeeBumpResult> {
+  const original = await rpc.getDecodedTransaction(txid);
+  const spentOutputs = await getSpentOutputs(original, rpc);
+
+  return createReplacementTransaction(original, spentOutputs, options);
+}
+
+/**
+ * Child-pays-for-parent: spend our outputs (those paying `address`) of an
+ * unconfirmed parent so that parent and child together pay `feeRate`.
+ */
+export function createChildPaysForParent(
+  parent: DecodedTransaction,
+  parentFee: Amount,
+  options: { address: string; toAddress?: string; feeRate: number | FeePriority; network?: Network }
+): FeeBumpResult {
+  const network = options.network ?? MAINNET;
+  const feeRate = resolveFeeRate(options.feeRate, undefined, network);
+  const toAddress = options.toAddress || options.address;
+
+  const utxos: UTXO[] = parent.outputs
+    .map((output, vout) => ({ output, vout }))
+    .filter(({ output }) => output.address === options.address)
+    .map(({ output, vout }) => ({
+      txid: parent.txid,
+      vout,
+      value: output.value,
+      confirmations: 0,
+      scriptPubKey: output.scriptPubKey
+    }));
+
+  if (utxos.length === 0) {
+    throw new WalletError(`Transaction ${parent.txid} has no output paying ${options.address}`);
+  }
+
+  const childSize = estimateSignedTransactionSize(utxos, [addressToScriptPubKey(toAddress, network)]);
+  const packageFee = calculateFee(parent.size + childSize, feeRate);
+  const fee = maxAmount(packageFee - parentFee, calculateFee(childSize, network.minFeeRate));
+
+  const total = sumAmounts(utxos.map(utxo => utxo.value));
+  if (total - fee < DUST_THRESHOLD) {
+    throw new InsufficientFundsError(fee + DUST_THRESHOLD, total);
+  }
+
+  return {
+    inputs: utxos.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, sequence: SEQUENCE_RBF })),
+    outputs: [{ address: toAddress, value: total - fee }],
+    fee,
+    version: 1,
+    locktime: 0,
+    utxos
+  };
+}
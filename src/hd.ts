@@ -0,0 +1,307 @@
+/**
+ * TETSUO Wallet SDK - BIP32 Hierarchical Deterministic Keys
+ */
+
+import { createHmac } from 'crypto';
+import { hash160, base58check, base58checkDecode, fromHex } from './crypto';
+import { MAINNET } from './network';
+import { HDNode, Network, WalletError } from './types';
+
+const EC = require('elliptic').ec;
+const ec = new EC('secp256k1');
+
+// secp256k1 curve order
+const CURVE_ORDER = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
+
+// Key used for the master HMAC-SHA512 (defined by BIP32)
+const MASTER_SECRET = Buffer.from('Bitcoin seed', 'utf-8');
+
+/** Index offset for hardened child keys */
+export const HARDENED_OFFSET = 0x80000000;
+
+/** Mainnet extended private key version bytes (serializes with a "Tprv" prefix) */
+export const TETSUO_XPRV_VERSION = MAINNET.bip32.private;
+
+/** Mainnet extended public key version bytes (serializes with a "Tpub" prefix) */
+export const TETSUO_XPUB_VERSION = MAINNET.bip32.public;
+
+/** BIP44 coin type used for TETSUO derivation paths */
+export const TETSUO_COIN_TYPE = 1919;
+
+/** Default BIP44 path: first receive address of the first account */
+export const DEFAULT_DERIVATION_PATH = `m/44'/${TETSUO_COIN_TYPE}'/0'/0/0`;
+
+/**
+ * BIP44 account path (m/44'/coin'/account')
+ */
+export function getAccountPath(accountIndex: number = 0): string {
+  return `m/44'/${TETSUO_COIN_TYPE}'/${accountIndex}'`;
+}
+
+/**
+ * Create the master node from a BIP39 seed
+ */
+export function createMasterNode(seed: Buffer): HDNode {
+  if (seed.length < 16 || seed.length > 64) {
+    throw new WalletError('Seed must be between 16 and 64 bytes');
+  }
+
+  const I = createHmac('sha512', MASTER_SECRET).update(seed).digest();
+  const IL = I.slice(0, 32);
+  const IR = I.slice(32);
+
+  const key = BigInt('0x' + IL.toString('hex'));
+  if (key === 0n || key >= CURVE_ORDER) {
+    throw new WalletError('Invalid master key derived from seed');
+  }
+
+  const privateKey = IL.toString('hex');
+
+  return {
+    privateKey,
+    publicKey: publicKeyFromPrivate(privateKey),
+    chainCode: IR.toString('hex'),
+    depth: 0,
+    index: 0,
+    parentFingerprint: 0
+  };
+}
+
+/**
+ * Derive a child node. Indexes >= HARDENED_OFFSET produce hardened children,
+ * which require the parent private key.
+ */
+export function deriveChild(node: HDNode, index: number): HDNode {
+  if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+    throw new WalletError(`Invalid child index: ${index}`);
+  }
+  if (node.depth >= 255) {
+    throw new WalletError('Maximum derivation depth exceeded');
+  }
+
+  const hardened = index >= HARDENED_OFFSET;
+  const indexBuffer = Buffer.alloc(4);
+  indexBuffer.writeUInt32BE(index, 0);
+
+  let data: Buffer;
+  if (hardened) {
+    if (!node.privateKey) {
+      throw new WalletError('Cannot derive a hardened child from a public node');
+    }
+    // 0x00 || ser256(kpar) || ser32(i)
+    data = Buffer.concat([Buffer.alloc(1, 0), fromHex(node.privateKey), indexBuffer]);
+  } else {
+    // serP(Kpar) || ser32(i)
+    data = Buffer.concat([fromHex(node.publicKey), indexBuffer]);
+  }
+
+  const I = createHmac('sha512', fromHex(node.chainCode)).update(data).digest();
+  const IL = I.slice(0, 32);
+  const IR = I.slice(32);
+
+  const tweak = BigInt('0x' + IL.toString('hex'));
+  if (tweak >= CURVE_ORDER) {
+    throw new WalletError(`Invalid child key at index ${index}, use the next index`);
+  }
+
+  const base = {
+    chainCode: IR.toString('hex'),
+    depth: node.depth + 1,
+    index,
+    parentFingerprint: getFingerprint(node)
+  };
+
+  if (node.privateKey) {
+    const childKey = (tweak + BigInt('0x' + node.privateKey)) % CURVE_ORDER;
+    if (childKey === 0n) {
+      throw new WalletError(`Invalid child key at index ${index}, use the next index`);
+    }
+
+    const privateKey = childKey.toString(16).padStart(64, '0');
+    return { ...base, privateKey, publicKey: publicKeyFromPrivate(privateKey) };
+  }
+
+  // Public derivation: Ki = point(IL) + Kpar
+  if (tweak === 0n) {
+    throw new WalletError(`Invalid child key at index ${index}, use the next index`);
+  }
+  const tweakPoint = ec.keyFromPrivate(IL).getPublic();
+  const parentPoint = ec.keyFromPublic(node.publicKey, 'hex').getPublic();
+  const childPoint = tweakPoint.add(parentPoint);
+
+  if (childPoint.isInfinity()) {
+    throw new WalletError(`Invalid child key at index ${index}, use the next index`);
+  }
+
+  return { ...base, publicKey: childPoint.encode('hex', true) };
+}
+
+/**
+ * Derive a node along a path such as "m/44'/1919'/0'/0/0".
+ * Relative paths (without the leading "m") are derived from the given node.
+ */
+export function derivePath(node: HDNode, path: string): HDNode {
+  const trimmed = path.trim();
+  if (/^m(\/|$)/.test(trimmed) && node.depth !== 0) {
+    throw new WalletError('Absolute derivation paths must start from the master node');
+  }
+
+  return parseDerivationPath(trimmed).reduce(deriveChild, node);
+}
+
+/**
+ * Parse a derivation path into child indexes (hardened indexes include the offset)
+ */
+export function parseDerivationPath(path: string): number[] {
+  const segments = path.trim().split('/');
+  if (segments[0] === 'm' || segments[0] === 'M') {
+    segments.shift();
+  }
+
+  return segments
+    .filter(segment => segment !== '')
+    .map(segment => {
+      const match = /^(\d+)(['hH]?)$/.exec(segment);
+      if (!match) {
+        throw new WalletError(`Invalid derivation path segment: ${segment}`);
+      }
+
+      const index = Number(match[1]);
+      if (index >= HARDENED_OFFSET) {
+        throw new WalletError(`Derivation path index out of range: ${segment}`);
+      }
+
+      return match[2] ? index + HARDENED_OFFSET : index;
+    });
+}
+
+/**
+ * Format child indexes as a derivation path string
+ */
+export function formatDerivationPath(indexes: number[]): string {
+  return ['m', ...indexes.map(index =>
+    index >= HARDENED_OFFSET ? `${index - HARDENED_OFFSET}'` : `${index}`
+  )].join('/');
+}
+
+/**
+ * Strip the private key from a node, leaving only public derivation
+ */
+export function neuterNode(node: HDNode): HDNode {
+  const { privateKey, ...publicNode } = node;
+  return publicNode;
+}
+
+/**
+ * Get the node fingerprint (first 4 bytes of HASH160 of the public key)
+ */
+export function getFingerprint(node: HDNode): number {
+  return hash160(fromHex(node.publicKey)).readUInt32BE(0);
+}
+
+/**
+ * Serialize a node as an extended key.
+ * Private nodes serialize as xprv unless `publicOnly` is set. Version bytes
+ * come from `network` (default MAINNET) unless given explicitly.
+ */
+export function toExtendedKey(
+  node: HDNode,
+  options: { publicOnly?: boolean; privateVersion?: number; publicVersion?: number; network?: Network } = {}
+): string {
+  const network = options.network ?? MAINNET;
+  const isPrivate = !!node.privateKey && !options.publicOnly;
+  const version = isPrivate
+    ? options.privateVersion ?? network.bip32.private
+    : options.publicVersion ?? network.bip32.public;
+
+  const buffer = Buffer.alloc(78);
+  buffer.writeUInt32BE(version, 0);
+  buffer.writeUInt8(node.depth, 4);
+  buffer.writeUInt32BE(node.parentFingerprint, 5);
+  buffer.writeUInt32BE(node.index, 9);
+  fromHex(node.chainCode).copy(buffer, 13);
+
+  if (isPrivate) {
+    buffer.writeUInt8(0, 45);
+    fromHex(node.privateKey!).copy(buffer, 46);
+  } else {
+    fromHex(node.publicKey).copy(buffer, 45);
+  }
+
+  return base58check(buffer);
+}
+
+/**
+ * Parse an extended key (xprv or xpub) back into a node
+ */
+export function fromExtendedKey(
+  extendedKey: string,
+  options: { privateVersion?: number; publicVersion?: number; network?: Network } = {}
+): HDNode {
+  let buffer: Buffer;
+  try {
+    buffer = base58checkDecode(extendedKey);
+  } catch (error) {
+    throw new WalletError(`Invalid extended key: ${(error as Error).message}`);
+  }
+
+  if (buffer.length !== 78) {
+    throw new WalletError('Invalid extended key length');
+  }
+
+  const version = buffer.readUInt32BE(0);
+  const network = options.network ?? MAINNET;
+  const privateVersion = options.privateVersion ?? network.bip32.private;
+  const publicVersion = options.publicVersion ?? network.bip32.public;
+
+  if (version !== privateVersion && version !== publicVersion) {
+    throw new WalletError('Unknown extended key version');
+  }
+
+  const depth = buffer.readUInt8(4);
+  const parentFingerprint = buffer.readUInt32BE(5);
+  const index = buffer.readUInt32BE(9);
+  const chainCode = buffer.slice(13, 45).toString('hex');
+  const keyData = buffer.slice(45);
+
+  if (depth === 0 && (parentFingerprint !== 0 || index !== 0)) {
+    throw new WalletError('Invalid extended key: master key with parent data');
+  }
+
+  if (version === privateVersion) {
+    if (keyData[0] !== 0) {
+      throw new WalletError('Invalid extended private key');
+    }
+
+    const privateKey = keyData.slice(1).toString('hex');
+    const key = BigInt('0x' + privateKey);
+    if (key === 0n || key >= CURVE_ORDER) {
+      throw new WalletError('Invalid extended private key');
+    }
+
+    return { privateKey, publicKey: publicKeyFromPrivate(privateKey), chainCode, depth, index, parentFingerprint };
+  }
+
+  if (keyData[0] !== 0x02 && keyData[0] !== 0x03) {
+    throw new WalletError('Invalid extended public key');
+  }
+
+  let isOnCurve = false;
+  try {
+    isOnCurve = ec.keyFromPublic(keyData).validate().result;
+  } catch {
+    // Undecodable point
+  }
+  if (!isOnCurve) {
+    throw new WalletError('Invalid extended public key');
+  }
+
+  return { publicKey: keyData.toString('hex'), chainCode, depth, index, parentFingerprint };
+}
+
+/**
+ * Compressed secp256k1 public key for a private key
+ */
+function publicKeyFromPrivate(privateKeyHex: string): string {
+  return ec.keyFromPrivate(privateKeyHex, 'hex').getPublic(true, 'hex');
+}
@@ -4,21 +4,64 @@
 
 // Type exports
 export {
+  Amount,
+  Network,
   WalletConfig,
+  RPCClientOptions,
+  DerivationScheme,
+  DerivationOptions,
+  MnemonicOptions,
+  MnemonicLanguage,
+  MnemonicError,
+  UnknownMnemonicWord,
+  MnemonicValidation,
+  SecretShare,
   GeneratedWallet,
   ImportedWallet,
+  WatchOnlyWallet,
+  HDNode,
+  DiscoveryOptions,
+  DiscoveredAddress,
+  DiscoveredAccount,
   UTXO,
+  CoinSelectionStrategy,
+  CoinSelectionOptions,
+  CoinSelectionResult,
+  CoinSelector,
+  BuildTransactionOptions,
+  FeePriority,
+  PaymentRecipient,
+  RelativeLock,
+  TransactionData,
+  FeeBumpResult,
   TransactionInput,
   TransactionOutput,
+  DecodedInput,
+  DecodedOutput,
+  DecodedTransaction,
   SignedTransaction,
+  VerifyMessageOptions,
+  VerifyTransactionOptions,
+  InputVerificationError,
+  TransactionVerification,
+  Signer,
+  ExternalSignerOptions,
+  PsbtInput,
+  Psbt,
   TransactionResult,
   Balance,
   Transaction,
   BlockchainInfo,
+  WalletErrorCode,
+  WalletErrorOptions,
+  RPCErrorOptions,
   WalletError,
   InvalidAddressError,
   InsufficientFundsError,
-  RPCError
+  RPCError,
+  SigningError,
+  SerializationError,
+  DecryptionError
 } from './types';
 
 // Crypto exports
@@ -33,40 +76,274 @@ export {
   toBase58,
   fromBase58,
   base58check,
-  base58checkDecode
+  base58checkDecode,
+  writeVarInt,
+  readVarInt
 } from './crypto';
 
 // Address exports
 export {
+  AddressType,
   generateAddress,
+  generateScriptAddress,
+  hash160ToAddress,
+  hash160ToScriptAddress,
+  getAddressType,
   isValidAddress,
   validateAddress,
   addressToHash160,
-  getAddressHash
+  getAddressHash,
+  getAddressNetwork
 } from './address';
 
+// Network exports
+export {
+  MAINNET,
+  TESTNET,
+  REGTEST,
+  NETWORKS,
+  getNetwork,
+  getTransactionUrl
+} from './network';
+
+// Script exports
+export {
+  ScriptType,
+  TimelockScript,
+  MAX_REDEEM_SCRIPT_SIZE,
+  MAX_MULTISIG_KEYS,
+  MAX_DATA_CARRIER_SIZE,
+  createPayToPubKeyHashScript,
+  createPayToScriptHashScript,
+  addressToScriptPubKey,
+  createDataScript,
+  decodeDataScript,
+  getOutputScript,
+  scriptToAddress,
+  getScriptType,
+  createMultisigScript,
+  decodeMultisigScript,
+  getScriptHash,
+  createMultisigScriptSig,
+  createCheckLockTimeVerifyScript,
+  createCheckSequenceVerifyScript,
+  decodeTimelockScript,
+  encodeScriptNumber,
+  pushData
+} from './script';
+
 // Wallet exports
 export {
   generateWallet,
   importFromMnemonic,
   importFromPrivateKey,
+  parsePrivateKey,
   derivePublicKey,
   derivePublicKeyLegacy,
   isValidMnemonic,
-  getSupportedMnemonicLengths
+  mnemonicToMasterNode,
+  resolveDerivationScheme,
+  createWatchOnlyWallet
 } from './wallet';
 
+// Mnemonic exports
+export {
+  MNEMONIC_LANGUAGES,
+  getSupportedMnemonicLengths,
+  getWordlist,
+  normalizeMnemonic,
+  detectMnemonicLanguage,
+  diagnoseMnemonic,
+  suggestWords
+} from './mnemonic';
+
+// Shamir backup exports
+export {
+  MAX_SHARES,
+  splitSecret,
+  combineShares,
+  encodeShare,
+  decodeShare,
+  splitMnemonic,
+  recoverMnemonic
+} from './shamir';
+
+// Verification exports
+export { verifyTransaction } from './verify';
+
+// Signer exports
+export {
+  createPrivateKeySigner,
+  createExternalSigner
+} from './signer';
+
+// Signature exports
+export {
+  signHash,
+  verifySignature,
+  isLowS,
+  normalizeSignature,
+  encodeDERSignature,
+  decodeDERSignature
+} from './signature';
+
+// WIF exports
+export {
+  TETSUO_WIF_VERSION,
+  encodeWIF,
+  decodeWIF,
+  isWIF
+} from './wif';
+
+// Message signing exports
+export {
+  TETSUO_MESSAGE_MAGIC,
+  hashMessage,
+  signMessage,
+  recoverMessagePublicKey,
+  verifyMessage
+} from './message';
+
+// HD key exports
+export {
+  HARDENED_OFFSET,
+  TETSUO_XPRV_VERSION,
+  TETSUO_XPUB_VERSION,
+  TETSUO_COIN_TYPE,
+  DEFAULT_DERIVATION_PATH,
+  getAccountPath,
+  createMasterNode,
+  deriveChild,
+  derivePath,
+  parseDerivationPath,
+  formatDerivationPath,
+  neuterNode,
+  getFingerprint,
+  toExtendedKey,
+  fromExtendedKey
+} from './hd';
+
+// Account discovery exports
+export {
+  DEFAULT_GAP_LIMIT,
+  RECEIVE_CHAIN,
+  CHANGE_CHAIN,
+  DiscoveryRPC,
+  discoverAccount,
+  scanAccount,
+  deriveAccountAddress
+} from './discovery';
+
+// Amount exports
+export {
+  COIN,
+  AMOUNT_DECIMALS,
+  MAX_AMOUNT,
+  parseAmount,
+  formatAmount,
+  amountFromCoins,
+  amountFromSatoshis,
+  sumAmounts,
+  maxAmount
+} from './amount';
+
 // Transaction exports
 export {
   buildTransaction,
+  buildBatchTransaction,
+  buildSweepTransaction,
   createTransactionHex,
   signTransaction,
+  decodeTransaction,
+  encodeTransaction,
+  createSignatureHash,
+  createSignature,
+  createPayToPubKeyHashScriptSig,
   estimateTransactionSize,
   estimateFee
 } from './transaction';
 
+// Fee exports
+export {
+  MIN_FEE_RATE,
+  MAX_FEE_RATE,
+  FEE_RATE_PRESETS,
+  DEFAULT_FEE_RATE,
+  MAX_SIGNATURE_SIZE,
+  estimateInputSize,
+  estimateOutputSize,
+  estimateDataOutputSize,
+  estimateSignedTransactionSize,
+  calculateFee,
+  getTransactionSize,
+  getTransactionFeeRate,
+  isFeePriority,
+  resolveFeeRate
+} from './fee';
+
+// Timelock exports
+export {
+  LOCKTIME_THRESHOLD,
+  SEQUENCE_FINAL,
+  SEQUENCE_RBF,
+  SEQUENCE_ENABLE_LOCKTIME,
+  SEQUENCE_LOCKTIME_DISABLE_FLAG,
+  SEQUENCE_LOCKTIME_TYPE_FLAG,
+  SEQUENCE_LOCKTIME_MASK,
+  SEQUENCE_LOCKTIME_GRANULARITY,
+  encodeRelativeLock,
+  decodeRelativeLock,
+  hasRelativeLock,
+  isTimestampLocktime,
+  checkLockTimeVerify,
+  checkSequenceVerify,
+  validateTimelocks
+} from './timelock';
+
+// Coin selection exports
+export {
+  DUST_THRESHOLD,
+  DEFAULT_COIN_SELECTION,
+  COIN_SELECTION_STRATEGIES,
+  branchAndBound,
+  largestFirst,
+  oldestFirst,
+  privacy,
+  consolidate,
+  selectCoins,
+  finalizeSelection,
+  isCoinSelectionStrategy
+} from './coinselect';
+
+// Fee bumping exports
+export {
+  INCREMENTAL_RELAY_FEE_RATE,
+  FeeBumpRPC,
+  signalsReplaceByFee,
+  getSpentOutputs,
+  getTransactionFee,
+  createReplacementTransaction,
+  bumpFee,
+  createChildPaysForParent
+} from './feebump';
+
+// PSBT exports
+export {
+  SIGHASH_ALL,
+  createPsbt,
+  signPsbt,
+  combinePsbts,
+  finalizePsbt,
+  isPsbtFinalized,
+  extractTransaction,
+  getPsbtFee,
+  getPsbtUtxos,
+  encodePsbt,
+  decodePsbt
+} from './psbt';
+
 // RPC exports
-export { TetsuoRPC, createRPCClient } from './rpc';
+export { TetsuoRPC, createRPCClient, DEFAULT_RPC_URL } from './rpc';
 
 // Version
 export const VERSION = '1.3.3';
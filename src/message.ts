@@ -0,0 +1,144 @@
+/**
+ * TETSUO Wallet SDK - Message Signing (compact recoverable signatures)
+ */
+
+import { doubleSha256, hash160, fromHex, writeVarInt } from './crypto';
+import { getAddressHash, getAddressType, validateAddress } from './address';
+import { derivePublicKeyLegacy } from './wallet';
+import { createPrivateKeySigner } from './signer';
+import { decodeDERSignature, normalizeSignature } from './signature';
+import { MAINNET } from './network';
+import { Network, SerializationError, Signer, SigningError, VerifyMessageOptions } from './types';
+
+const EC = require('elliptic').ec;
+const ec = new EC('secp256k1');
+
+/** Prefix hashed in front of every signed message */
+export const TETSUO_MESSAGE_MAGIC = 'TETSUO Signed Message:\n';
+
+// Header byte of a compact signature: 27 + recovery id, +4 for a compressed key
+const COMPACT_HEADER_BASE = 27;
+const COMPACT_COMPRESSED_FLAG = 4;
+const COMPACT_SIGNATURE_SIZE = 65;
+
+/**
+ * Digest signed for a message: double SHA256 of the varint-prefixed magic and message
+ */
+export function hashMessage(message: string): Buffer {
+  const magic = Buffer.from(TETSUO_MESSAGE_MAGIC, 'utf-8');
+  const body = Buffer.from(message, 'utf-8');
+
+  return doubleSha256(Buffer.concat([writeVarInt(magic.length), magic, writeVarInt(body.length), body]));
+}
+
+/**
+ * Sign a message with a private key or Signer, returning a base64 compact
+ * signature.
+ *
+ * Pass `address` to sign for a specific address. For an address made with
+ * derivePublicKeyLegacy (private keys only), the signature is made with the
+ * key's secp256k1 public key, which the address does not commit to; see
+ * verifyMessage's `signingPublicKey`.
+ */
+export async function signMessage(
+  privateKey: string | Signer,
+  message: string,
+  address?: string,
+  network: Network = MAINNET
+): Promise<string> {
+  const signer = typeof privateKey === 'string' ? createPrivateKeySigner(privateKey) : privateKey;
+  const publicKey = await signer.getPublicKey();
+
+  if (address) {
+    const addressHash = getAddressHash(validateAddress(address, network), network);
+    const paysTo = (key: string) => hash160(fromHex(key)).toString('hex') === addressHash;
+
+    const legacy = typeof privateKey === 'string' && paysTo(derivePublicKeyLegacy(privateKey));
+    if (!paysTo(publicKey) && !legacy) {
+      throw new SigningError('Private key does not match address');
+    }
+  }
+
+  const hash = hashMessage(message);
+  // Compact signatures are always low-S
+  const { r, s: lowS } = decodeDERSignature(normalizeSignature(await signer.signHash(hash)));
+
+  const recoveryId = [0, 1, 2, 3].find(id => {
+    try {
+      return ec.keyFromPublic(ec.recoverPubKey(hash, { r, s: lowS }, id)).getPublic(true, 'hex') === publicKey;
+    } catch {
+      return false;
+    }
+  });
+  if (recoveryId === undefined) {
+    throw new SigningError('Signature does not match the signer public key');
+  }
+
+  return Buffer.concat([
+    Buffer.from([COMPACT_HEADER_BASE + COMPACT_COMPRESSED_FLAG + recoveryId]),
+    fromHex(r),
+    fromHex(lowS)
+  ]).toString('base64');
+}
+
+/**
+ * Recover the compressed public key that produced a compact signature
+ */
+export function recoverMessagePublicKey(message: string, signature: string): string {
+  const bytes = Buffer.from(signature, 'base64');
+  if (bytes.length !== COMPACT_SIGNATURE_SIZE) {
+    throw new SerializationError('Invalid message signature: wrong length');
+  }
+
+  // Only compressed keys are used, so only the compressed headers are accepted
+  const recoveryId = bytes[0] - COMPACT_HEADER_BASE - COMPACT_COMPRESSED_FLAG;
+  if (recoveryId < 0 || recoveryId > 3) {
+    throw new SerializationError('Invalid message signature: bad header byte');
+  }
+
+  try {
+    const point = ec.recoverPubKey(
+      hashMessage(message),
+      { r: bytes.slice(1, 33).toString('hex'), s: bytes.slice(33, 65).toString('hex') },
+      recoveryId
+    );
+    return ec.keyFromPublic(point).getPublic(true, 'hex');
+  } catch (error) {
+    throw new SerializationError(`Invalid message signature: ${(error as Error).message}`, { cause: error });
+  }
+}
+
+/**
+ * Check that `signature` was made over `message` by the key behind `address`.
+ *
+ * A legacy (derivePublicKeyLegacy) address cannot be linked to the key that
+ * signed for it without the private key, and its public key is visible in
+ * every spend. Such signatures only verify against
+ * `options.signingPublicKey`: the address owner's derivePublicKey(privateKey),
+ * taken from a record you trust (such as your own wallet file), never from
+ * the signer.
+ */
+export function verifyMessage(
+  address: string,
+  message: string,
+  signature: string,
+  network: Network = MAINNET,
+  options: VerifyMessageOptions = {}
+): boolean {
+  validateAddress(address, network);
+  if (getAddressType(address, network) !== 'p2pkh') {
+    return false;
+  }
+
+  let publicKey: string;
+  try {
+    publicKey = recoverMessagePublicKey(message, signature);
+  } catch {
+    return false;
+  }
+
+  if (hash160(fromHex(publicKey)).toString('hex') === getAddressHash(address, network)) {
+    return true;
+  }
+  return options.signingPublicKey !== undefined && publicKey === options.signingPublicKey.toLowerCase();
+}
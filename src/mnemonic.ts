@@ -0,0 +1,171 @@
+/**
+ * TETSUO Wallet SDK - BIP39 Wordlists & Mnemonic Diagnostics
+ */
+
+import * as bip39 from 'bip39';
+import { MnemonicLanguage, MnemonicValidation, UnknownMnemonicWord, WalletError } from './types';
+
+/** Supported wordlists; detection prefers earlier languages on a tie */
+export const MNEMONIC_LANGUAGES: MnemonicLanguage[] = [
+  'english',
+  'spanish',
+  'french',
+  'italian',
+  'portuguese',
+  'czech',
+  'japanese',
+  'korean',
+  'chinese_simplified',
+  'chinese_traditional'
+];
+
+const MAX_SUGGESTIONS = 3;
+
+// BIP39 English words are unique in their first four letters
+const UNIQUE_PREFIX_LENGTH = 4;
+
+/**
+ * Get supported mnemonic word count
+ */
+export function getSupportedMnemonicLengths(): number[] {
+  return [12, 15, 18, 21, 24];
+}
+
+/**
+ * BIP39 wordlist for a language
+ */
+export function getWordlist(language: MnemonicLanguage = 'english'): string[] {
+  const wordlist = MNEMONIC_LANGUAGES.includes(language) ? bip39.wordlists[language] : undefined;
+  if (!wordlist) {
+    throw new WalletError(`Unsupported mnemonic language: ${language}`);
+  }
+  return wordlist;
+}
+
+/**
+ * Normalize a mnemonic as typed: NFKD (as BIP39 requires), lowercase, and a
+ * single space between words (ideographic spaces included)
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return (mnemonic || '').normalize('NFKD').toLowerCase().split(/\s+/).filter(Boolean).join(' ');
+}
+
+/**
+ * Guess the wordlist of a mnemonic: the first language it is valid in,
+ * otherwise the one containing the most of its words
+ */
+export function detectMnemonicLanguage(mnemonic: string): MnemonicLanguage | undefined {
+  const normalized = normalizeMnemonic(mnemonic);
+  const words = splitWords(normalized);
+  let best: MnemonicLanguage | undefined;
+  let bestKnown = 0;
+
+  for (const language of MNEMONIC_LANGUAGES) {
+    const wordlist = getWordlist(language);
+    const known = words.filter(word => wordlist.includes(word)).length;
+
+    if (known === words.length && bip39.validateMnemonic(normalized, wordlist)) {
+      return language;
+    }
+    if (known > bestKnown) {
+      best = language;
+      bestKnown = known;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Validate a mnemonic and explain what is wrong with it: words missing from
+ * the wordlist (with suggestions), an unsupported length, or a bad checksum.
+ * The language is detected unless given.
+ */
+export function diagnoseMnemonic(mnemonic: string, language?: MnemonicLanguage): MnemonicValidation {
+  const normalized = normalizeMnemonic(mnemonic);
+  const words = splitWords(normalized);
+  const resolved = language ?? detectMnemonicLanguage(normalized) ?? 'english';
+  const wordlist = getWordlist(resolved);
+
+  const unknownWords: UnknownMnemonicWord[] = [];
+  words.forEach((word, index) => {
+    if (!wordlist.includes(word)) {
+      unknownWords.push({ index, word, suggestions: suggestWords(word, resolved) });
+    }
+  });
+
+  const errors: MnemonicValidation['errors'] = [];
+  if (!getSupportedMnemonicLengths().includes(words.length)) {
+    errors.push('wrong-length');
+  }
+  if (unknownWords.length > 0) {
+    errors.push('unknown-words');
+  }
+  if (errors.length === 0 && !bip39.validateMnemonic(normalized, wordlist)) {
+    errors.push('bad-checksum');
+  }
+
+  return { valid: errors.length === 0, normalized, language: resolved, wordCount: words.length, errors, unknownWords };
+}
+
+/**
+ * Closest wordlist entries to a mistyped word, ignoring accents. Truncated
+ * words of four or more letters match the words they start.
+ */
+export function suggestWords(
+  word: string,
+  language: MnemonicLanguage = 'english',
+  limit: number = MAX_SUGGESTIONS
+): string[] {
+  const target = stripDiacritics(normalizeMnemonic(word));
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+
+  return getWordlist(language)
+    .map(candidate => {
+      const plain = stripDiacritics(candidate);
+      const distance = target.length >= UNIQUE_PREFIX_LENGTH && plain.startsWith(target)
+        ? 0
+        : editDistance(target, plain);
+      return { candidate, distance };
+    })
+    // Single-character words (Chinese) have no meaningful near misses
+    .filter(({ distance }) => distance <= maxDistance && distance < target.length)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+function splitWords(normalized: string): string[] {
+  return normalized ? normalized.split(' ') : [];
+}
+
+function stripDiacritics(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters (optimal string alignment)
+ */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
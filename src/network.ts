@@ -0,0 +1,87 @@
+/**
+ * TETSUO Wallet SDK - Network Profiles
+ *
+ * A Network carries everything that differs between chains: address and key
+ * version bytes, the default RPC endpoint and fee floors. Functions that
+ * encode or validate addresses and keys take an optional network and default
+ * to MAINNET.
+ */
+
+import { Network, WalletError } from './types';
+
+/**
+ * TETSUO mainnet: "T" addresses, "M" script addresses, Tprv/Tpub keys.
+ *
+ * Only the P2PKH version byte (0x41) comes from the chain as deployed; it is
+ * what every earlier release of this SDK used. The P2SH, WIF and BIP32
+ * version bytes are project-defined: no published TETSUO chain parameters
+ * specify them. The WIF byte follows the usual 0x80 + address version
+ * convention, and the BIP32 bytes were picked to serialize as Tprv/Tpub.
+ */
+export const MAINNET: Network = {
+  name: 'mainnet',
+  pubKeyHashVersion: 0x41,
+  scriptHashVersion: 0x32,
+  wifVersion: 0xc1,
+  bip32: { private: 0x022dbb24, public: 0x022dbf5d },
+  rpcUrl: 'https://tetsuoarena.com',
+  explorerUrl: 'https://tetsuoarena.com',
+  minFeeRate: 200
+};
+
+/**
+ * Public test network: Bitcoin testnet version bytes ("m"/"n" addresses, "2"
+ * script addresses, tprv/tpub keys) and the mainnet fee floor, so fees behave
+ * as on mainnet. No public testnet node is published, so the default RPC URL
+ * is a local node; set networkUrl to reach a shared one.
+ */
+export const TESTNET: Network = {
+  name: 'testnet',
+  pubKeyHashVersion: 0x6f,
+  scriptHashVersion: 0xc4,
+  wifVersion: 0xef,
+  bip32: { private: 0x04358394, public: 0x043587cf },
+  rpcUrl: 'http://localhost:8080',
+  minFeeRate: 200
+};
+
+/**
+ * Local regression test network: same version bytes as TESTNET (as in
+ * Bitcoin) with a 1 sat/byte fee floor. Its keys and addresses are rejected on
+ * mainnet.
+ */
+export const REGTEST: Network = {
+  name: 'regtest',
+  pubKeyHashVersion: 0x6f,
+  scriptHashVersion: 0xc4,
+  wifVersion: 0xef,
+  bip32: { private: 0x04358394, public: 0x043587cf },
+  rpcUrl: 'http://localhost:8080',
+  minFeeRate: 1
+};
+
+/** Built-in profiles by name */
+export const NETWORKS: Record<string, Network> = {
+  mainnet: MAINNET,
+  testnet: TESTNET,
+  regtest: REGTEST
+};
+
+/**
+ * Look up a built-in network by name
+ */
+export function getNetwork(name: string): Network {
+  const key = name.trim().toLowerCase();
+  const network = Object.prototype.hasOwnProperty.call(NETWORKS, key) ? NETWORKS[key] : undefined;
+  if (!network) {
+    throw new WalletError(`Unknown network: ${name} (expected ${Object.keys(NETWORKS).join(', ')})`);
+  }
+  return network;
+}
+
+/**
+ * Explorer page for a transaction, if the network has an explorer
+ */
+export function getTransactionUrl(txid: string, network: Network = MAINNET): string | undefined {
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${txid}` : undefined;
+}
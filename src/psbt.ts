@@ -0,0 +1,480 @@
+/**
+ * TETSUO Wallet SDK - Partially Signed Transactions (offline signing)
+ *
+ * Binary layout follows BIP174: magic bytes, a global map holding the
+ * unsigned transaction, then one key-value map per input and per output.
+ * Each input map carries the spent output (value + scriptPubKey) so an
+ * offline signer can compute signature hashes without network access.
+ */
+
+import { hash160, fromHex, readVarInt, writeVarInt } from './crypto';
+import {
+  createSignatureHash,
+  createSignature,
+  createPayToPubKeyHashScriptSig,
+  decodeTransaction,
+  encodeTransaction
+} from './transaction';
+import {
+  createMultisigScriptSig,
+  decodeMultisigScript,
+  decodeTimelockScript,
+  getScriptHash,
+  getScriptType,
+  pushData
+} from './script';
+import { derivePublicKey, derivePublicKeyLegacy } from './wallet';
+import { sumAmounts } from './amount';
+import { Amount, Psbt, PsbtInput, SerializationError, Signer, SigningError, TransactionInput, UTXO, WalletError } from './types';
+
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+
+// Global key types
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+
+// Input key types
+const PSBT_IN_UTXO = 0x01;
+const PSBT_IN_PARTIAL_SIG = 0x02;
+const PSBT_IN_SIGHASH_TYPE = 0x03;
+const PSBT_IN_REDEEM_SCRIPT = 0x04;
+const PSBT_IN_FINAL_SCRIPTSIG = 0x07;
+
+/** Signature hash type used for all TETSUO signatures */
+export const SIGHASH_ALL = 0x01;
+
+/**
+ * Create a PSBT from transaction hex and the UTXOs its inputs spend.
+ * P2SH UTXOs must carry their redeem script.
+ */
+export function createPsbt(unsignedTxHex: string, utxos: UTXO[]): Psbt {
+  const tx = decodeTransaction(unsignedTxHex);
+
+  if (tx.inputs.some(input => input.scriptSig.length > 0)) {
+    throw new WalletError('PSBT requires an unsigned transaction (empty scriptSigs)');
+  }
+
+  const inputs: PsbtInput[] = tx.inputs.map((input, i) => {
+    const utxo = utxos.find(u => u.txid === input.txid && u.vout === input.vout);
+    if (!utxo || !utxo.scriptPubKey) {
+      throw new WalletError(`Missing UTXO scriptPubKey for input ${i} (${input.txid}:${input.vout})`);
+    }
+
+    if (getScriptType(utxo.scriptPubKey) === 'p2sh') {
+      if (!utxo.redeemScript) {
+        throw new WalletError(`Missing redeem script for P2SH input ${i}`);
+      }
+      if (getScriptHash(utxo.redeemScript).toString('hex') !== utxo.scriptPubKey.slice(4, 44)) {
+        throw new WalletError(`Redeem script does not match P2SH input ${i}`);
+      }
+    }
+
+    return {
+      utxo: { value: utxo.value, scriptPubKey: utxo.scriptPubKey },
+      partialSignatures: {},
+      sighashType: SIGHASH_ALL,
+      redeemScript: utxo.redeemScript
+    };
+  });
+
+  return { unsignedTx: unsignedTxHex, inputs };
+}
+
+/**
+ * Add signatures for every input the private key or Signer can sign: P2PKH
+ * inputs paying its public key, and P2SH multisig inputs listing it, including
+ * those wrapped in a CLTV/CSV template. For private keys, legacy HMAC-derived
+ * public keys are also recognised for P2PKH.
+ */
+export async function signPsbt(psbt: Psbt, privateKey: string | Signer): Promise<Psbt> {
+  const txInputs = getPsbtInputs(psbt);
+  const candidates = typeof privateKey === 'string'
+    ? [derivePublicKey(privateKey), derivePublicKeyLegacy(privateKey)]
+    : [await privateKey.getPublicKey()];
+  let signed = 0;
+
+  const inputs: PsbtInput[] = [];
+  for (const [i, input] of psbt.inputs.entries()) {
+    const signing = !input.finalScriptSig && input.utxo ? findSigningKey(input, candidates) : undefined;
+    if (!signing) {
+      inputs.push(input);
+      continue;
+    }
+
+    const sighash = createSignatureHash(psbt.unsignedTx, txInputs, i, signing.scriptCode);
+    const publicKey = signing.publicKey;
+    signed++;
+
+    inputs.push({
+      ...input,
+      partialSignatures: {
+        ...input.partialSignatures,
+        [publicKey]: await createSignature(privateKey, sighash)
+      }
+    });
+  }
+
+  if (signed === 0) {
+    throw new SigningError('Private key does not match any PSBT input');
+  }
+
+  return { ...psbt, inputs };
+}
+
+/**
+ * Merge signatures and metadata from several copies of the same PSBT
+ */
+export function combinePsbts(psbts: Psbt[]): Psbt {
+  if (psbts.length === 0) {
+    throw new WalletError('No PSBTs to combine');
+  }
+
+  const [first, ...rest] = psbts;
+
+  return rest.reduce<Psbt>((combined, psbt) => {
+    if (psbt.unsignedTx !== combined.unsignedTx) {
+      throw new WalletError('Cannot combine PSBTs for different transactions');
+    }
+
+    return {
+      unsignedTx: combined.unsignedTx,
+      inputs: combined.inputs.map((input, i) => {
+        const other = psbt.inputs[i];
+        return {
+          utxo: input.utxo || other.utxo,
+          partialSignatures: { ...input.partialSignatures, ...other.partialSignatures },
+          sighashType: input.sighashType ?? other.sighashType,
+          redeemScript: input.redeemScript || other.redeemScript,
+          finalScriptSig: input.finalScriptSig || other.finalScriptSig
+        };
+      })
+    };
+  }, first);
+}
+
+/**
+ * Build final scriptSigs from the collected partial signatures
+ */
+export function finalizePsbt(psbt: Psbt): Psbt {
+  const inputs = psbt.inputs.map((input, i) => {
+    if (input.finalScriptSig) {
+      return input;
+    }
+    if (!input.utxo) {
+      throw new WalletError(`Input ${i} is missing its UTXO`);
+    }
+
+    const scriptType = getScriptType(input.utxo.scriptPubKey);
+
+    if (scriptType === 'p2pkh') {
+      const scriptHash = input.utxo.scriptPubKey.slice(6, 46);
+      const publicKey = Object.keys(input.partialSignatures)
+        .find(pub => hash160(fromHex(pub)).toString('hex') === scriptHash);
+      if (!publicKey) {
+        throw new WalletError(`Input ${i} is not signed`);
+      }
+
+      return {
+        utxo: input.utxo,
+        partialSignatures: {},
+        finalScriptSig: createPayToPubKeyHashScriptSig(input.partialSignatures[publicKey], publicKey)
+      };
+    }
+
+    if (scriptType === 'p2sh' && input.redeemScript) {
+      // Timelock scripts are satisfied like the script they wrap
+      const innerScript = decodeTimelockScript(input.redeemScript)?.innerScript ?? input.redeemScript;
+
+      if (getScriptType(innerScript) === 'p2pkh') {
+        const publicKey = Object.keys(input.partialSignatures)
+          .find(pub => hash160(fromHex(pub)).toString('hex') === innerScript.slice(6, 46));
+        if (!publicKey) {
+          throw new WalletError(`Input ${i} is not signed`);
+        }
+
+        return {
+          utxo: input.utxo,
+          partialSignatures: {},
+          redeemScript: input.redeemScript,
+          finalScriptSig: createPayToPubKeyHashScriptSig(input.partialSignatures[publicKey], publicKey) +
+            pushData(input.redeemScript)
+        };
+      }
+
+      const { requiredSignatures, publicKeys } = decodeMultisigScript(innerScript);
+      const signatures = publicKeys
+        .filter(pub => input.partialSignatures[pub])
+        .map(pub => input.partialSignatures[pub]);
+
+      if (signatures.length < requiredSignatures) {
+        throw new WalletError(`Input ${i} has ${signatures.length} of ${requiredSignatures} required signatures`);
+      }
+
+      return {
+        utxo: input.utxo,
+        partialSignatures: {},
+        redeemScript: input.redeemScript,
+        finalScriptSig: createMultisigScriptSig(signatures.slice(0, requiredSignatures), input.redeemScript)
+      };
+    }
+
+    throw new WalletError(`Input ${i} has an unsupported script type`);
+  });
+
+  return { ...psbt, inputs };
+}
+
+/**
+ * Check whether every input has a final scriptSig
+ */
+export function isPsbtFinalized(psbt: Psbt): boolean {
+  return psbt.inputs.every(input => !!input.finalScriptSig);
+}
+
+/**
+ * Extract the network-ready transaction hex from a finalized PSBT
+ */
+export function extractTransaction(psbt: Psbt): string {
+  if (!isPsbtFinalized(psbt)) {
+    throw new WalletError('PSBT is not finalized');
+  }
+
+  const tx = decodeTransaction(psbt.unsignedTx);
+
+  return encodeTransaction({
+    ...tx,
+    inputs: tx.inputs.map((input, i) => ({ ...input, scriptSig: psbt.inputs[i].finalScriptSig! }))
+  });
+}
+
+/**
+ * Fee paid by the PSBT (sum of input UTXOs minus outputs), in satoshis
+ */
+export function getPsbtFee(psbt: Psbt): Amount {
+  const tx = decodeTransaction(psbt.unsignedTx);
+
+  const totalIn = psbt.inputs.reduce((sum, input, i) => {
+    if (!input.utxo) {
+      throw new WalletError(`Input ${i} is missing its UTXO`);
+    }
+    return sum + input.utxo.value;
+  }, 0n);
+  const totalOut = sumAmounts(tx.outputs.map(output => output.value));
+
+  return totalIn - totalOut;
+}
+
+/**
+ * The outputs a PSBT spends, as UTXOs for verifyTransaction. Confirmations
+ * are not recorded in a PSBT and are reported as 0.
+ */
+export function getPsbtUtxos(psbt: Psbt): UTXO[] {
+  return getPsbtInputs(psbt).map((input, i) => {
+    const { utxo, redeemScript } = psbt.inputs[i];
+    if (!utxo) {
+      throw new WalletError(`Input ${i} is missing its UTXO`);
+    }
+    return { txid: input.txid, vout: input.vout, value: utxo.value, confirmations: 0, scriptPubKey: utxo.scriptPubKey, redeemScript };
+  });
+}
+
+/**
+ * Serialize a PSBT to base64
+ */
+export function encodePsbt(psbt: Psbt): string {
+  const tx = decodeTransaction(psbt.unsignedTx);
+  const parts: Buffer[] = [PSBT_MAGIC];
+
+  parts.push(encodeKeyValue(Buffer.from([PSBT_GLOBAL_UNSIGNED_TX]), fromHex(psbt.unsignedTx)));
+  parts.push(Buffer.from([0x00]));
+
+  for (const input of psbt.inputs) {
+    if (input.utxo) {
+      const script = fromHex(input.utxo.scriptPubKey);
+      const value = Buffer.alloc(8);
+      value.writeBigUInt64LE(input.utxo.value);
+      parts.push(encodeKeyValue(
+        Buffer.from([PSBT_IN_UTXO]),
+        Buffer.concat([value, writeVarInt(script.length), script])
+      ));
+    }
+
+    for (const [publicKey, signature] of Object.entries(input.partialSignatures)) {
+      parts.push(encodeKeyValue(
+        Buffer.concat([Buffer.from([PSBT_IN_PARTIAL_SIG]), fromHex(publicKey)]),
+        fromHex(signature)
+      ));
+    }
+
+    if (input.sighashType !== undefined) {
+      const sighash = Buffer.alloc(4);
+      sighash.writeUInt32LE(input.sighashType);
+      parts.push(encodeKeyValue(Buffer.from([PSBT_IN_SIGHASH_TYPE]), sighash));
+    }
+
+    if (input.redeemScript) {
+      parts.push(encodeKeyValue(Buffer.from([PSBT_IN_REDEEM_SCRIPT]), fromHex(input.redeemScript)));
+    }
+
+    if (input.finalScriptSig) {
+      parts.push(encodeKeyValue(Buffer.from([PSBT_IN_FINAL_SCRIPTSIG]), fromHex(input.finalScriptSig)));
+    }
+
+    parts.push(Buffer.from([0x00]));
+  }
+
+  // Output maps carry no data yet
+  for (let i = 0; i < tx.outputs.length; i++) {
+    parts.push(Buffer.from([0x00]));
+  }
+
+  return Buffer.concat(parts).toString('base64');
+}
+
+/**
+ * Parse a base64 PSBT
+ */
+export function decodePsbt(encoded: string): Psbt {
+  const buffer = Buffer.from(encoded.trim(), 'base64');
+
+  if (buffer.length < PSBT_MAGIC.length || !buffer.slice(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+    throw new SerializationError('Invalid PSBT: bad magic bytes');
+  }
+
+  try {
+    let offset = PSBT_MAGIC.length;
+    let unsignedTx: string | undefined;
+
+    // Global map
+    for (let entry = readKeyValue(buffer, offset); entry; entry = readKeyValue(buffer, offset)) {
+      offset = entry.next;
+      if (entry.key[0] === PSBT_GLOBAL_UNSIGNED_TX) {
+        unsignedTx = entry.value.toString('hex');
+      }
+    }
+    offset++;
+
+    if (!unsignedTx) {
+      throw new Error('missing unsigned transaction');
+    }
+
+    const tx = decodeTransaction(unsignedTx);
+    const inputs: PsbtInput[] = [];
+
+    for (let i = 0; i < tx.inputs.length; i++) {
+      const input: PsbtInput = { partialSignatures: {} };
+
+      for (let entry = readKeyValue(buffer, offset); entry; entry = readKeyValue(buffer, offset)) {
+        offset = entry.next;
+
+        switch (entry.key[0]) {
+          case PSBT_IN_UTXO: {
+            const scriptLength = readVarInt(entry.value, 8);
+            input.utxo = {
+              value: entry.value.readBigUInt64LE(0),
+              scriptPubKey: entry.value.slice(8 + scriptLength.size, 8 + scriptLength.size + scriptLength.value).toString('hex')
+            };
+            break;
+          }
+          case PSBT_IN_PARTIAL_SIG:
+            input.partialSignatures[entry.key.slice(1).toString('hex')] = entry.value.toString('hex');
+            break;
+          case PSBT_IN_SIGHASH_TYPE:
+            input.sighashType = entry.value.readUInt32LE(0);
+            break;
+          case PSBT_IN_REDEEM_SCRIPT:
+            input.redeemScript = entry.value.toString('hex');
+            break;
+          case PSBT_IN_FINAL_SCRIPTSIG:
+            input.finalScriptSig = entry.value.toString('hex');
+            break;
+          default:
+            // Unknown keys are ignored
+            break;
+        }
+      }
+      offset++;
+
+      inputs.push(input);
+    }
+
+    return { unsignedTx, inputs };
+  } catch (error) {
+    if (error instanceof WalletError) {
+      throw error;
+    }
+    throw new SerializationError(`Invalid PSBT: ${(error as Error).message}`, { cause: error });
+  }
+}
+
+/**
+ * Inputs of the PSBT's unsigned transaction
+ */
+function getPsbtInputs(psbt: Psbt): TransactionInput[] {
+  return decodeTransaction(psbt.unsignedTx).inputs.map(input => ({
+    txid: input.txid,
+    vout: input.vout,
+    sequence: input.sequence
+  }));
+}
+
+/**
+ * Find which candidate public key can sign an input, and the script code to sign
+ */
+function findSigningKey(
+  input: PsbtInput,
+  candidates: string[]
+): { publicKey: string; scriptCode: string } | undefined {
+  const scriptPubKey = input.utxo!.scriptPubKey;
+  const scriptType = getScriptType(scriptPubKey);
+
+  if (scriptType === 'p2pkh') {
+    const scriptHash = scriptPubKey.slice(6, 46);
+    const publicKey = candidates.find(pub => hash160(fromHex(pub)).toString('hex') === scriptHash);
+    return publicKey ? { publicKey, scriptCode: scriptPubKey } : undefined;
+  }
+
+  if (scriptType === 'p2sh' && input.redeemScript) {
+    const innerScript = decodeTimelockScript(input.redeemScript)?.innerScript ?? input.redeemScript;
+    const innerType = getScriptType(innerScript);
+    let publicKey: string | undefined;
+
+    if (innerType === 'p2pkh') {
+      publicKey = candidates.find(pub => hash160(fromHex(pub)).toString('hex') === innerScript.slice(6, 46));
+    } else if (innerType === 'multisig') {
+      const { publicKeys } = decodeMultisigScript(innerScript);
+      publicKey = candidates.find(pub => publicKeys.includes(pub));
+    }
+
+    return publicKey ? { publicKey, scriptCode: input.redeemScript } : undefined;
+  }
+
+  return undefined;
+}
+
+function encodeKeyValue(key: Buffer, value: Buffer): Buffer {
+  return Buffer.concat([writeVarInt(key.length), key, writeVarInt(value.length), value]);
+}
+
+/**
+ * Read one key-value pair, or return null at a map separator
+ */
+function readKeyValue(buffer: Buffer, offset: number): { key: Buffer; value: Buffer; next: number } | null {
+  const keyLength = readVarInt(buffer, offset);
+  if (keyLength.value === 0) {
+    return null;
+  }
+  offset += keyLength.size;
+  const key = buffer.slice(offset, offset + keyLength.value);
+  offset += keyLength.value;
+
+  const valueLength = readVarInt(buffer, offset);
+  offset += valueLength.size;
+  const value = buffer.slice(offset, offset + valueLength.value);
+  offset += valueLength.value;
+
+  if (offset > buffer.length) {
+    throw new Error('unexpected end of data');
+  }
+
+  return { key, value, next: offset };
+}
@@ -1,31 +1,92 @@
 /**
  * TETSUO Wallet SDK - RPC Client
+ *
+ * Reads are retried with exponential backoff and jitter, failing over to
+ * fallback endpoints that answer a ping. Each endpoint has a circuit breaker
+ * that stops sending it requests after repeated failures. Broadcasts are
+ * never retried blindly.
  */
 
-import axios, { AxiosInstance } from 'axios';
-import { Balance, Transaction, BlockchainInfo, TransactionResult, UTXO, RPCError } from './types';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import {
+  Amount,
+  Balance,
+  Transaction,
+  BlockchainInfo,
+  TransactionResult,
+  UTXO,
+  DecodedTransaction,
+  Network,
+  RPCClientOptions,
+  RPCError,
+  WalletConfig
+} from './types';
+import { decodeTransaction, estimateFee as estimateLocalFee, estimateTransactionSize } from './transaction';
+import { DEFAULT_FEE_RATE } from './fee';
+import { amountFromCoins, maxAmount } from './amount';
+import { MAINNET } from './network';
+import { isValidAddress } from './address';
+
+/** An RPC endpoint and its circuit breaker state */
+interface Endpoint {
+  url: string;
+  /** Consecutive failed requests */
+  failures: number;
+  /** When the circuit opened; requests are refused until resetTimeout passes */
+  openedAt?: number;
+}
+
+/** Endpoint used when neither a URL nor a network is given */
+export const DEFAULT_RPC_URL = 'http://localhost:8080';
+
+type ResolvedRPCOptions = Required<Omit<RPCClientOptions, 'fallbackUrls'>>;
+
+const DEFAULT_RPC_OPTIONS: ResolvedRPCOptions = {
+  timeout: 10000,
+  broadcastTimeout: 30000,
+  pingTimeout: 3000,
+  retries: 2,
+  retryDelay: 250,
+  maxRetryDelay: 5000,
+  failureThreshold: 5,
+  resetTimeout: 30000
+};
 
 export class TetsuoRPC {
   private client: AxiosInstance;
-  private baseURL: string;
+  private endpoints: Endpoint[];
+  private current = 0;
+  private options: ResolvedRPCOptions;
+  /** Network used to decode transactions and as the fee floor */
+  readonly network: Network;
 
-  constructor(networkUrl: string) {
-    this.baseURL = networkUrl;
+  constructor(networkUrl: string, network: Network = MAINNET, options: RPCClientOptions = {}) {
+    this.network = network;
+    this.endpoints = [networkUrl, ...(options.fallbackUrls || [])].map(url => ({ url, failures: 0 }));
+    this.options = { ...DEFAULT_RPC_OPTIONS };
+    for (const key of Object.keys(DEFAULT_RPC_OPTIONS) as (keyof ResolvedRPCOptions)[]) {
+      this.options[key] = options[key] ?? DEFAULT_RPC_OPTIONS[key];
+    }
     this.client = axios.create({
-      baseURL: networkUrl,
-      timeout: 30000,
       headers: {
         'Content-Type': 'application/json'
       }
     });
   }
 
+  /**
+   * URL of the endpoint requests currently go to
+   */
+  getEndpoint(): string {
+    return this.endpoints[this.current].url;
+  }
+
   /**
    * Get blockchain info
    */
   async getBlockchainInfo(): Promise<BlockchainInfo> {
     try {
-      const response = await this.client.get<any>('/api/blockchain/info');
+      const response = await this.get<any>('/api/blockchain/info');
       return {
         blockHeight: response.data.blockHeight || 0,
         difficulty: response.data.difficulty || 0,
@@ -38,12 +99,12 @@ export class TetsuoRPC {
   }
 
   /**
-   * Get balance for an address
+   * Get balance for an address (the node reports TETSUO; returned as satoshis)
    */
-  async getBalance(address: string): Promise<number> {
+  async getBalance(address: string): Promise<Amount> {
     try {
-      const response = await this.client.get<any>(`/api/wallet/balance/${address}`);
-      return response.data.balance || 0;
+      const response = await this.get<any>(`/api/wallet/balance/${address}`);
+      return amountFromCoins(response.data.balance || 0);
     } catch (error) {
       throw this.handleError(`Failed to get balance for ${address}`, error);
     }
@@ -54,11 +115,11 @@ export class TetsuoRPC {
    */
   async getDetailedBalance(address: string): Promise<Balance> {
     try {
-      const response = await this.client.get<any>(`/api/wallet/balance/${address}`);
+      const response = await this.get<any>(`/api/wallet/balance/${address}`);
       return {
-        confirmed: response.data.confirmed || 0,
-        unconfirmed: response.data.unconfirmed || 0,
-        total: response.data.balance || 0
+        confirmed: amountFromCoins(response.data.confirmed || 0),
+        unconfirmed: amountFromCoins(response.data.unconfirmed || 0),
+        total: amountFromCoins(response.data.balance || 0)
       };
     } catch (error) {
       throw this.handleError(`Failed to get detailed balance`, error);
@@ -70,14 +131,14 @@ export class TetsuoRPC {
    */
   async getUTXOs(address: string): Promise<UTXO[]> {
     try {
-      const response = await this.client.get<any>(`/api/wallet/utxos/${address}`);
+      const response = await this.get<any>(`/api/wallet/utxos/${address}`);
 
       // Map server response to UTXO type (server uses 'amount', SDK expects 'value')
       if (Array.isArray(response.data.utxos)) {
         return response.data.utxos.map((utxo: any) => ({
           txid: utxo.txid,
           vout: utxo.vout,
-          value: utxo.amount ? Math.floor(utxo.amount * 100_000_000) : 0, // Convert TETSUO to satoshis
+          value: amountFromCoins(utxo.amount || 0), // Convert TETSUO to satoshis
           confirmations: utxo.confirmations || 0,
           scriptPubKey: utxo.scriptPubKey
         }));
@@ -94,7 +155,7 @@ export class TetsuoRPC {
    */
   async getTransactionHistory(address: string): Promise<Transaction[]> {
     try {
-      const response = await this.client.get<any>(`/api/wallet/transactions/${address}`);
+      const response = await this.get<any>(`/api/wallet/transactions/${address}`);
 
       if (!Array.isArray(response.data.transactions)) {
         return [];
@@ -102,16 +163,19 @@ export class TetsuoRPC {
 
       return response.data.transactions.map((tx: any) => ({
         txid: tx.txid,
-        amount: tx.amount || 0,
+        amount: amountFromCoins(tx.amount || 0),
         isIncoming: tx.isIncoming === true,
         confirmations: tx.confirmations || 0,
         timestamp: (tx.timestamp || Math.floor(Date.now() / 1000)) * 1000, // Convert to milliseconds
         address: tx.address,
-        fee: tx.fee || undefined
+        fee: tx.fee ? amountFromCoins(tx.fee) : undefined
       }));
     } catch (error) {
-      // Return empty array if endpoint not available
-      return [];
+      // Nodes without the history endpoint have no history to give
+      if (this.isNotFound(error)) {
+        return [];
+      }
+      throw this.handleError(`Failed to get transaction history for ${address}`, error);
     }
   }
 
@@ -120,7 +184,7 @@ export class TetsuoRPC {
    */
   async getTransaction(txid: string): Promise<any> {
     try {
-      const response = await this.client.get<any>(`/api/transaction/${txid}`);
+      const response = await this.get<any>(`/api/transaction/${txid}`);
       return response.data;
     } catch (error) {
       throw this.handleError(`Failed to get transaction ${txid}`, error);
@@ -128,54 +192,128 @@ export class TetsuoRPC {
   }
 
   /**
-   * Broadcast a signed transaction
+   * Get a transaction and decode its raw hex
+   */
+  async getDecodedTransaction(txid: string): Promise<DecodedTransaction> {
+    const data = await this.getTransaction(txid);
+    const hex = data?.hex || data?.txHex;
+
+    if (typeof hex !== 'string') {
+      throw new RPCError(`Transaction ${txid} response does not include raw hex`, { endpoint: `/api/transaction/${txid}` });
+    }
+
+    return decodeTransaction(hex, this.network);
+  }
+
+  /**
+   * Broadcast a signed transaction. The POST is never retried blindly: when
+   * its outcome is unknown (no response, or 502-504) the transaction is looked
+   * up by txid, and the same bytes are sent once more only if the node does
+   * not have it.
    */
   async broadcastTransaction(transactionHex: string): Promise<string> {
     try {
-      const response = await this.client.post<any>('/api/wallet/broadcast', {
-        hex: transactionHex
-      });
+      return await this.postTransaction(transactionHex);
+    } catch (error) {
+      if (!isOutcomeUnknown(error)) {
+        throw this.handleError('Failed to broadcast transaction', error);
+      }
 
-      if (!response.data.txid) {
-        throw new Error('No transaction ID returned');
+      let txid: string;
+      try {
+        txid = decodeTransaction(transactionHex).txid;
+      } catch {
+        throw this.handleError('Failed to broadcast transaction', error);
       }
 
-      return response.data.txid;
-    } catch (error) {
-      throw this.handleError('Failed to broadcast transaction', error);
+      let known: boolean;
+      try {
+        known = await this.hasTransaction(txid);
+      } catch {
+        throw this.handleError(`Failed to broadcast transaction (check whether ${txid} was received before resending)`, error);
+      }
+      if (known) {
+        return txid;
+      }
+
+      try {
+        return await this.postTransaction(transactionHex);
+      } catch (retryError) {
+        throw this.handleError('Failed to broadcast transaction', retryError);
+      }
     }
   }
 
   /**
    * Estimate fee for transaction
-   * Returns fee in satoshis, with safe fallback
+   * Returns the node's estimate in satoshis, never below the local size-based
+   * estimate at `feeRate` (which is also used when the node has no estimate
+   * endpoint). Throws RPCError if the node cannot be reached or fails.
+   * `dataSize` adds an OP_RETURN output carrying that many bytes.
    */
-  async estimateFee(inputCount: number, outputCount: number): Promise<number> {
-    const SAFE_MIN_FEE = 150000; // 0.0015 TETSUO - safe fallback
+  async estimateFee(
+    inputCount: number,
+    outputCount: number,
+    feeRate: number = DEFAULT_FEE_RATE,
+    dataSize: number = 0
+  ): Promise<Amount> {
+    const localFee = estimateLocalFee(inputCount, outputCount, feeRate, dataSize);
 
     try {
-      const response = await this.client.get<any>('/api/fee/estimate', {
-        params: { inputCount, outputCount }
+      const response = await this.get<any>('/api/fee/estimate', {
+        params: { inputCount, outputCount: outputCount + (dataSize > 0 ? 1 : 0) }
       });
 
-      const fee = response.data.fee || SAFE_MIN_FEE;
-      // Always return at least the safe minimum
-      return Math.max(fee, SAFE_MIN_FEE);
+      // The node reports whole satoshis
+      const nodeFee = BigInt(Math.ceil(Number(response.data.fee) || 0));
+      return maxAmount(nodeFee, localFee);
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return localFee;
+      }
+      throw this.handleError('Failed to estimate fee', error);
+    }
+  }
+
+  /**
+   * Get the node's fee rate in satoshis per byte
+   * Uses `feeRate` from the estimate endpoint, or derives it from the fee for a
+   * one-input, two-output transaction. Falls back to DEFAULT_FEE_RATE only when
+   * the node has no estimate endpoint; outages throw RPCError.
+   */
+  async getFeeRate(): Promise<number> {
+    let feeRate: number;
+    try {
+      const response = await this.get<any>('/api/fee/estimate', {
+        params: { inputCount: 1, outputCount: 2 }
+      });
+      feeRate = Number(response.data.feeRate ?? response.data.fee / estimateTransactionSize(1, 2));
     } catch (error) {
-      // Return safe fallback if endpoint fails
-      return SAFE_MIN_FEE;
+      if (this.isNotFound(error)) {
+        return DEFAULT_FEE_RATE;
+      }
+      throw this.handleError('Failed to get fee rate', error);
     }
+
+    if (!Number.isFinite(feeRate) || feeRate <= 0) {
+      throw new RPCError('Failed to get fee rate: node returned no usable estimate', { endpoint: '/api/fee/estimate' });
+    }
+    return Math.max(Math.ceil(feeRate), this.network.minFeeRate);
   }
 
   /**
    * Check if address is valid
+   * Nodes without the validation endpoint are answered by the local check.
    */
   async validateAddress(address: string): Promise<boolean> {
     try {
-      const response = await this.client.get<any>(`/api/address/validate/${address}`);
-      return response.data.valid || false;
+      const response = await this.get<any>(`/api/address/validate/${address}`);
+      return response.data.valid === true;
     } catch (error) {
-      return false;
+      if (this.isNotFound(error)) {
+        return isValidAddress(address, this.network);
+      }
+      throw this.handleError('Failed to validate address', error);
     }
   }
 
@@ -184,7 +322,7 @@ export class TetsuoRPC {
    */
   async getAddressInfo(address: string): Promise<any> {
     try {
-      const response = await this.client.get<any>(`/api/address/${address}`);
+      const response = await this.get<any>(`/api/address/${address}`);
       return response.data;
     } catch (error) {
       throw this.handleError(`Failed to get address info`, error);
@@ -195,30 +333,208 @@ export class TetsuoRPC {
    * Health check
    */
   async ping(): Promise<boolean> {
+    return this.pingEndpoint(this.endpoints[this.current]);
+  }
+
+  /**
+   * GET with retries. Requests that get no response, 408, 429 or 5xx are
+   * retried after a backoff; other errors are thrown at once.
+   */
+  private async get<T = any>(path: string, config: { params?: Record<string, unknown> } = {}): Promise<AxiosResponse<T>> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.getRetryDelay(attempt));
+      }
+
+      const endpoint = await this.selectEndpoint(attempt > 0, lastError);
+      try {
+        const response = await this.client.get<T>(path, {
+          ...config,
+          baseURL: endpoint.url,
+          timeout: this.options.timeout
+        });
+        this.recordSuccess(endpoint);
+        return response;
+      } catch (error) {
+        this.recordResult(endpoint, error);
+        if (!isRetryable(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Send a transaction to one endpoint, once
+   */
+  private async postTransaction(transactionHex: string): Promise<string> {
+    const endpoint = await this.selectEndpoint(false);
+    let response: AxiosResponse<any>;
+    try {
+      response = await this.client.post<any>('/api/wallet/broadcast', { hex: transactionHex }, {
+        baseURL: endpoint.url,
+        timeout: this.options.broadcastTimeout
+      });
+    } catch (error) {
+      this.recordResult(endpoint, error);
+      throw error;
+    }
+    this.recordSuccess(endpoint);
+
+    if (!response.data.txid) {
+      throw new RPCError('Failed to broadcast transaction: No transaction ID returned', {
+        status: response.status,
+        endpoint: '/api/wallet/broadcast'
+      });
+    }
+    return response.data.txid;
+  }
+
+  /**
+   * Whether the node knows a transaction (a 404 means it does not)
+   */
+  private async hasTransaction(txid: string): Promise<boolean> {
+    try {
+      await this.get(`/api/transaction/${txid}`);
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Pick the endpoint for the next request. The current one is kept while its
+   * circuit is closed; after a failure, or when its circuit is open, the first
+   * endpoint (current one included) that answers a ping takes over. With a
+   * single endpoint there is nothing to fail over to, so it is not pinged.
+   */
+  private async selectEndpoint(afterFailure: boolean, lastError?: unknown): Promise<Endpoint> {
+    const count = this.endpoints.length;
+
+    for (let offset = 0; offset < count; offset++) {
+      const index = (this.current + offset) % count;
+      const endpoint = this.endpoints[index];
+      if (!this.isAvailable(endpoint)) {
+        continue;
+      }
+
+      const healthCheck = count > 1 && (afterFailure || offset > 0);
+      if (healthCheck && !(await this.pingEndpoint(endpoint))) {
+        continue;
+      }
+
+      this.current = index;
+      return endpoint;
+    }
+
+    throw lastError ?? new RPCError(`No RPC endpoint available: ${this.endpoints.map(e => e.url).join(', ')}`);
+  }
+
+  private async pingEndpoint(endpoint: Endpoint): Promise<boolean> {
     try {
-      const response = await this.client.get<any>('/api/ping');
+      const response = await this.client.get<any>('/api/ping', {
+        baseURL: endpoint.url,
+        timeout: this.options.pingTimeout
+      });
+      this.recordSuccess(endpoint);
       return response.status === 200;
     } catch (error) {
+      this.recordResult(endpoint, error);
       return false;
     }
   }
 
+  // Closed, or open for resetTimeout so one trial request may pass (half-open)
+  private isAvailable(endpoint: Endpoint): boolean {
+    return endpoint.openedAt === undefined || Date.now() - endpoint.openedAt >= this.options.resetTimeout;
+  }
+
+  private recordSuccess(endpoint: Endpoint): void {
+    endpoint.failures = 0;
+    endpoint.openedAt = undefined;
+  }
+
+  // Only failures of the endpoint itself count; a 404 or 400 is an answer
+  private recordResult(endpoint: Endpoint, error: unknown): void {
+    if (!isRetryable(error)) {
+      this.recordSuccess(endpoint);
+      return;
+    }
+    endpoint.failures++;
+    if (endpoint.failures >= this.options.failureThreshold) {
+      endpoint.openedAt = Date.now();
+    }
+  }
+
+  // Exponential backoff with equal jitter: between half and all of base * 2^(attempt - 1)
+  private getRetryDelay(attempt: number): number {
+    const delay = Math.min(this.options.maxRetryDelay, this.options.retryDelay * 2 ** (attempt - 1));
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
   /**
    * Private method to handle errors
    */
   private handleError(message: string, error: any): RPCError {
+    if (error instanceof RPCError) {
+      return error;
+    }
     if (axios.isAxiosError(error)) {
-      const status = error.response?.status || 0;
       const errorMsg = error.response?.data?.error || error.message;
-      return new RPCError(`${message}: ${errorMsg}`, status);
+      return new RPCError(`${message}: ${errorMsg}`, {
+        status: error.response?.status,
+        endpoint: error.config?.url,
+        cause: error
+      });
     }
-    return new RPCError(`${message}: ${(error as Error).message}`);
+    return new RPCError(`${message}: ${(error as Error).message}`, { cause: error });
+  }
+
+  private isNotFound(error: any): boolean {
+    return axios.isAxiosError(error) && error.response?.status === 404;
   }
 }
 
 /**
- * Create an RPC client instance
+ * Create an RPC client instance from a URL or a WalletConfig. With a network
+ * but no URL the client connects to the network's rpcUrl; with neither it
+ * connects to a local node (DEFAULT_RPC_URL), never to mainnet by accident.
  */
-export function createRPCClient(networkUrl: string = 'http://localhost:8080'): TetsuoRPC {
-  return new TetsuoRPC(networkUrl);
+export function createRPCClient(config: string | WalletConfig = {}, options: RPCClientOptions = {}): TetsuoRPC {
+  if (typeof config === 'string') {
+    return new TetsuoRPC(config, MAINNET, options);
+  }
+  const network = config.network ?? MAINNET;
+  const url = config.networkUrl ?? (config.network ? network.rpcUrl : DEFAULT_RPC_URL);
+  return new TetsuoRPC(url, network, options);
+}
+
+// Worth retrying: no response (timeout, refused, reset), 408, 429 or 5xx
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+// A broadcast the node may or may not have received
+function isOutcomeUnknown(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 502 || status === 503 || status === 504;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
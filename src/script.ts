@@ -0,0 +1,379 @@
+/**
+ * TETSUO Wallet SDK - Script Templates (P2PKH, P2SH, multisig)
+ */
+
+import { hash160, fromHex } from './crypto';
+import { addressToHash160, getAddressType, hash160ToAddress, hash160ToScriptAddress } from './address';
+import { MAINNET } from './network';
+import { Network, TransactionOutput, WalletError } from './types';
+
+export const OP_0 = 0x00;
+export const OP_PUSHDATA1 = 0x4c;
+export const OP_PUSHDATA2 = 0x4d;
+export const OP_1 = 0x51;
+export const OP_16 = 0x60;
+export const OP_RETURN = 0x6a;
+export const OP_DROP = 0x75;
+export const OP_DUP = 0x76;
+export const OP_EQUAL = 0x87;
+export const OP_EQUALVERIFY = 0x88;
+export const OP_HASH160 = 0xa9;
+export const OP_CHECKSIG = 0xac;
+export const OP_CHECKMULTISIG = 0xae;
+export const OP_CHECKLOCKTIMEVERIFY = 0xb1;
+export const OP_CHECKSEQUENCEVERIFY = 0xb2;
+
+/** Maximum size of a P2SH redeem script (consensus push limit) */
+export const MAX_REDEEM_SCRIPT_SIZE = 520;
+
+/** Maximum number of keys in a standard multisig script */
+export const MAX_MULTISIG_KEYS = 16;
+
+/** Default limit on OP_RETURN payloads, matching the standard relay policy */
+export const MAX_DATA_CARRIER_SIZE = 80;
+
+export type ScriptType = 'p2pkh' | 'p2sh' | 'multisig' | 'cltv' | 'csv' | 'nulldata' | 'nonstandard';
+
+export interface TimelockScript {
+  type: 'cltv' | 'csv';
+  /** Locktime (CLTV) or relative lock sequence (CSV) the script requires */
+  value: number;
+  /** Script that must also be satisfied, e.g. P2PKH or multisig */
+  innerScript: string;
+}
+
+/**
+ * Create a pay-to-pubkey-hash script
+ */
+export function createPayToPubKeyHashScript(hash160: Buffer): string {
+  // OP_DUP OP_HASH160 <hash160> OP_EQUALVERIFY OP_CHECKSIG
+  return '76' + 'a9' + '14' + hash160.toString('hex') + '88' + 'ac';
+}
+
+/**
+ * Create a pay-to-script-hash script
+ */
+export function createPayToScriptHashScript(scriptHash: Buffer): string {
+  // OP_HASH160 <hash160(redeemScript)> OP_EQUAL
+  return 'a9' + '14' + scriptHash.toString('hex') + '87';
+}
+
+/**
+ * Build the output script that pays an address (P2PKH or P2SH)
+ */
+export function addressToScriptPubKey(address: string, network: Network = MAINNET): string {
+  const hash = addressToHash160(address, network);
+  return getAddressType(address, network) === 'p2sh'
+    ? createPayToScriptHashScript(hash)
+    : createPayToPubKeyHashScript(hash);
+}
+
+/**
+ * Create a data-carrier output script: OP_RETURN <data>
+ */
+export function createDataScript(dataHex: string): string {
+  if (!/^([0-9a-fA-F]{2})+$/.test(dataHex)) {
+    throw new WalletError('Data must be a non-empty hex string');
+  }
+  return OP_RETURN.toString(16) + pushData(dataHex.toLowerCase());
+}
+
+/**
+ * Decode the payload of an OP_RETURN script carrying a single data push
+ */
+export function decodeDataScript(script: string): string | undefined {
+  const buffer = fromHex(script);
+  if (buffer.length < 2 || buffer[0] !== OP_RETURN) {
+    return undefined;
+  }
+
+  let offset = 2;
+  let length = buffer[1];
+  if (length === OP_PUSHDATA1) {
+    length = buffer[2];
+    offset = 3;
+  } else if (length === OP_PUSHDATA2) {
+    if (buffer.length < 4) {
+      return undefined;
+    }
+    length = buffer.readUInt16LE(2);
+    offset = 4;
+  } else if (length > 75) {
+    return undefined;
+  }
+
+  if (offset + length !== buffer.length) {
+    return undefined;
+  }
+  return buffer.slice(offset).toString('hex');
+}
+
+/**
+ * Build the output script for a payment (P2PKH/P2SH) or OP_RETURN data output
+ */
+export function getOutputScript(output: TransactionOutput, network: Network = MAINNET): string {
+  if (output.data !== undefined) {
+    return createDataScript(output.data);
+  }
+  if (!output.address) {
+    throw new WalletError('Output needs an address or data');
+  }
+  return addressToScriptPubKey(output.address, network);
+}
+
+/**
+ * Decode the address an output script pays, if it is a standard template
+ */
+export function scriptToAddress(scriptPubKey: string, network: Network = MAINNET): string | undefined {
+  switch (getScriptType(scriptPubKey)) {
+    case 'p2pkh':
+      return hash160ToAddress(fromHex(scriptPubKey.slice(6, 46)), network);
+    case 'p2sh':
+      return hash160ToScriptAddress(fromHex(scriptPubKey.slice(4, 44)), network);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Classify a script by template
+ */
+export function getScriptType(script: string): ScriptType {
+  const lower = script.toLowerCase();
+
+  if (lower.length === 50 && lower.startsWith('76a914') && lower.endsWith('88ac')) {
+    return 'p2pkh';
+  }
+  if (lower.length === 46 && lower.startsWith('a914') && lower.endsWith('87')) {
+    return 'p2sh';
+  }
+
+  if (decodeDataScript(lower) !== undefined) {
+    return 'nulldata';
+  }
+
+  const timelock = decodeTimelockScript(lower);
+  if (timelock) {
+    return timelock.type;
+  }
+
+  try {
+    decodeMultisigScript(lower);
+    return 'multisig';
+  } catch {
+    return 'nonstandard';
+  }
+}
+
+/**
+ * Create an m-of-n multisig redeem script.
+ * With `sort` the keys are ordered lexicographically (BIP67) so every
+ * participant derives the same script regardless of input order.
+ */
+export function createMultisigScript(
+  requiredSignatures: number,
+  publicKeys: string[],
+  options: { sort?: boolean } = {}
+): string {
+  const keys = options.sort ? [...publicKeys].map(k => k.toLowerCase()).sort() : publicKeys.map(k => k.toLowerCase());
+
+  if (keys.length < 1 || keys.length > MAX_MULTISIG_KEYS) {
+    throw new WalletError(`Multisig requires between 1 and ${MAX_MULTISIG_KEYS} public keys`);
+  }
+  if (!Number.isInteger(requiredSignatures) || requiredSignatures < 1 || requiredSignatures > keys.length) {
+    throw new WalletError(`Required signatures must be between 1 and ${keys.length}`);
+  }
+  if (new Set(keys).size !== keys.length) {
+    throw new WalletError('Multisig public keys must be unique');
+  }
+
+  for (const key of keys) {
+    if (!isPublicKeyHex(key)) {
+      throw new WalletError(`Invalid public key: ${key}`);
+    }
+  }
+
+  const script = encodeSmallInt(requiredSignatures) +
+    keys.map(pushData).join('') +
+    encodeSmallInt(keys.length) +
+    OP_CHECKMULTISIG.toString(16);
+
+  if (script.length / 2 > MAX_REDEEM_SCRIPT_SIZE) {
+    throw new WalletError('Redeem script exceeds 520 bytes');
+  }
+
+  return script;
+}
+
+/**
+ * Parse a multisig script back into its threshold and public keys
+ */
+export function decodeMultisigScript(script: string): { requiredSignatures: number; publicKeys: string[] } {
+  const buffer = fromHex(script);
+  const fail = () => new WalletError('Not a multisig script');
+
+  if (buffer.length < 3 || buffer[buffer.length - 1] !== OP_CHECKMULTISIG) {
+    throw fail();
+  }
+
+  const required = decodeSmallInt(buffer[0]);
+  const total = decodeSmallInt(buffer[buffer.length - 2]);
+  if (required === undefined || total === undefined || required > total) {
+    throw fail();
+  }
+
+  const publicKeys: string[] = [];
+  let offset = 1;
+  while (offset < buffer.length - 2) {
+    const length = buffer[offset];
+    if (length !== 33 && length !== 65) {
+      throw fail();
+    }
+    publicKeys.push(buffer.slice(offset + 1, offset + 1 + length).toString('hex'));
+    offset += 1 + length;
+  }
+
+  if (offset !== buffer.length - 2 || publicKeys.length !== total) {
+    throw fail();
+  }
+
+  return { requiredSignatures: required, publicKeys };
+}
+
+/**
+ * Create an absolute timelock script: <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <innerScript>
+ * The output can only be spent by a transaction whose locktime has reached
+ * `locktime` (a block height, or a Unix timestamp from 500000000).
+ */
+export function createCheckLockTimeVerifyScript(locktime: number, innerScript: string): string {
+  if (!Number.isInteger(locktime) || locktime < 1 || locktime > 0xffffffff) {
+    throw new WalletError('Locktime must be between 1 and 4294967295');
+  }
+  return encodeScriptNumber(locktime) + OP_CHECKLOCKTIMEVERIFY.toString(16) + OP_DROP.toString(16) + innerScript.toLowerCase();
+}
+
+/**
+ * Create a relative timelock script: <sequence> OP_CHECKSEQUENCEVERIFY OP_DROP <innerScript>
+ * `sequence` is a BIP68 relative lock (see encodeRelativeLock).
+ */
+export function createCheckSequenceVerifyScript(sequence: number, innerScript: string): string {
+  if (!Number.isInteger(sequence) || sequence < 1 || sequence >= 0x80000000) {
+    throw new WalletError('Relative lock sequence must be between 1 and 2147483647');
+  }
+  return encodeScriptNumber(sequence) + OP_CHECKSEQUENCEVERIFY.toString(16) + OP_DROP.toString(16) + innerScript.toLowerCase();
+}
+
+/**
+ * Parse a CLTV/CSV timelock script, or undefined if the script is not one
+ */
+export function decodeTimelockScript(script: string): TimelockScript | undefined {
+  const buffer = fromHex(script);
+  let value: number;
+  let offset: number;
+
+  if (buffer.length > 0 && buffer[0] >= OP_1 && buffer[0] <= OP_16) {
+    value = decodeSmallInt(buffer[0])!;
+    offset = 1;
+  } else if (buffer.length > 0 && buffer[0] >= 1 && buffer[0] <= 5) {
+    const number = decodeScriptNumber(buffer.slice(1, 1 + buffer[0]));
+    if (number === undefined) {
+      return undefined;
+    }
+    value = number;
+    offset = 1 + buffer[0];
+  } else {
+    return undefined;
+  }
+
+  const opcode = buffer[offset];
+  if ((opcode !== OP_CHECKLOCKTIMEVERIFY && opcode !== OP_CHECKSEQUENCEVERIFY) || buffer[offset + 1] !== OP_DROP) {
+    return undefined;
+  }
+
+  const innerScript = buffer.slice(offset + 2).toString('hex');
+  if (!innerScript || value < 1) {
+    return undefined;
+  }
+
+  return { type: opcode === OP_CHECKLOCKTIMEVERIFY ? 'cltv' : 'csv', value, innerScript };
+}
+
+/**
+ * Encode a non-negative number as a minimal script number push
+ */
+export function encodeScriptNumber(value: number): string {
+  if (value === 0) {
+    return OP_0.toString(16).padStart(2, '0');
+  }
+  if (value >= 1 && value <= 16) {
+    return encodeSmallInt(value);
+  }
+
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0) {
+    bytes.push(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  // Keep the number positive when the top bit would read as a sign
+  if (bytes[bytes.length - 1] & 0x80) {
+    bytes.push(0);
+  }
+
+  return pushData(Buffer.from(bytes).toString('hex'));
+}
+
+/**
+ * Hash160 of a redeem script (the P2SH script hash)
+ */
+export function getScriptHash(redeemScript: string): Buffer {
+  return hash160(fromHex(redeemScript));
+}
+
+/**
+ * Build a multisig P2SH scriptSig: OP_0 <sig1> ... <sigm> <redeemScript>
+ * Signatures must follow the order of their public keys in the redeem script.
+ */
+export function createMultisigScriptSig(signatures: string[], redeemScript: string): string {
+  return '00' + signatures.map(pushData).join('') + pushData(redeemScript);
+}
+
+/**
+ * Encode a data push with the smallest push opcode
+ */
+export function pushData(dataHex: string): string {
+  const length = dataHex.length / 2;
+
+  if (length <= 75) {
+    return length.toString(16).padStart(2, '0') + dataHex;
+  }
+  if (length <= 0xff) {
+    return OP_PUSHDATA1.toString(16) + length.toString(16).padStart(2, '0') + dataHex;
+  }
+  if (length <= 0xffff) {
+    const lengthBuffer = Buffer.alloc(2);
+    lengthBuffer.writeUInt16LE(length);
+    return OP_PUSHDATA2.toString(16) + lengthBuffer.toString('hex') + dataHex;
+  }
+
+  throw new WalletError('Data push too large');
+}
+
+function encodeSmallInt(value: number): string {
+  return (OP_1 + value - 1).toString(16);
+}
+
+function decodeScriptNumber(bytes: Buffer): number | undefined {
+  if (bytes.length === 0 || bytes[bytes.length - 1] & 0x80) {
+    return undefined;
+  }
+  return bytes.reduceRight((value, byte) => value * 256 + byte, 0);
+}
+
+function decodeSmallInt(opcode: number): number | undefined {
+  return opcode >= OP_1 && opcode <= OP_16 ? opcode - OP_1 + 1 : undefined;
+}
+
+function isPublicKeyHex(key: string): boolean {
+  return /^(02|03)[0-9a-f]{64}$/.test(key) || /^04[0-9a-f]{128}$/.test(key);
+}
@@ -0,0 +1,228 @@
+/**
+ * TETSUO Wallet SDK - Shamir Secret Sharing of Mnemonic Entropy
+ */
+
+import * as bip39 from 'bip39';
+import { randomBytes, sha256 } from './crypto';
+import { diagnoseMnemonic, getWordlist, normalizeMnemonic, suggestWords } from './mnemonic';
+import { MnemonicLanguage, SecretShare, WalletError } from './types';
+
+/** Most shares one secret can be split into (indexes are single bytes) */
+export const MAX_SHARES = 255;
+
+// BIP39 entropy sizes in bytes (12 to 24 words)
+const SECRET_SIZES = [16, 20, 24, 28, 32];
+
+// identifier (4) + threshold (1) + index (1), then the value and a checksum
+const SHARE_HEADER_SIZE = 6;
+const SHARE_CHECKSUM_SIZE = 4;
+const BITS_PER_WORD = 11;
+
+// GF(256) tables for the AES polynomial x^8 + x^4 + x^3 + x + 1 with generator 3
+const EXP: number[] = new Array(510);
+const LOG: number[] = new Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+function gfMultiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function gfDivide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret (hex BIP39 entropy, 16-32 bytes) into `shareCount` shares,
+ * any `threshold` of which recover it. Fewer shares reveal nothing about it.
+ */
+export function splitSecret(secret: string, threshold: number, shareCount: number): SecretShare[] {
+  const secretBytes = Buffer.from(secret, 'hex');
+  if (secretBytes.toString('hex') !== secret.toLowerCase() || !SECRET_SIZES.includes(secretBytes.length)) {
+    throw new WalletError(`Secret must be ${SECRET_SIZES.join(', ')} bytes of hex entropy`);
+  }
+  if (!Number.isInteger(shareCount) || shareCount < 2 || shareCount > MAX_SHARES) {
+    throw new WalletError(`Share count must be between 2 and ${MAX_SHARES}`);
+  }
+  // A threshold of one would make every share a copy of the secret
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > shareCount) {
+    throw new WalletError(`Threshold must be between 2 and the share count (${shareCount})`);
+  }
+
+  const identifier = randomBytes(4).readUInt32BE(0);
+  // Random polynomial per byte, with the secret byte as its constant term
+  const coefficients: Buffer[] = [secretBytes];
+  for (let degree = 1; degree < threshold; degree++) {
+    coefficients.push(randomBytes(secretBytes.length));
+  }
+
+  const shares: SecretShare[] = [];
+  for (let index = 1; index <= shareCount; index++) {
+    const value = Buffer.alloc(secretBytes.length);
+    for (let i = 0; i < value.length; i++) {
+      let y = 0;
+      for (let degree = threshold - 1; degree >= 0; degree--) {
+        y = gfMultiply(y, index) ^ coefficients[degree][i];
+      }
+      value[i] = y;
+    }
+    shares.push({ identifier, threshold, index, value: value.toString('hex') });
+  }
+
+  return shares;
+}
+
+/**
+ * Recover a secret from at least `threshold` shares of the same split.
+ * Shares beyond the threshold must agree with the recovered secret.
+ */
+export function combineShares(shares: SecretShare[]): string {
+  if (shares.length === 0) {
+    throw new WalletError('No shares given');
+  }
+
+  const [first] = shares;
+  for (const share of shares) {
+    if (share.identifier !== first.identifier || share.threshold !== first.threshold ||
+        share.value.length !== first.value.length) {
+      throw new WalletError('Shares belong to different backups');
+    }
+  }
+
+  const indexes = new Set(shares.map(share => share.index));
+  if (indexes.size !== shares.length) {
+    throw new WalletError('Each share may only be given once');
+  }
+  if (shares.length < first.threshold) {
+    throw new WalletError(`Need ${first.threshold} shares to recover, got ${shares.length}`);
+  }
+
+  const points = shares.map(share => ({ x: share.index, y: Buffer.from(share.value, 'hex') }));
+  const used = points.slice(0, first.threshold);
+
+  for (const extra of points.slice(first.threshold)) {
+    if (!interpolate(used, extra.x).equals(extra.y)) {
+      throw new WalletError(`Share ${extra.x} does not match the other shares`);
+    }
+  }
+
+  return interpolate(used, 0).toString('hex');
+}
+
+/**
+ * Encode a share as English BIP39 words (19-31 words, never a valid
+ * mnemonic length) with a checksum
+ */
+export function encodeShare(share: SecretShare): string {
+  const payload = Buffer.concat([
+    Buffer.alloc(SHARE_HEADER_SIZE),
+    Buffer.from(share.value, 'hex')
+  ]);
+  payload.writeUInt32BE(share.identifier, 0);
+  payload[4] = share.threshold;
+  payload[5] = share.index;
+
+  const bytes = Buffer.concat([payload, sha256(payload).slice(0, SHARE_CHECKSUM_SIZE)]);
+  let bits = Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join('');
+  bits = bits.padEnd(Math.ceil(bits.length / BITS_PER_WORD) * BITS_PER_WORD, '0');
+
+  const wordlist = getWordlist('english');
+  const words: string[] = [];
+  for (let i = 0; i < bits.length; i += BITS_PER_WORD) {
+    words.push(wordlist[parseInt(bits.slice(i, i + BITS_PER_WORD), 2)]);
+  }
+  return words.join(' ');
+}
+
+/**
+ * Decode and check a share written as words
+ */
+export function decodeShare(shareWords: string): SecretShare {
+  const wordlist = getWordlist('english');
+  const words = normalizeMnemonic(shareWords).split(' ');
+
+  const byteLength = Math.floor((words.length * BITS_PER_WORD) / 8);
+  const valueLength = byteLength - SHARE_HEADER_SIZE - SHARE_CHECKSUM_SIZE;
+  if (!SECRET_SIZES.includes(valueLength)) {
+    throw new WalletError(`Share has ${words.length} words, which is not a valid share length`);
+  }
+
+  const bits = words.map((word, i) => {
+    const value = wordlist.indexOf(word);
+    if (value === -1) {
+      const suggestions = suggestWords(word);
+      const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '';
+      throw new WalletError(`Share word ${i + 1} "${word}" is not in the wordlist${hint}`);
+    }
+    return value.toString(2).padStart(BITS_PER_WORD, '0');
+  }).join('');
+
+  if (/1/.test(bits.slice(byteLength * 8))) {
+    throw new WalletError('Share checksum mismatch');
+  }
+
+  const bytes = Buffer.alloc(byteLength);
+  for (let i = 0; i < byteLength; i++) {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+
+  const payload = bytes.slice(0, byteLength - SHARE_CHECKSUM_SIZE);
+  if (!sha256(payload).slice(0, SHARE_CHECKSUM_SIZE).equals(bytes.slice(payload.length))) {
+    throw new WalletError('Share checksum mismatch');
+  }
+
+  const share: SecretShare = {
+    identifier: payload.readUInt32BE(0),
+    threshold: payload[4],
+    index: payload[5],
+    value: payload.slice(SHARE_HEADER_SIZE).toString('hex')
+  };
+  if (share.threshold < 2 || share.index < 1) {
+    throw new WalletError('Invalid share header');
+  }
+  return share;
+}
+
+/**
+ * Split the entropy behind a mnemonic into `shareCount` word-encoded shares,
+ * any `threshold` of which restore it. A BIP39 passphrase is not included.
+ */
+export function splitMnemonic(mnemonic: string, threshold: number, shareCount: number): string[] {
+  const validation = diagnoseMnemonic(mnemonic);
+  if (!validation.valid) {
+    throw new WalletError(`Invalid BIP39 mnemonic phrase (${validation.errors.join(', ')})`);
+  }
+
+  const entropy = bip39.mnemonicToEntropy(validation.normalized, getWordlist(validation.language));
+  return splitSecret(entropy, threshold, shareCount).map(encodeShare);
+}
+
+/**
+ * Restore a mnemonic from word-encoded shares. Shares do not record the
+ * wordlist, so pass `language` for mnemonics that were not English.
+ */
+export function recoverMnemonic(shares: string[], language: MnemonicLanguage = 'english'): string {
+  return bip39.entropyToMnemonic(combineShares(shares.map(decodeShare)), getWordlist(language));
+}
+
+// Lagrange interpolation of the byte-wise polynomials through `points` at `x`
+function interpolate(points: Array<{ x: number; y: Buffer }>, x: number): Buffer {
+  const result = Buffer.alloc(points[0].y.length);
+
+  points.forEach((point, i) => {
+    let basis = 1;
+    points.forEach((other, j) => {
+      if (i !== j) {
+        basis = gfMultiply(basis, gfDivide(x ^ other.x, point.x ^ other.x));
+      }
+    });
+    for (let k = 0; k < result.length; k++) {
+      result[k] ^= gfMultiply(point.y[k], basis);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,129 @@
+/**
+ * TETSUO Wallet SDK - ECDSA Signatures (RFC6979 nonces, low-S, DER)
+ */
+
+import { SerializationError, SigningError, WalletError } from './types';
+
+const EC = require('elliptic').ec;
+const ec = new EC('secp256k1');
+
+const CURVE_ORDER = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
+const HALF_CURVE_ORDER = CURVE_ORDER / 2n;
+
+/**
+ * Sign a 32-byte digest with a private key (hex). elliptic derives the nonce
+ * with RFC6979 (HMAC-SHA256), so the same key and digest always give the same
+ * signature, and `canonical` keeps S in the lower half of the curve order.
+ * Returns the DER encoding (hex).
+ */
+export function signHash(privateKey: string, hash: Buffer): string {
+  checkPrivateKey(privateKey);
+  const signature = ec.keyFromPrivate(privateKey, 'hex').sign(checkHash(hash), { canonical: true });
+  return Buffer.from(signature.toDER()).toString('hex');
+}
+
+/**
+ * Check a DER signature (hex, without a sighash byte) over a 32-byte digest.
+ * High-S signatures are rejected, as nodes refuse to relay them.
+ */
+export function verifySignature(hash: Buffer, signature: string, publicKey: string): boolean {
+  let r: string;
+  let s: string;
+  try {
+    ({ r, s } = decodeDERSignature(signature));
+    checkHash(hash);
+  } catch {
+    return false;
+  }
+
+  if (!isLowS(s)) {
+    return false;
+  }
+
+  try {
+    return ec.verify(hash, { r, s }, ec.keyFromPublic(publicKey, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an S value (hex) is in the lower half of the curve order
+ */
+export function isLowS(s: string): boolean {
+  return BigInt('0x' + s) <= HALF_CURVE_ORDER;
+}
+
+/**
+ * Re-encode a DER signature with a low S value (n - s for a high one)
+ */
+export function normalizeSignature(signature: string): string {
+  const { r, s } = decodeDERSignature(signature);
+  return encodeDERSignature(r, isLowS(s) ? s : toHex32(CURVE_ORDER - BigInt('0x' + s)));
+}
+
+/**
+ * DER-encode r and s (hex)
+ */
+export function encodeDERSignature(r: string, s: string): string {
+  const encodeInteger = (value: string): string => {
+    let hex = value.replace(/^0+/, '');
+    if (hex.length % 2) hex = '0' + hex;
+    if (hex === '' || parseInt(hex.slice(0, 2), 16) > 0x7f) hex = '00' + hex;
+    return '02' + (hex.length / 2).toString(16).padStart(2, '0') + hex;
+  };
+
+  const body = encodeInteger(r) + encodeInteger(s);
+  return '30' + (body.length / 2).toString(16).padStart(2, '0') + body;
+}
+
+/**
+ * Split a DER signature into 32-byte r and s values (hex)
+ */
+export function decodeDERSignature(signature: string): { r: string; s: string } {
+  const bytes = Buffer.from(signature, 'hex');
+  const readInteger = (offset: number): { value: string; end: number } => {
+    const length = bytes[offset + 1];
+    if (bytes[offset] !== 0x02 || !length || offset + 2 + length > bytes.length) {
+      throw new SerializationError('Invalid DER signature');
+    }
+    const value = bytes.slice(offset + 2, offset + 2 + length).toString('hex').replace(/^(00)+/, '');
+    if (value.length > 64) {
+      throw new SerializationError('Invalid DER signature');
+    }
+    return { value: value.padStart(64, '0'), end: offset + 2 + length };
+  };
+
+  if (bytes.toString('hex') !== signature.toLowerCase() || bytes[0] !== 0x30 || bytes[1] !== bytes.length - 2) {
+    throw new SerializationError('Invalid DER signature');
+  }
+
+  const r = readInteger(2);
+  const s = readInteger(r.end);
+  if (s.end !== bytes.length) {
+    throw new SerializationError('Invalid DER signature');
+  }
+
+  return { r: r.value, s: s.value };
+}
+
+function checkPrivateKey(privateKey: string): void {
+  if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new WalletError('Invalid private key. Must be 64 hex characters.');
+  }
+  const d = BigInt('0x' + privateKey);
+  if (d === 0n || d >= CURVE_ORDER) {
+    throw new WalletError('Invalid private key: out of range');
+  }
+}
+
+function checkHash(hash: Buffer): Buffer {
+  if (hash.length !== 32) {
+    throw new SigningError('Signature hash must be 32 bytes');
+  }
+  return hash;
+}
+
+function toHex32(value: bigint): string {
+  return value.toString(16).padStart(64, '0');
+}
@@ -0,0 +1,136 @@
+/**
+ * TETSUO Wallet SDK - Signers (in-memory keys and external signing processes)
+ */
+
+import { execFile } from 'child_process';
+import { derivePublicKey } from './wallet';
+import { normalizeSignature, signHash, verifySignature } from './signature';
+import { ExternalSignerOptions, Signer, SigningError } from './types';
+
+const DEFAULT_EXTERNAL_SIGNER_TIMEOUT = 60_000;
+
+/**
+ * Signer for a private key (hex) held in process memory, signing with
+ * RFC6979 nonces
+ */
+export function createPrivateKeySigner(privateKey: string): Signer {
+  const publicKey = derivePublicKey(privateKey);
+
+  return {
+    getPublicKey: async () => publicKey,
+    signHash: async (hash: Buffer) => signHash(privateKey, hash)
+  };
+}
+
+// Response line an external signer writes to stdout
+interface ExternalSignerResponse {
+  publicKey?: string;
+  signature?: string;
+  error?: string;
+}
+
+/**
+ * Signer that runs an external command (for example an HSM or hardware wallet
+ * bridge) once per request. The command reads one JSON request from stdin
+ * and writes one JSON response to stdout:
+ *
+ *   {"method":"getPublicKey"}             -> {"publicKey":"02..."}
+ *   {"method":"signHash","hash":"<hex>"}  -> {"signature":"<DER hex>"}
+ *
+ * A non-zero exit status or an {"error":"..."} response fails the request.
+ * Signatures are normalized to low-S and checked against the public key
+ * before they are used.
+ */
+export function createExternalSigner(command: string, options: ExternalSignerOptions = {}): Signer {
+  let publicKey: Promise<string> | undefined;
+
+  const request = async (body: { method: string; hash?: string }): Promise<ExternalSignerResponse> => {
+    const output = await new Promise<string>((resolve, reject) => {
+      const child = execFile(
+        command,
+        options.args ?? [],
+        { encoding: 'utf-8', timeout: options.timeout ?? DEFAULT_EXTERNAL_SIGNER_TIMEOUT },
+        (error, stdout, stderr) => {
+          if (error) {
+            const detail = stderr.trim();
+            reject(new SigningError(`External signer failed: ${detail || error.message}`, { cause: error }));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+      // A command that exits without reading stdin is reported by the callback
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(JSON.stringify(body));
+    });
+
+    const response = parseExternalSignerResponse(output);
+    if (response.error !== undefined) {
+      throw new SigningError(`External signer failed: ${response.error}`);
+    }
+    return response;
+  };
+
+  const getPublicKey = (): Promise<string> => {
+    publicKey ??= request({ method: 'getPublicKey' }).then(({ publicKey: key }) => {
+      if (key === undefined || !/^0[23][0-9a-fA-F]{64}$/.test(key)) {
+        throw new SigningError('External signer returned an invalid public key');
+      }
+      return key.toLowerCase();
+    });
+    // Let a later call retry after a failure (for example a locked device)
+    publicKey.catch(() => {
+      publicKey = undefined;
+    });
+    return publicKey;
+  };
+
+  return {
+    getPublicKey,
+    signHash: async (hash: Buffer) => {
+      const key = await getPublicKey();
+      const { signature } = await request({ method: 'signHash', hash: hash.toString('hex') });
+      if (signature === undefined) {
+        throw new SigningError('External signer returned no signature');
+      }
+
+      let normalized: string;
+      try {
+        normalized = normalizeSignature(signature);
+      } catch (error) {
+        throw new SigningError('External signer returned an invalid signature', { cause: error });
+      }
+      if (!verifySignature(hash, normalized, key)) {
+        throw new SigningError('External signer returned a signature that does not match its public key');
+      }
+      return normalized;
+    }
+  };
+}
+
+// Parse stdout into a response object whose known fields are all strings
+function parseExternalSignerResponse(output: string): ExternalSignerResponse {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch (error) {
+    throw new SigningError('External signer returned invalid JSON', { cause: error });
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new SigningError('External signer returned invalid JSON');
+  }
+
+  const fields = parsed as Record<string, unknown>;
+  const response: ExternalSignerResponse = {};
+  for (const field of ['publicKey', 'signature', 'error'] as const) {
+    const value = fields[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new SigningError(`External signer returned a non-string ${field}`);
+    }
+    response[field] = value;
+  }
+  return response;
+}
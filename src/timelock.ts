@@ -0,0 +1,169 @@
+/**
+ * TETSUO Wallet SDK - Absolute Locktime & Relative Timelocks (BIP65/68/112)
+ */
+
+import { decodeTimelockScript } from './script';
+import { RelativeLock, UTXO, WalletError } from './types';
+
+/** Locktimes below this are block heights, at or above are Unix timestamps */
+export const LOCKTIME_THRESHOLD = 500_000_000;
+
+/** Input sequence that opts out of replacement and timelocks */
+export const SEQUENCE_FINAL = 0xffffffff;
+
+/** Input sequence signalling opt-in replace-by-fee (BIP125) */
+export const SEQUENCE_RBF = 0xfffffffd;
+
+/** Sequence that enables the transaction locktime without signalling RBF */
+export const SEQUENCE_ENABLE_LOCKTIME = 0xfffffffe;
+
+/** BIP68: sequence bit that disables the relative lock */
+export const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+
+/** BIP68: sequence bit selecting time-based (512 second units) relative locks */
+export const SEQUENCE_LOCKTIME_TYPE_FLAG = 0x00400000;
+
+/** BIP68: bits holding the relative lock value */
+export const SEQUENCE_LOCKTIME_MASK = 0x0000ffff;
+
+/** BIP68: time-based relative locks count in units of 2^9 = 512 seconds */
+export const SEQUENCE_LOCKTIME_GRANULARITY = 512;
+
+/**
+ * Encode a relative lock as an input sequence. Time locks are rounded up to
+ * the next 512 second unit.
+ */
+export function encodeRelativeLock(lock: RelativeLock): number {
+  if ('blocks' in lock) {
+    if (!Number.isInteger(lock.blocks) || lock.blocks < 1 || lock.blocks > SEQUENCE_LOCKTIME_MASK) {
+      throw new WalletError(`Relative lock must be between 1 and ${SEQUENCE_LOCKTIME_MASK} blocks`);
+    }
+    return lock.blocks;
+  }
+
+  const units = Math.ceil(lock.seconds / SEQUENCE_LOCKTIME_GRANULARITY);
+  if (!Number.isFinite(units) || units < 1 || units > SEQUENCE_LOCKTIME_MASK) {
+    throw new WalletError(`Relative lock must be between 1 and ${SEQUENCE_LOCKTIME_MASK * SEQUENCE_LOCKTIME_GRANULARITY} seconds`);
+  }
+  return SEQUENCE_LOCKTIME_TYPE_FLAG | units;
+}
+
+/**
+ * Decode the relative lock an input sequence enforces, if any
+ */
+export function decodeRelativeLock(sequence: number): RelativeLock | undefined {
+  if (sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) {
+    return undefined;
+  }
+
+  const value = sequence & SEQUENCE_LOCKTIME_MASK;
+  return sequence & SEQUENCE_LOCKTIME_TYPE_FLAG
+    ? { seconds: value * SEQUENCE_LOCKTIME_GRANULARITY }
+    : { blocks: value };
+}
+
+/**
+ * Whether an input sequence enforces a non-zero relative lock
+ */
+export function hasRelativeLock(sequence: number): boolean {
+  return !(sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) && (sequence & SEQUENCE_LOCKTIME_MASK) > 0;
+}
+
+/**
+ * Whether a locktime is a Unix timestamp (true) or a block height (false)
+ */
+export function isTimestampLocktime(locktime: number): boolean {
+  return locktime >= LOCKTIME_THRESHOLD;
+}
+
+/**
+ * BIP65 check: can input `inputIndex` of `tx` satisfy OP_CHECKLOCKTIMEVERIFY
+ * with `required`? Returns the reason it cannot, or undefined.
+ */
+export function checkLockTimeVerify(
+  tx: { inputs: Array<{ sequence?: number }>; locktime: number },
+  inputIndex: number,
+  required: number
+): string | undefined {
+  if (isTimestampLocktime(tx.locktime) !== isTimestampLocktime(required)) {
+    return `Input ${inputIndex} requires a ${isTimestampLocktime(required) ? 'timestamp' : 'block height'} locktime`;
+  }
+  if (tx.locktime < required) {
+    return `Input ${inputIndex} requires locktime of at least ${required}`;
+  }
+  if ((tx.inputs[inputIndex].sequence ?? SEQUENCE_FINAL) === SEQUENCE_FINAL) {
+    return `Input ${inputIndex} has a final sequence, so the locktime is not enforced`;
+  }
+  return undefined;
+}
+
+/**
+ * BIP112 check: can input `inputIndex` of `tx` satisfy OP_CHECKSEQUENCEVERIFY
+ * with relative lock `required`? Returns the reason it cannot, or undefined.
+ */
+export function checkSequenceVerify(
+  tx: { version: number; inputs: Array<{ sequence?: number }> },
+  inputIndex: number,
+  required: number
+): string | undefined {
+  const sequence = tx.inputs[inputIndex].sequence ?? SEQUENCE_FINAL;
+
+  if (tx.version < 2) {
+    return `Input ${inputIndex} has a relative lock, which requires transaction version 2`;
+  }
+  if (sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) {
+    return `Input ${inputIndex} sequence disables its relative lock`;
+  }
+  if ((sequence & SEQUENCE_LOCKTIME_TYPE_FLAG) !== (required & SEQUENCE_LOCKTIME_TYPE_FLAG)) {
+    return `Input ${inputIndex} requires a ${required & SEQUENCE_LOCKTIME_TYPE_FLAG ? 'time' : 'block'} based relative lock`;
+  }
+  if ((sequence & SEQUENCE_LOCKTIME_MASK) < (required & SEQUENCE_LOCKTIME_MASK)) {
+    return `Input ${inputIndex} relative lock is shorter than the script requires`;
+  }
+  return undefined;
+}
+
+/**
+ * Check that the locktime and sequences of a transaction are enforceable:
+ * a non-zero locktime needs a non-final input, relative locks need version 2,
+ * and inputs spending CLTV/CSV redeem scripts (from `utxos`, aligned with
+ * `inputs`) must satisfy them. Throws a WalletError listing every problem.
+ */
+export function validateTimelocks(
+  tx: { version: number; inputs: Array<{ sequence?: number }>; locktime: number },
+  utxos: Array<Pick<UTXO, 'redeemScript'> | undefined> = []
+): void {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(tx.locktime) || tx.locktime < 0 || tx.locktime > 0xffffffff) {
+    errors.push('Locktime must be between 0 and 4294967295');
+  } else if (tx.locktime > 0 && tx.inputs.every(input => (input.sequence ?? SEQUENCE_FINAL) === SEQUENCE_FINAL)) {
+    errors.push('Locktime is not enforced because every input sequence is final');
+  }
+
+  tx.inputs.forEach((input, i) => {
+    const sequence = input.sequence ?? SEQUENCE_FINAL;
+    if (!Number.isInteger(sequence) || sequence < 0 || sequence > SEQUENCE_FINAL) {
+      errors.push(`Input ${i} sequence must be between 0 and 4294967295`);
+      return;
+    }
+    if (hasRelativeLock(sequence) && tx.version < 2) {
+      errors.push(`Input ${i} has a relative lock, which requires transaction version 2`);
+    }
+
+    const redeemScript = utxos[i]?.redeemScript;
+    const timelock = redeemScript ? decodeTimelockScript(redeemScript) : undefined;
+    if (timelock) {
+      const error = timelock.type === 'cltv'
+        ? checkLockTimeVerify(tx, i, timelock.value)
+        : checkSequenceVerify(tx, i, timelock.value);
+      if (error && !errors.includes(error)) {
+        errors.push(error);
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new WalletError(`Invalid timelocks: ${errors.join('; ')}`);
+  }
+}
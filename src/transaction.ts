@@ -2,104 +2,239 @@
  * TETSUO Wallet SDK - Transaction Building & Signing
  */
 
-import { createHmac } from 'crypto';
-import { doubleSha256, toHex, fromHex } from './crypto';
-import { validateAddress, addressToHash160 } from './address';
-import { SignedTransaction, TransactionInput, TransactionOutput, UTXO, InsufficientFundsError, WalletError } from './types';
-import { derivePublicKey, derivePublicKeyLegacy } from './wallet';
+import { doubleSha256, fromHex, readVarInt, writeVarInt } from './crypto';
+import { validateAddress } from './address';
+import { MAINNET } from './network';
+import {
+  MAX_DATA_CARRIER_SIZE,
+  addressToScriptPubKey,
+  decodeDataScript,
+  decodeTimelockScript,
+  getOutputScript,
+  scriptToAddress
+} from './script';
+import {
+  SEQUENCE_ENABLE_LOCKTIME,
+  SEQUENCE_FINAL,
+  SEQUENCE_RBF,
+  hasRelativeLock,
+  validateTimelocks
+} from './timelock';
+import { DUST_THRESHOLD, selectCoins } from './coinselect';
+import {
+  DEFAULT_FEE_RATE,
+  calculateFee,
+  estimateP2PKHTransactionSize,
+  estimateSignedTransactionSize,
+  resolveFeeRate
+} from './fee';
+import { sumAmounts } from './amount';
+import {
+  Amount,
+  BuildTransactionOptions,
+  DecodedInput,
+  DecodedOutput,
+  DecodedTransaction,
+  PaymentRecipient,
+  SignedTransaction,
+  Signer,
+  TransactionData,
+  TransactionInput,
+  TransactionOutput,
+  UTXO,
+  InsufficientFundsError,
+  Network,
+  SerializationError,
+  SigningError,
+  WalletError
+} from './types';
+import { derivePublicKeyLegacy } from './wallet';
+import { createPrivateKeySigner } from './signer';
+import { normalizeSignature } from './signature';
 import { hash160 } from './crypto';
 
-const COIN_VALUE = 100_000_000; // 1 TETSUO = 100M satoshis
-const MIN_FEE = 150000; // Minimum fee in satoshis (0.0015 TETSUO) - safe margin above network min
-const FEE_PER_BYTE = 200; // Satoshis per byte
-
 /**
  * Build an unsigned transaction
  */
 export function buildTransaction(
   fromAddress: string,
   toAddress: string,
-  amount: number,
+  amount: Amount,
   utxos: UTXO[],
-  changeAddress: string
-): { inputs: TransactionInput[]; outputs: TransactionOutput[]; fee: number } {
-  // Validate addresses
-  validateAddress(fromAddress);
-  validateAddress(toAddress);
-  validateAddress(changeAddress);
-
-  // Convert TETSUO to satoshis
-  const amountSatoshis = Math.floor(amount * COIN_VALUE);
-
-  // Select UTXOs (simple algorithm: oldest first)
-  let selectedUTXOs: UTXO[] = [];
-  let totalInput = 0;
+  changeAddress: string,
+  options: BuildTransactionOptions = {}
+): TransactionData {
+  return buildBatchTransaction(fromAddress, [{ address: toAddress, amount }], utxos, changeAddress, options);
+}
 
-  const sortedUTXOs = [...utxos].sort((a, b) => a.confirmations - b.confirmations);
+/**
+ * Build an unsigned transaction paying several recipients at once.
+ * Outputs follow the order of `recipients`, with change (if any) last.
+ */
+export function buildBatchTransaction(
+  fromAddress: string,
+  recipients: PaymentRecipient[],
+  utxos: UTXO[],
+  changeAddress: string,
+  options: BuildTransactionOptions = {}
+): TransactionData {
+  if (recipients.length === 0) {
+    throw new WalletError('At least one recipient is required');
+  }
 
-  for (const utxo of sortedUTXOs) {
-    selectedUTXOs.push(utxo);
-    totalInput += utxo.value;
+  // Validate addresses
+  const network = options.network ?? MAINNET;
+  validateAddress(fromAddress, network);
+  validateAddress(changeAddress, network);
 
-    // Estimate fee (rough estimate)
-    const estimatedSize = selectedUTXOs.length * 148 + 2 * 34 + 10; // inputs + outputs + overhead
-    const estimatedFee = Math.max(MIN_FEE, Math.ceil(estimatedSize / 1000) * FEE_PER_BYTE);
+  const payments = recipients.map((recipient, i) => {
+    validateAddress(recipient.address, network);
 
-    if (totalInput >= amountSatoshis + estimatedFee) {
-      break;
+    if (typeof recipient.amount !== 'bigint') {
+      throw new WalletError(`Recipient ${i + 1} amount must be an Amount (bigint satoshis); use parseAmount for TETSUO`);
+    }
+    if (recipient.amount < DUST_THRESHOLD) {
+      throw new WalletError(`Recipient ${i + 1} amount is below the dust threshold (${DUST_THRESHOLD} satoshis)`);
     }
-  }
-
-  // Calculate final fee
-  const inputSize = selectedUTXOs.length * 148;
-  const outputSize = 2 * 34; // Send + change
-  const overhead = 10;
-  const txSize = inputSize + outputSize + overhead;
-  const fee = Math.max(MIN_FEE, Math.ceil(txSize / 1000) * FEE_PER_BYTE);
 
-  if (totalInput < amountSatoshis + fee) {
-    throw new InsufficientFundsError(amountSatoshis + fee, totalInput);
-  }
+    return { address: recipient.address, value: recipient.amount };
+  });
+  const amountSatoshis = sumAmounts(payments.map(payment => payment.value));
+  const dataOutputs = options.memo !== undefined ? [createMemoOutput(options.memo, options.maxDataSize)] : [];
+
+  // Fee scales with the signed size of the selected inputs and outputs
+  const feeRate = resolveFeeRate(options.feeRate, undefined, network);
+  const paymentScripts = [...payments, ...dataOutputs].map(output => getOutputScript(output, network));
+  const changeScript = addressToScriptPubKey(changeAddress, network);
+
+  // Select UTXOs (oldest first unless the caller picks a strategy)
+  const { inputs: selectedUTXOs, fee, change } = selectCoins(utxos, amountSatoshis, {
+    strategy: options.coinSelection,
+    calculateFee: (selected, hasChange) => calculateFee(
+      estimateSignedTransactionSize(selected, hasChange ? [...paymentScripts, changeScript] : paymentScripts),
+      feeRate
+    )
+  });
 
   // Build inputs
-  const inputs: TransactionInput[] = selectedUTXOs.map(utxo => ({
-    txid: utxo.txid,
-    vout: utxo.vout,
-    sequence: 0xffffffff
-  }));
+  const { inputs, version, locktime } = createTimelockedInputs(selectedUTXOs, options);
 
   // Build outputs
-  const outputs: TransactionOutput[] = [
-    {
-      address: toAddress,
-      value: amountSatoshis
-    }
-  ];
+  const outputs: TransactionOutput[] = payments.map(payment => ({
+    address: payment.address,
+    value: payment.value
+  }));
+  outputs.push(...dataOutputs);
 
   // Add change output if needed
-  const change = totalInput - amountSatoshis - fee;
-  if (change > 0) {
+  if (change > 0n) {
     outputs.push({
       address: changeAddress,
       value: change
     });
   }
 
-  return { inputs, outputs, fee };
+  return { inputs, outputs, fee, version, locktime };
 }
 
 /**
- * Create transaction hex from inputs and outputs
+ * Build an unsigned transaction that spends every UTXO in `utxos` to a single
+ * address, taking the fee out of the output (send-max / sweep). Pass a subset
+ * of UTXOs to sweep only those.
+ */
+export function buildSweepTransaction(
+  fromAddress: string,
+  toAddress: string,
+  utxos: UTXO[],
+  options: Omit<BuildTransactionOptions, 'coinSelection'> = {}
+): TransactionData {
+  const network = options.network ?? MAINNET;
+  validateAddress(fromAddress, network);
+  validateAddress(toAddress, network);
+
+  if (utxos.length === 0) {
+    throw new WalletError('No UTXOs to sweep');
+  }
+
+  const totalInput = sumAmounts(utxos.map(utxo => utxo.value));
+  const dataOutputs = options.memo !== undefined ? [createMemoOutput(options.memo, options.maxDataSize)] : [];
+  const fee = calculateFee(
+    estimateSignedTransactionSize(utxos, [addressToScriptPubKey(toAddress, network), ...dataOutputs.map(output => getOutputScript(output))]),
+    resolveFeeRate(options.feeRate, undefined, network)
+  );
+
+  const value = totalInput - fee;
+  if (value < DUST_THRESHOLD) {
+    throw new InsufficientFundsError(fee + DUST_THRESHOLD, totalInput);
+  }
+
+  const { inputs, version, locktime } = createTimelockedInputs(utxos, options);
+
+  return { inputs, outputs: [{ address: toAddress, value }, ...dataOutputs], fee, version, locktime };
+}
+
+/**
+ * OP_RETURN output carrying a memo, checked against the data size limit
+ */
+function createMemoOutput(memo: string | Buffer, maxDataSize: number = MAX_DATA_CARRIER_SIZE): TransactionOutput {
+  const data = Buffer.isBuffer(memo) ? memo : Buffer.from(memo, 'utf-8');
+
+  if (data.length === 0) {
+    throw new WalletError('Memo must not be empty');
+  }
+  if (data.length > maxDataSize) {
+    throw new WalletError(`Memo is ${data.length} bytes, above the ${maxDataSize} byte limit`);
+  }
+
+  return { value: 0n, data: data.toString('hex') };
+}
+
+/**
+ * Inputs for the chosen UTXOs with their sequences, plus the version and
+ * locktime they need. CLTV/CSV redeem scripts supply a default locktime and
+ * sequence; the result is checked with validateTimelocks.
+ */
+function createTimelockedInputs(
+  utxos: UTXO[],
+  options: Pick<BuildTransactionOptions, 'replaceable' | 'locktime' | 'version'>
+): { inputs: TransactionInput[]; version: number; locktime: number } {
+  const timelocks = utxos.map(utxo => utxo.redeemScript ? decodeTimelockScript(utxo.redeemScript) : undefined);
+
+  const requiredLocktimes = timelocks.filter(lock => lock?.type === 'cltv').map(lock => lock!.value);
+  const locktime = options.locktime ?? (requiredLocktimes.length > 0 ? Math.max(...requiredLocktimes) : 0);
+
+  // A non-final sequence is what makes the locktime count
+  const defaultSequence = options.replaceable
+    ? SEQUENCE_RBF
+    : locktime > 0 ? SEQUENCE_ENABLE_LOCKTIME : SEQUENCE_FINAL;
+
+  const inputs: TransactionInput[] = utxos.map((utxo, i) => ({
+    txid: utxo.txid,
+    vout: utxo.vout,
+    sequence: utxo.sequence ?? (timelocks[i]?.type === 'csv' ? timelocks[i]!.value : defaultSequence)
+  }));
+
+  const version = options.version ?? (inputs.some(input => hasRelativeLock(input.sequence!)) ? 2 : 1);
+
+  validateTimelocks({ version, inputs, locktime }, utxos);
+
+  return { inputs, version, locktime };
+}
+
+/**
+ * Create transaction hex from inputs and outputs. Output addresses must
+ * belong to `options.network` (default MAINNET).
  */
 export function createTransactionHex(
   inputs: TransactionInput[],
   outputs: TransactionOutput[],
-  scriptPubKeys?: string[]
+  scriptPubKeys?: string[],
+  options: { version?: number; locktime?: number; network?: Network } = {}
 ): string {
   let hex = '';
 
   // Version (4 bytes)
-  hex += '01000000';
+  hex += encodeUInt32LE(options.version ?? 1);
 
   // Input count (variable length int)
   hex += encodeVarInt(inputs.length);
@@ -134,185 +269,237 @@ export function createTransactionHex(
   // Outputs
   for (const output of outputs) {
     // Value (8 bytes, little endian)
-    const valueHex = output.value.toString(16).padStart(16, '0');
-    hex += reverseBytesInPairs(valueHex);
+    const value = Buffer.alloc(8);
+    value.writeBigUInt64LE(output.value);
+    hex += value.toString('hex');
 
-    // Script pubkey (pay to pubkey hash)
-    const hash160 = addressToHash160(output.address);
-    const scriptPubKey = createPayToPubKeyHashScript(hash160);
+    // Script pubkey (P2PKH or P2SH for addresses, OP_RETURN for data)
+    const scriptPubKey = getOutputScript(output, options.network);
     hex += encodeVarInt(scriptPubKey.length / 2);
     hex += scriptPubKey;
   }
 
   // Locktime (4 bytes)
-  hex += '00000000';
+  hex += encodeUInt32LE(options.locktime ?? 0);
 
   return hex;
 }
 
 /**
- * Sign a transaction with proper TETSUO key derivation
+ * Decode a serialized transaction into its fields. Output addresses are
+ * encoded for `network` (default MAINNET).
  */
-export function signTransaction(
-  transactionHex: string,
-  privateKey: string,
-  inputs: TransactionInput[],
-  utxos?: any[]
-): string {
-  try {
-    const EC = require('elliptic').ec;
-    const ec = new EC('secp256k1');
-
-    // Auto-detect wallet type (HMAC vs secp256k1) by comparing hash160 with scriptPubKey
-    let pubKeyCompressed = '';
-    let derivationMethod = 'secp256k1';
-
-    // First try secp256k1 (new wallets)
-    pubKeyCompressed = derivePublicKey(privateKey);
-
-    // If we have UTXOs with P2PKH scripts, detect which derivation method to use
-    if (utxos && utxos.length > 0 && utxos[0].scriptPubKey) {
-      const scriptPubKey = utxos[0].scriptPubKey;
-
-      // For P2PKH scripts: 76a914 + 20bytes + 88ac
-      if (scriptPubKey.startsWith('76a914') && scriptPubKey.length === 50) {
-        const hashFromScript = scriptPubKey.slice(6, 46); // Extract hash160 from script
-
-        // Check secp256k1
-        const hash160Secp = hash160(fromHex(pubKeyCompressed)).toString('hex');
-        if (hash160Secp === hashFromScript) {
-          derivationMethod = 'secp256k1';
-        } else {
-          // Try legacy HMAC derivation
-          const pubKeyLegacy = derivePublicKeyLegacy(privateKey);
-          const hash160Hmac = hash160(fromHex(pubKeyLegacy)).toString('hex');
-          if (hash160Hmac === hashFromScript) {
-            pubKeyCompressed = pubKeyLegacy;
-            derivationMethod = 'hmac';
-          }
-          // else: keep secp256k1 as fallback (shouldn't happen for valid wallets)
-        }
-      }
+export function decodeTransaction(transactionHex: string, network: Network = MAINNET): DecodedTransaction {
+  if (!/^([0-9a-fA-F]{2})+$/.test(transactionHex)) {
+    throw new SerializationError('Invalid transaction hex');
+  }
+
+  const buffer = fromHex(transactionHex);
+  let offset = 0;
+
+  const take = (length: number): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new Error('unexpected end of data');
     }
+    const slice = buffer.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
 
-    const pubKeyBuffer = fromHex(pubKeyCompressed);
+  const takeVarInt = (): number => {
+    const { value, size } = readVarInt(buffer, offset);
+    take(size);
+    return value;
+  };
 
-    // Store all scriptSigs
-    const scriptSigs: string[] = [];
+  try {
+    const version = take(4).readUInt32LE(0);
+
+    const inputCount = takeVarInt();
+    const inputs: DecodedInput[] = [];
+    for (let i = 0; i < inputCount; i++) {
+      const txid = Buffer.from(take(32)).reverse().toString('hex');
+      const vout = take(4).readUInt32LE(0);
+      const scriptSig = take(takeVarInt()).toString('hex');
+      const sequence = take(4).readUInt32LE(0);
+      inputs.push({ txid, vout, scriptSig, sequence });
+    }
 
-    // Sign each input
-    for (let i = 0; i < inputs.length; i++) {
-      let scriptPubKey = '';
-      if (utxos && utxos[i] && utxos[i].scriptPubKey) {
-        scriptPubKey = utxos[i].scriptPubKey;
-      } else {
-        throw new Error('Missing UTXO scriptPubKey for input ' + i);
-      }
+    const outputCount = takeVarInt();
+    const outputs: DecodedOutput[] = [];
+    for (let i = 0; i < outputCount; i++) {
+      const value = take(8).readBigUInt64LE(0);
+      const scriptPubKey = take(takeVarInt()).toString('hex');
+      outputs.push({ value, scriptPubKey, address: scriptToAddress(scriptPubKey, network), data: decodeDataScript(scriptPubKey) });
+    }
 
-      // Create preimage: transaction with this input's scriptPubKey in place of scriptSig
-      let preimageHex = '01000000'; // Version
-      preimageHex += encodeVarInt(inputs.length);
+    const locktime = take(4).readUInt32LE(0);
 
-      // Add inputs with scriptPubKey for the one being signed
-      for (let j = 0; j < inputs.length; j++) {
-        const input = inputs[j];
-        preimageHex += reverseTxid(input.txid);
-        preimageHex += reverseBytesInPairs(input.vout.toString(16).padStart(8, '0'));
+    if (offset !== buffer.length) {
+      throw new Error('trailing data');
+    }
 
-        if (j === i) {
-          // This is the input we're signing - use scriptPubKey
-          preimageHex += encodeVarInt(scriptPubKey.length / 2);
-          preimageHex += scriptPubKey;
-        } else {
-          // Other inputs - empty script
-          preimageHex += '00';
-        }
+    return {
+      txid: Buffer.from(doubleSha256(buffer)).reverse().toString('hex'),
+      version,
+      inputs,
+      outputs,
+      locktime,
+      size: buffer.length
+    };
+  } catch (error) {
+    throw new SerializationError(`Failed to decode transaction: ${(error as Error).message}`, { cause: error });
+  }
+}
 
-        preimageHex += reverseBytesInPairs((input.sequence ?? 0xffffffff).toString(16).padStart(8, '0'));
-      }
+/**
+ * Serialize transaction fields to hex (inverse of decodeTransaction)
+ */
+export function encodeTransaction(transaction: {
+  version: number;
+  inputs: Array<Pick<DecodedInput, 'txid' | 'vout'> & Partial<Pick<DecodedInput, 'scriptSig' | 'sequence'>>>;
+  outputs: Array<Pick<DecodedOutput, 'value' | 'scriptPubKey'>>;
+  locktime: number;
+}): string {
+  let hex = reverseBytesInPairs(transaction.version.toString(16).padStart(8, '0'));
+
+  hex += encodeVarInt(transaction.inputs.length);
+  for (const input of transaction.inputs) {
+    const scriptSig = input.scriptSig ?? '';
+    hex += reverseTxid(input.txid);
+    hex += reverseBytesInPairs(input.vout.toString(16).padStart(8, '0'));
+    hex += encodeVarInt(scriptSig.length / 2) + scriptSig;
+    hex += reverseBytesInPairs((input.sequence ?? 0xffffffff).toString(16).padStart(8, '0'));
+  }
 
-      // Add outputs (from original unsigned tx)
-      const outputPos = findOutputsPositionInHex(transactionHex, inputs.length);
-      preimageHex += transactionHex.slice(outputPos);
+  hex += encodeVarInt(transaction.outputs.length);
+  for (const output of transaction.outputs) {
+    hex += reverseBytesInPairs(output.value.toString(16).padStart(16, '0'));
+    hex += encodeVarInt(output.scriptPubKey.length / 2) + output.scriptPubKey;
+  }
 
-      // Add SIGHASH_ALL to preimage (TETSUO specific - must be part of what's hashed)
-      preimageHex += '01000000'; // SIGHASH_ALL in little-endian
+  hex += reverseBytesInPairs(transaction.locktime.toString(16).padStart(8, '0'));
 
-      // Sign preimage
-      const preimageBuffer = fromHex(preimageHex);
-      const preimageHash = doubleSha256(preimageBuffer);
+  return hex;
+}
 
-      const key = ec.keyFromPrivate(privateKey);
-      const signature = key.sign(preimageHash);
+/**
+ * Sign every P2PKH input of a transaction with a private key (hex) or a
+ * Signer. Each input is signed for the public key its UTXO pays; legacy
+ * HMAC-derived public keys are only detected for private keys, since deriving
+ * them needs the key itself. Throws if an input cannot be signed.
+ */
+export async function signTransaction(
+  transactionHex: string,
+  privateKey: string | Signer,
+  inputs: TransactionInput[],
+  utxos?: any[]
+): Promise<string> {
+  const signer = typeof privateKey === 'string' ? createPrivateKeySigner(privateKey) : privateKey;
+  const publicKey = await signer.getPublicKey();
+  const legacyPublicKey = typeof privateKey === 'string' ? derivePublicKeyLegacy(privateKey) : undefined;
 
-      let rHex = signature.r.toString(16).padStart(64, '0');
-      let sHex = signature.s.toString(16).padStart(64, '0');
+  // One request at a time, so an external signer sees inputs in order
+  const scriptSigs: string[] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    const scriptPubKey: string | undefined = utxos?.[i]?.scriptPubKey;
+    if (!scriptPubKey) {
+      throw new SigningError(`Missing UTXO scriptPubKey for input ${i}`, { inputIndex: i });
+    }
 
-      const derSig = encodeDERSignature(rHex, sHex) + '01'; // 01 = SIGHASH_ALL (part of scriptSig format)
+    // Auto-detect wallet type (HMAC vs secp256k1) by comparing hash160 with the input's P2PKH script
+    const inputPublicKey = legacyPublicKey && !paysToPublicKey(scriptPubKey, publicKey) &&
+      paysToPublicKey(scriptPubKey, legacyPublicKey)
+      ? legacyPublicKey
+      : publicKey;
 
-      // Create scriptSig: <sig> <pubkey>
-      const scriptSig = encodeVarInt(derSig.length / 2) + derSig +
-                        encodeVarInt(pubKeyCompressed.length / 2) + pubKeyCompressed;
+    const preimageHash = createSignatureHash(transactionHex, inputs, i, scriptPubKey);
 
-      scriptSigs.push(scriptSig);
-    }
+    // Create scriptSig: <sig> <pubkey>
+    scriptSigs.push(createPayToPubKeyHashScriptSig(await createSignature(signer, preimageHash), inputPublicKey));
+  }
 
-    // Rebuild complete transaction with all scriptSigs
-    let signedHex = '01000000'; // Version
-    signedHex += encodeVarInt(inputs.length);
+  // Rebuild complete transaction with all scriptSigs
+  let signedHex = transactionHex.slice(0, 8); // Version
+  signedHex += encodeVarInt(inputs.length);
 
-    for (let i = 0; i < inputs.length; i++) {
-      const input = inputs[i];
-      signedHex += reverseTxid(input.txid);
-      signedHex += reverseBytesInPairs(input.vout.toString(16).padStart(8, '0'));
-      signedHex += encodeVarInt(scriptSigs[i].length / 2) + scriptSigs[i];
-      signedHex += reverseBytesInPairs((input.sequence ?? 0xffffffff).toString(16).padStart(8, '0'));
-    }
+  for (let i = 0; i < inputs.length; i++) {
+    const input = inputs[i];
+    signedHex += reverseTxid(input.txid);
+    signedHex += reverseBytesInPairs(input.vout.toString(16).padStart(8, '0'));
+    signedHex += encodeVarInt(scriptSigs[i].length / 2) + scriptSigs[i];
+    signedHex += reverseBytesInPairs((input.sequence ?? 0xffffffff).toString(16).padStart(8, '0'));
+  }
 
-    // Add outputs from original
-    const outputPos = findOutputsPositionInHex(transactionHex, inputs.length);
-    signedHex += transactionHex.slice(outputPos);
+  // Add outputs from original
+  const outputPos = findOutputsPositionInHex(transactionHex, inputs.length);
+  signedHex += transactionHex.slice(outputPos);
 
-    return signedHex;
+  return signedHex;
+}
 
-  } catch (error) {
-    try {
-      // Fallback: try simple signing
-      const EC = require('elliptic').ec;
-      const ec = new EC('secp256k1');
+// Whether a P2PKH script (76a914 <hash160> 88ac) pays a public key
+function paysToPublicKey(scriptPubKey: string, publicKey: string): boolean {
+  return scriptPubKey.length === 50 && scriptPubKey.startsWith('76a914') &&
+    scriptPubKey.slice(6, 46) === hash160(fromHex(publicKey)).toString('hex');
+}
 
-      const key = ec.keyFromPrivate(privateKey);
-      const pubKeyUncompressed = key.getPublic('hex');
-      const pubKeyCompressed = (parseInt(pubKeyUncompressed.slice(-2), 16) % 2 === 0 ? '02' : '03') +
-                               pubKeyUncompressed.slice(0, 64);
+/**
+ * Compute the SIGHASH_ALL digest for one input of an unsigned transaction.
+ * The input being signed carries the previous output script; all others are empty.
+ */
+export function createSignatureHash(
+  transactionHex: string,
+  inputs: TransactionInput[],
+  inputIndex: number,
+  scriptPubKey: string
+): Buffer {
+  let preimageHex = transactionHex.slice(0, 8); // Version
+  preimageHex += encodeVarInt(inputs.length);
+
+  for (let j = 0; j < inputs.length; j++) {
+    const input = inputs[j];
+    preimageHex += reverseTxid(input.txid);
+    preimageHex += reverseBytesInPairs(input.vout.toString(16).padStart(8, '0'));
+
+    if (j === inputIndex) {
+      // This is the input we're signing - use scriptPubKey
+      preimageHex += encodeVarInt(scriptPubKey.length / 2);
+      preimageHex += scriptPubKey;
+    } else {
+      // Other inputs - empty script
+      preimageHex += '00';
+    }
 
-      const txHash = doubleSha256(fromHex(transactionHex));
-      const signature = key.sign(txHash);
+    preimageHex += reverseBytesInPairs((input.sequence ?? 0xffffffff).toString(16).padStart(8, '0'));
+  }
 
-      let rHex = signature.r.toString(16).padStart(64, '0');
-      let sHex = signature.s.toString(16).padStart(64, '0');
+  // Add outputs and locktime (from original unsigned tx)
+  const outputPos = findOutputsPositionInHex(transactionHex, inputs.length);
+  preimageHex += transactionHex.slice(outputPos);
 
-      const derSig = encodeDERSignature(rHex, sHex) + '01';
-      const scriptSig = encodeVarInt(derSig.length / 2) + derSig +
-                        encodeVarInt(pubKeyCompressed.length / 2) + pubKeyCompressed;
+  // Add SIGHASH_ALL to preimage (TETSUO specific - must be part of what's hashed)
+  preimageHex += '01000000'; // SIGHASH_ALL in little-endian
 
-      // Replace first input's script
-      let pos = 8; // Skip version
-      pos += 2;   // Skip input count
-      pos += 64;  // Skip txid
-      pos += 8;   // Skip vout
+  return doubleSha256(fromHex(preimageHex));
+}
 
-      const beforeScript = transactionHex.slice(0, pos);
-      const afterScriptStart = pos + 2; // Skip "00"
-      const afterScript = transactionHex.slice(afterScriptStart);
+/**
+ * Sign a sighash digest with a private key or Signer, returning a low-S DER
+ * signature with the SIGHASH_ALL byte appended
+ */
+export async function createSignature(privateKey: string | Signer, hash: Buffer): Promise<string> {
+  const signer = typeof privateKey === 'string' ? createPrivateKeySigner(privateKey) : privateKey;
 
-      return beforeScript + encodeVarInt(scriptSig.length / 2) + scriptSig + afterScript;
+  return normalizeSignature(await signer.signHash(hash)) + '01'; // 01 = SIGHASH_ALL (part of scriptSig format)
+}
 
-    } catch (error2) {
-      console.error('Signing error:', (error as Error).message);
-      return transactionHex;
-    }
-  }
+/**
+ * Build a P2PKH scriptSig: <sig> <pubkey>
+ */
+export function createPayToPubKeyHashScriptSig(signature: string, publicKey: string): string {
+  return encodeVarInt(signature.length / 2) + signature +
+         encodeVarInt(publicKey.length / 2) + publicKey;
 }
 
 /**
@@ -349,15 +536,15 @@ function findOutputsPositionInHex(transactionHex: string, inputCount: number): n
       pos += 2; // varint length
       pos += scriptLen * 2; // script bytes
     } else if (scriptLenHex === 'fd') {
-      scriptLen = parseInt(transactionHex.slice(pos + 2, pos + 6), 16);
+      scriptLen = parseInt(reverseBytesInPairs(transactionHex.slice(pos + 2, pos + 6)), 16);
       pos += 6; // varint length
       pos += scriptLen * 2; // script bytes
     } else if (scriptLenHex === 'fe') {
-      scriptLen = parseInt(transactionHex.slice(pos + 2, pos + 10), 16);
+      scriptLen = parseInt(reverseBytesInPairs(transactionHex.slice(pos + 2, pos + 10)), 16);
       pos += 10; // varint length
       pos += scriptLen * 2; // script bytes
     } else {
-      scriptLen = parseInt(transactionHex.slice(pos + 2, pos + 18), 16);
+      scriptLen = parseInt(reverseBytesInPairs(transactionHex.slice(pos + 2, pos + 18)), 16);
       pos += 18; // varint length
       pos += scriptLen * 2; // script bytes
     }
@@ -369,117 +556,10 @@ function findOutputsPositionInHex(transactionHex: string, inputCount: number): n
 }
 
 /**
- * Encode signature as DER format with canonical S value
- */
-function encodeDERSignature(rHex: string, sHex: string): string {
-  // secp256k1 curve order
-  const curveOrder = 'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141';
-
-  // Check if S is in high form (> n/2) and convert to low form if needed
-  const sValue = BigInt('0x' + sHex);
-  const nValue = BigInt('0x' + curveOrder);
-  const nHalf = nValue / 2n;
-
-  if (sValue > nHalf) {
-    const lowS = nValue - sValue;
-    sHex = lowS.toString(16).toUpperCase().padStart(64, '0');
-  }
-
-  // Remove leading zeros for r
-  rHex = rHex.replace(/^0+/, '');
-  if (rHex.length % 2) rHex = '0' + rHex;
-  if (parseInt(rHex.slice(0, 2), 16) > 0x7f) rHex = '00' + rHex;
-
-  // Remove leading zeros for s
-  sHex = sHex.replace(/^0+/, '');
-  if (sHex.length % 2) sHex = '0' + sHex;
-  if (parseInt(sHex.slice(0, 2), 16) > 0x7f) sHex = '00' + sHex;
-
-  const rLen = (rHex.length / 2).toString(16).padStart(2, '0');
-  const sLen = (sHex.length / 2).toString(16).padStart(2, '0');
-
-  // Calculate total content length in bytes:
-  // 02 + rLen + rHex + 02 + sLen + sHex
-  // = (2 + 2 + 64 + 2 + 2 + 64) chars / 2 = 68 bytes
-  const contentBytes = (2 + rLen.length + rHex.length + 2 + sLen.length + sHex.length) / 2;
-  const contentLength = contentBytes.toString(16).padStart(2, '0');
-
-  return '30' + contentLength +
-         '02' + rLen + rHex +
-         '02' + sLen + sHex;
-}
-
-/**
- * Find where outputs start in transaction buffer
- */
-function findOutputsStart(buffer: Buffer, inputCount: number): number {
-  let pos = 4; // Skip version
-
-  // Skip input count varint
-  if (buffer[pos] < 0xfd) pos += 1;
-  else if (buffer[pos] === 0xfd) pos += 3;
-  else if (buffer[pos] === 0xfe) pos += 5;
-  else pos += 9;
-
-  // Skip inputs
-  for (let i = 0; i < inputCount; i++) {
-    pos += 32; // txid
-    pos += 4;  // vout
-
-    // Skip script
-    const scriptLen = buffer[pos];
-    if (scriptLen < 0xfd) {
-      pos += 1 + scriptLen;
-    } else {
-      pos += 1 + (scriptLen === 0xfd ? 2 : scriptLen === 0xfe ? 4 : 8) + buffer.readUInt32LE(pos + 1);
-    }
-
-    pos += 4; // sequence
-  }
-
-  return pos;
-}
-
-/**
- * Sign data with a private key using secp256k1
- */
-function signWithPrivateKey(privateKey: string, data: Buffer): string {
-  const EC = require('elliptic').ec;
-  const ec = new EC('secp256k1');
-
-  const key = ec.keyFromPrivate(privateKey);
-  const signature = key.sign(data);
-
-  // DER encode signature
-  const r = signature.r.toString('hex').padStart(64, '0');
-  const s = signature.s.toString('hex').padStart(64, '0');
-
-  // Simple signature encoding
-  const sig = r + s + '01'; // Add SIGHASH_ALL
-  return sig;
-}
-
-/**
- * Encode variable length integer
+ * Encode variable length integer (multi-byte forms are little endian)
  */
 function encodeVarInt(num: number): string {
-  if (num < 0xfd) {
-    return num.toString(16).padStart(2, '0');
-  } else if (num <= 0xffff) {
-    return 'fd' + num.toString(16).padStart(4, '0');
-  } else if (num <= 0xffffffff) {
-    return 'fe' + num.toString(16).padStart(8, '0');
-  } else {
-    return 'ff' + num.toString(16).padStart(16, '0');
-  }
-}
-
-/**
- * Create a pay-to-pubkey-hash script
- */
-function createPayToPubKeyHashScript(hash160: Buffer): string {
-  // OP_DUP OP_HASH160 <hash160> OP_EQUALVERIFY OP_CHECKSIG
-  return '76' + 'a9' + '14' + hash160.toString('hex') + '88' + 'ac';
+  return writeVarInt(num).toString('hex');
 }
 
 /**
@@ -493,6 +573,15 @@ function reverseTxid(txid: string): string {
   return bytes.reverse().join('');
 }
 
+/**
+ * Encode a 32-bit unsigned integer as little endian hex
+ */
+function encodeUInt32LE(value: number): string {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer.toString('hex');
+}
+
 /**
  * Reverse bytes in pairs (for little endian conversion)
  */
@@ -505,17 +594,22 @@ function reverseBytesInPairs(hex: string): string {
 }
 
 /**
- * Calculate transaction size
+ * Calculate signed transaction size for P2PKH inputs and outputs
  */
-export function estimateTransactionSize(inputCount: number, outputCount: number): number {
-  // Rough estimate: 148 bytes per input + 34 bytes per output + 10 bytes overhead
-  return inputCount * 148 + outputCount * 34 + 10;
+export function estimateTransactionSize(inputCount: number, outputCount: number, dataSize: number = 0): number {
+  // 148 bytes per input + 34 bytes per output + 10 bytes overhead (more with large counts)
+  return estimateP2PKHTransactionSize(inputCount, outputCount, dataSize);
 }
 
 /**
- * Estimate transaction fee
+ * Estimate transaction fee in satoshis at `feeRate` satoshis per byte.
+ * `dataSize` adds an OP_RETURN output carrying that many bytes.
  */
-export function estimateFee(inputCount: number, outputCount: number): number {
-  const size = estimateTransactionSize(inputCount, outputCount);
-  return Math.max(MIN_FEE, Math.ceil(size / 1000) * FEE_PER_BYTE);
+export function estimateFee(
+  inputCount: number,
+  outputCount: number,
+  feeRate: number = DEFAULT_FEE_RATE,
+  dataSize: number = 0
+): Amount {
+  return calculateFee(estimateTransactionSize(inputCount, outputCount, dataSize), feeRate);
 }
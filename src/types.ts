@@ -2,10 +2,124 @@
  * TETSUO Wallet SDK - Type Definitions
  */
 
-export interface WalletConfig {
-  networkUrl: string;
-  addressPrefix?: number;
+/** Value in satoshis (1 TETSUO = 100,000,000); see parseAmount/formatAmount */
+export type Amount = bigint;
+
+export interface Network {
+  /** Profile name, e.g. 'mainnet' or 'regtest' */
+  name: string;
+  /** Version byte of P2PKH addresses */
+  pubKeyHashVersion: number;
+  /** Version byte of P2SH addresses */
+  scriptHashVersion: number;
+  /** Version byte of WIF private keys */
+  wifVersion: number;
+  /** Version bytes of extended private and public keys */
+  bip32: { private: number; public: number };
+  /** RPC endpoint used when no URL is given */
+  rpcUrl: string;
+  /** Block explorer base URL, if the network has one */
+  explorerUrl?: string;
+  /** Lowest fee rate in sat/byte the network relays */
+  minFeeRate: number;
+}
+
+export interface RPCClientOptions {
+  /** Endpoints to fail over to, in order, when the current one is unhealthy */
+  fallbackUrls?: string[];
+  /** Milliseconds per read request attempt (default 10000) */
+  timeout?: number;
+  /** Milliseconds to wait for a broadcast (default 30000) */
+  broadcastTimeout?: number;
+  /** Milliseconds to wait for a health-check ping (default 3000) */
+  pingTimeout?: number;
+  /** Retries of a failed read after the first attempt (default 2) */
+  retries?: number;
+  /** Base retry delay in ms, doubled each retry with jitter (default 250) */
+  retryDelay?: number;
+  /** Longest retry delay in ms (default 5000) */
+  maxRetryDelay?: number;
+  /** Consecutive failures that open an endpoint's circuit (default 5) */
+  failureThreshold?: number;
+  /** Milliseconds an open circuit refuses requests before a trial one (default 30000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Shared wallet settings: pass the same object to createRPCClient and, as
+ * derivation options, to generateWallet or importFromMnemonic
+ */
+export interface WalletConfig extends DerivationOptions {
+  /** RPC endpoint (defaults to the network's rpcUrl) */
+  networkUrl?: string;
+}
+
+export type DerivationScheme = 'legacy' | 'bip32';
+
+export interface DerivationOptions {
+  scheme?: DerivationScheme;
   derivationPath?: string;
+  /** Network to encode the address for (default MAINNET) */
+  network?: Network;
+}
+
+export type MnemonicLanguage =
+  | 'english'
+  | 'spanish'
+  | 'french'
+  | 'italian'
+  | 'portuguese'
+  | 'czech'
+  | 'japanese'
+  | 'korean'
+  | 'chinese_simplified'
+  | 'chinese_traditional';
+
+export interface MnemonicOptions extends DerivationOptions {
+  /** Wordlist of the mnemonic (generated in English, detected on import by default) */
+  language?: MnemonicLanguage;
+  /** BIP39 passphrase (the "25th word"); each passphrase opens a different wallet */
+  passphrase?: string;
+  /** Mnemonic length in words: 12, 15, 18, 21 or 24 */
+  wordCount?: number;
+  /** Entropy in bits (128 to 256 in steps of 32), the alternative to `wordCount` */
+  strength?: number;
+}
+
+export type MnemonicError = 'wrong-length' | 'unknown-words' | 'bad-checksum';
+
+export interface UnknownMnemonicWord {
+  /** Position in the mnemonic, starting at 0 */
+  index: number;
+  word: string;
+  /** Closest words in the wordlist, best first */
+  suggestions: string[];
+}
+
+export interface MnemonicValidation {
+  valid: boolean;
+  /** Mnemonic after NFKD, lowercase and whitespace normalization */
+  normalized: string;
+  /** Wordlist the mnemonic was checked against */
+  language: MnemonicLanguage;
+  wordCount: number;
+  /** Every problem found; a bad checksum is only reported when the words and length are fine */
+  errors: MnemonicError[];
+  unknownWords: UnknownMnemonicWord[];
+}
+
+/**
+ * One share of a Shamir-split secret
+ */
+export interface SecretShare {
+  /** Random identifier common to every share of one split */
+  identifier: number;
+  /** Shares needed to recover the secret */
+  threshold: number;
+  /** Share index (x coordinate), 1-255 */
+  index: number;
+  /** Share value (hex), as long as the secret */
+  value: string;
 }
 
 export interface GeneratedWallet {
@@ -13,6 +127,9 @@ export interface GeneratedWallet {
   privateKey: string;
   publicKey: string;
   address: string;
+  derivationPath?: string;
+  /** Used addresses found when importing with `discover` */
+  account?: DiscoveredAccount;
 }
 
 export interface ImportedWallet {
@@ -21,12 +138,125 @@ export interface ImportedWallet {
   address: string;
 }
 
+export interface WatchOnlyWallet {
+  type: 'address' | 'xpub';
+  address: string;
+  extendedPublicKey?: string;
+}
+
+export interface HDNode {
+  privateKey?: string;
+  publicKey: string;
+  chainCode: string;
+  depth: number;
+  index: number;
+  parentFingerprint: number;
+}
+
+export interface DiscoveryOptions {
+  gapLimit?: number;
+  accountPath?: string;
+  /** Network to encode addresses and extended keys for (default MAINNET) */
+  network?: Network;
+}
+
+export interface DiscoveredAddress {
+  address: string;
+  publicKey: string;
+  privateKey?: string;
+  path: string;
+  chain: number;
+  index: number;
+  balance: Amount;
+  transactionCount: number;
+}
+
+export interface DiscoveredAccount {
+  accountPath: string;
+  extendedPublicKey: string;
+  receive: DiscoveredAddress[];
+  change: DiscoveredAddress[];
+  nextReceiveIndex: number;
+  nextChangeIndex: number;
+  balance: Amount;
+}
+
 export interface UTXO {
   txid: string;
   vout: number;
-  value: number;
+  value: Amount;
   confirmations: number;
   scriptPubKey?: string;
+  redeemScript?: string;
+  /** Input sequence to spend with, e.g. a relative lock from encodeRelativeLock */
+  sequence?: number;
+}
+
+export type CoinSelectionStrategy =
+  | 'branch-and-bound'
+  | 'largest-first'
+  | 'oldest-first'
+  | 'privacy'
+  | 'consolidate';
+
+export interface CoinSelectionOptions {
+  /** Fee in satoshis for spending `inputs`, with or without a change output */
+  calculateFee: (inputs: UTXO[], hasChange: boolean) => Amount;
+  /** Change below this value is added to the fee instead (default 546) */
+  dustThreshold?: Amount;
+}
+
+export interface CoinSelectionResult {
+  inputs: UTXO[];
+  fee: Amount;
+  change: Amount;
+}
+
+export type CoinSelector = (
+  utxos: UTXO[],
+  amount: Amount,
+  options: CoinSelectionOptions
+) => CoinSelectionResult;
+
+export interface PaymentRecipient {
+  address: string;
+  amount: Amount;
+}
+
+export type FeePriority = 'low' | 'normal' | 'high';
+
+export interface BuildTransactionOptions {
+  coinSelection?: CoinSelectionStrategy | CoinSelector;
+  /** Satoshis per byte, or a priority preset */
+  feeRate?: number | FeePriority;
+  /** Signal opt-in replace-by-fee so the fee can be bumped later */
+  replaceable?: boolean;
+  /** Absolute locktime: block height, or Unix timestamp from 500000000 */
+  locktime?: number;
+  /** Transaction version (defaults to 2 when an input has a relative lock, else 1) */
+  version?: number;
+  /** Data for an OP_RETURN output: UTF-8 text, or raw bytes as a Buffer */
+  memo?: string | Buffer;
+  /** Largest memo in bytes (defaults to MAX_DATA_CARRIER_SIZE) */
+  maxDataSize?: number;
+  /** Network the addresses belong to (default MAINNET); also sets the fee floor */
+  network?: Network;
+}
+
+export type RelativeLock = { blocks: number } | { seconds: number };
+
+/** Unsigned transaction produced by the transaction builders */
+export interface TransactionData {
+  inputs: TransactionInput[];
+  outputs: TransactionOutput[];
+  fee: Amount;
+  version: number;
+  locktime: number;
+}
+
+export interface FeeBumpResult extends TransactionData {
+  /** Outputs spent by `inputs`, in the same order (needed for signing) */
+  utxos: UTXO[];
 }
 
 export interface TransactionInput {
@@ -37,15 +267,115 @@ export interface TransactionInput {
 }
 
 export interface TransactionOutput {
-  address: string;
-  value: number;
+  /** Recipient address; omitted for OP_RETURN data outputs */
+  address?: string;
+  value: Amount;
+  /** Hex payload of an OP_RETURN data output */
+  data?: string;
+}
+
+export interface DecodedInput {
+  txid: string;
+  vout: number;
+  scriptSig: string;
+  sequence: number;
+}
+
+export interface DecodedOutput {
+  value: Amount;
+  scriptPubKey: string;
+  address?: string;
+  /** Payload of an OP_RETURN output */
+  data?: string;
+}
+
+export interface DecodedTransaction {
+  txid: string;
+  version: number;
+  inputs: DecodedInput[];
+  outputs: DecodedOutput[];
+  locktime: number;
+  size: number;
+}
+
+/**
+ * Holder of one signing key: a key in process memory, or an external
+ * signer such as an HSM or hardware wallet bridge
+ */
+export interface Signer {
+  /** Compressed public key (hex) that signatures verify against */
+  getPublicKey(): Promise<string>;
+  /** Sign a 32-byte digest, returning a DER-encoded signature (hex) */
+  signHash(hash: Buffer): Promise<string>;
+}
+
+export interface ExternalSignerOptions {
+  /** Arguments passed to the signer command */
+  args?: string[];
+  /** Milliseconds to wait for each response (default 60000, for user confirmation on a device) */
+  timeout?: number;
+}
+
+export interface VerifyMessageOptions {
+  /**
+   * Trusted secp256k1 public key (hex) that signs for a legacy address.
+   * Must come from the verifier's own records, not from the signer.
+   */
+  signingPublicKey?: string;
+}
+
+export interface VerifyTransactionOptions {
+  /** Fee the inputs must cover on top of the outputs (satoshis) */
+  expectedFee?: Amount;
+  /** Lowest acceptable fee rate in sat/byte (default: the network's minFeeRate) */
+  minFeeRate?: number;
+  /** Highest acceptable fee rate in sat/byte (default MAX_FEE_RATE) */
+  maxFeeRate?: number;
+  /** Network whose fee floor applies (default MAINNET) */
+  network?: Network;
+}
+
+export interface InputVerificationError {
+  index: number;
+  txid: string;
+  vout: number;
+  error: string;
+}
+
+export interface TransactionVerification {
+  valid: boolean;
+  inputValue: Amount;
+  outputValue: Amount;
+  fee: Amount;
+  /** Fee in satoshis per byte of the signed transaction */
+  feeRate: number;
+  /** Problems with the transaction as a whole (values, fee) */
+  errors: string[];
+  /** Inputs whose script or signature failed, with the reason */
+  inputErrors: InputVerificationError[];
 }
 
 export interface SignedTransaction {
   txHex: string;
   txid: string;
   size: number;
-  fee: number;
+  fee: Amount;
+}
+
+export interface PsbtInput {
+  utxo?: {
+    value: Amount;
+    scriptPubKey: string;
+  };
+  partialSignatures: { [publicKey: string]: string };
+  sighashType?: number;
+  redeemScript?: string;
+  finalScriptSig?: string;
+}
+
+export interface Psbt {
+  unsignedTx: string;
+  inputs: PsbtInput[];
 }
 
 export interface TransactionResult {
@@ -56,19 +386,19 @@ export interface TransactionResult {
 }
 
 export interface Balance {
-  confirmed: number;
-  unconfirmed: number;
-  total: number;
+  confirmed: Amount;
+  unconfirmed: Amount;
+  total: Amount;
 }
 
 export interface Transaction {
   txid: string;
-  amount: number;
+  amount: Amount;
   isIncoming: boolean;
   confirmations: number;
   timestamp: number;
   address: string;
-  fee?: number;
+  fee?: Amount;
 }
 
 export interface BlockchainInfo {
@@ -78,30 +408,101 @@ export interface BlockchainInfo {
   isConnected: boolean;
 }
 
+/**
+ * Stable, machine-readable error codes. Messages may be reworded between
+ * releases; codes will not.
+ */
+export type WalletErrorCode =
+  | 'WALLET_ERROR'
+  | 'INVALID_ADDRESS'
+  | 'INSUFFICIENT_FUNDS'
+  | 'RPC_ERROR'
+  | 'SIGNING_FAILED'
+  | 'SERIALIZATION_FAILED'
+  | 'DECRYPTION_FAILED';
+
+export interface WalletErrorOptions {
+  code?: WalletErrorCode;
+  /** Underlying error this one wraps */
+  cause?: unknown;
+}
+
 export class WalletError extends Error {
-  constructor(message: string) {
+  readonly code: WalletErrorCode;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: WalletErrorOptions = {}) {
     super(message);
     this.name = 'WalletError';
+    this.code = options.code ?? 'WALLET_ERROR';
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
   }
 }
 
 export class InvalidAddressError extends WalletError {
-  constructor(address: string) {
-    super(`Invalid TETSUO address: ${address}`);
+  constructor(readonly address: string) {
+    super(`Invalid TETSUO address: ${address}`, { code: 'INVALID_ADDRESS' });
     this.name = 'InvalidAddressError';
   }
 }
 
+/** Amounts are in satoshis */
 export class InsufficientFundsError extends WalletError {
-  constructor(required: number, available: number) {
-    super(`Insufficient funds. Required: ${required}, Available: ${available}`);
+  constructor(readonly required: Amount, readonly available: Amount) {
+    super(`Insufficient funds. Required: ${required}, Available: ${available}`, { code: 'INSUFFICIENT_FUNDS' });
     this.name = 'InsufficientFundsError';
   }
 }
 
+export interface RPCErrorOptions {
+  /** HTTP status, when the node answered */
+  status?: number;
+  /** Path of the request that failed */
+  endpoint?: string;
+  cause?: unknown;
+}
+
 export class RPCError extends WalletError {
-  constructor(message: string, public code?: number) {
-    super(`RPC Error: ${message}`);
+  readonly status?: number;
+  readonly endpoint?: string;
+
+  /** A number as `options` is the HTTP status (the old `new RPCError(message, status)` form) */
+  constructor(message: string, options: RPCErrorOptions | number = {}) {
+    if (typeof options === 'number') {
+      options = { status: options };
+    }
+    super(`RPC Error: ${message}`, { code: 'RPC_ERROR', cause: options.cause });
     this.name = 'RPCError';
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+  }
+}
+
+/** A key or signer could not produce a signature */
+export class SigningError extends WalletError {
+  readonly inputIndex?: number;
+
+  constructor(message: string, options: { inputIndex?: number; cause?: unknown } = {}) {
+    super(message, { code: 'SIGNING_FAILED', cause: options.cause });
+    this.name = 'SigningError';
+    this.inputIndex = options.inputIndex;
+  }
+}
+
+/** Transaction, PSBT or signature bytes could not be decoded */
+export class SerializationError extends WalletError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { code: 'SERIALIZATION_FAILED', cause: options.cause });
+    this.name = 'SerializationError';
+  }
+}
+
+/** Encrypted data could not be decrypted (wrong password or corrupt data) */
+export class DecryptionError extends WalletError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { code: 'DECRYPTION_FAILED', cause: options.cause });
+    this.name = 'DecryptionError';
   }
 }
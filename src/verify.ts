@@ -0,0 +1,347 @@
+/**
+ * TETSUO Wallet SDK - Pre-broadcast Transaction Verification
+ *
+ * Re-executes each input's script against the output it spends (P2PKH, and
+ * P2SH with a P2PKH or multisig redeem script, optionally behind a CLTV/CSV
+ * timelock), checking signatures against the SIGHASH_ALL digest the way a
+ * node would, and checks that the inputs pay for the outputs at a sane fee
+ * rate.
+ */
+
+import { hash160 } from './crypto';
+import {
+  OP_0,
+  OP_CHECKSIG,
+  OP_DUP,
+  OP_EQUAL,
+  OP_EQUALVERIFY,
+  OP_HASH160,
+  OP_PUSHDATA1,
+  OP_PUSHDATA2,
+  decodeMultisigScript,
+  decodeTimelockScript,
+  getScriptType
+} from './script';
+import { checkLockTimeVerify, checkSequenceVerify } from './timelock';
+import { createSignatureHash, decodeTransaction } from './transaction';
+import { MAX_FEE_RATE } from './fee';
+import { MAINNET } from './network';
+import { decodeDERSignature, isLowS, verifySignature } from './signature';
+import { SIGHASH_ALL } from './psbt';
+import { sumAmounts } from './amount';
+import {
+  DecodedTransaction,
+  InputVerificationError,
+  TransactionVerification,
+  UTXO,
+  VerifyTransactionOptions
+} from './types';
+
+const OP_PUSHDATA4 = 0x4e;
+
+const SIGNATURE_MISMATCH = 'Signature does not verify against the sighash and public key';
+
+interface ScriptOp {
+  opcode: number;
+  /** Pushed bytes, for push opcodes */
+  data?: Buffer;
+}
+
+/**
+ * Verify a signed transaction before broadcasting it. `utxos` must include
+ * every output the transaction spends. Never throws for an invalid
+ * transaction; check `valid`, `errors` and `inputErrors` instead.
+ */
+export function verifyTransaction(
+  transactionHex: string,
+  utxos: UTXO[],
+  options: VerifyTransactionOptions = {}
+): TransactionVerification {
+  const result: TransactionVerification = {
+    valid: false,
+    inputValue: 0n,
+    outputValue: 0n,
+    fee: 0n,
+    feeRate: 0,
+    errors: [],
+    inputErrors: []
+  };
+
+  let tx: DecodedTransaction;
+  try {
+    tx = decodeTransaction(transactionHex);
+  } catch (error) {
+    result.errors.push((error as Error).message);
+    return result;
+  }
+
+  if (tx.inputs.length === 0) {
+    result.errors.push('Transaction has no inputs');
+  }
+  if (tx.outputs.length === 0) {
+    result.errors.push('Transaction has no outputs');
+  }
+
+  const spent = new Set<string>();
+  let allInputsKnown = true;
+
+  tx.inputs.forEach((input, index) => {
+    const fail = (error: string) => {
+      const inputError: InputVerificationError = { index, txid: input.txid, vout: input.vout, error };
+      result.inputErrors.push(inputError);
+    };
+
+    const outpoint = `${input.txid}:${input.vout}`;
+    if (spent.has(outpoint)) {
+      fail('Spends the same output as an earlier input');
+      return;
+    }
+    spent.add(outpoint);
+
+    const utxo = utxos.find(u => u.txid === input.txid && u.vout === input.vout);
+    if (!utxo || !utxo.scriptPubKey) {
+      allInputsKnown = false;
+      fail('Spent output not provided');
+      return;
+    }
+    result.inputValue += utxo.value;
+
+    const error = executeInput(tx, index, utxo.scriptPubKey,
+      scriptCode => createSignatureHash(transactionHex, tx.inputs, index, scriptCode));
+    if (error) {
+      fail(error);
+    }
+  });
+
+  result.outputValue = sumAmounts(tx.outputs.map(output => output.value));
+
+  if (allInputsKnown) {
+    result.fee = result.inputValue - result.outputValue;
+    result.feeRate = Number(result.fee) / tx.size;
+    const minFeeRate = options.minFeeRate ?? (options.network ?? MAINNET).minFeeRate;
+    const maxFeeRate = options.maxFeeRate ?? MAX_FEE_RATE;
+
+    if (result.fee < 0n) {
+      result.errors.push(`Outputs (${result.outputValue} satoshis) exceed inputs (${result.inputValue} satoshis)`);
+    } else if (options.expectedFee !== undefined && result.fee < options.expectedFee) {
+      result.errors.push(
+        `Inputs (${result.inputValue} satoshis) do not cover outputs (${result.outputValue}) ` +
+        `plus the ${options.expectedFee} satoshi fee`
+      );
+    } else if (result.feeRate < minFeeRate) {
+      result.errors.push(`Fee rate ${result.feeRate.toFixed(1)} sat/byte is below the minimum of ${minFeeRate}`);
+    } else if (result.feeRate > maxFeeRate) {
+      result.errors.push(`Fee rate ${result.feeRate.toFixed(1)} sat/byte is above the sanity limit of ${maxFeeRate}`);
+    }
+  }
+
+  result.valid = result.errors.length === 0 && result.inputErrors.length === 0;
+  return result;
+}
+
+/**
+ * Run an input's scriptSig against the output it spends; returns why it
+ * fails, if it does. `sighash` computes the digest for a script code.
+ */
+function executeInput(
+  tx: DecodedTransaction,
+  index: number,
+  scriptPubKey: string,
+  sighash: (scriptCode: string) => Buffer
+): string | undefined {
+  const type = getScriptType(scriptPubKey);
+  if (type !== 'p2pkh' && type !== 'p2sh') {
+    return `Only P2PKH and P2SH inputs can be verified, not ${type}`;
+  }
+  const scriptSig = tx.inputs[index].scriptSig;
+  if (!scriptSig) {
+    return 'Input is not signed';
+  }
+
+  let sigOps: ScriptOp[];
+  try {
+    sigOps = parseScript(scriptSig);
+  } catch {
+    return 'scriptSig is malformed';
+  }
+  if (sigOps.some(op => !op.data)) {
+    return 'scriptSig must only push data';
+  }
+
+  const stack = sigOps.map(op => op.data!);
+  if (type === 'p2pkh') {
+    return executeP2PKH(stack, scriptPubKey, () => sighash(scriptPubKey));
+  }
+
+  // P2SH: the last push is the redeem script, run against the rest of the stack
+  const redeemScript = stack.pop();
+  if (!redeemScript) {
+    return 'scriptSig is missing the redeem script';
+  }
+  if (hash160(redeemScript).toString('hex') !== scriptPubKey.slice(4, 44).toLowerCase()) {
+    return 'Redeem script does not match the script hash being spent';
+  }
+
+  const redeemHex = redeemScript.toString('hex');
+  const timelock = decodeTimelockScript(redeemHex);
+  if (timelock) {
+    const error = timelock.type === 'cltv'
+      ? checkLockTimeVerify(tx, index, timelock.value)
+      : checkSequenceVerify(tx, index, timelock.value);
+    if (error) return error;
+  }
+
+  const innerScript = timelock?.innerScript ?? redeemHex;
+  const innerType = getScriptType(innerScript);
+  if (innerType === 'p2pkh') {
+    return executeP2PKH(stack, innerScript, () => sighash(redeemHex));
+  }
+  if (innerType === 'multisig') {
+    return executeMultisig(stack, innerScript, () => sighash(redeemHex));
+  }
+  return `Only P2PKH and multisig redeem scripts can be verified, not ${innerType}`;
+}
+
+/**
+ * Run a P2PKH script against the pushed stack; returns why it fails, if it does
+ */
+function executeP2PKH(stack: Buffer[], script: string, sighash: () => Buffer): string | undefined {
+  const pop = (): Buffer | undefined => stack.pop();
+
+  for (const op of parseScript(script)) {
+    if (op.data) {
+      stack.push(op.data);
+      continue;
+    }
+
+    switch (op.opcode) {
+      case OP_DUP: {
+        if (stack.length < 1) return 'scriptSig is missing the signature or public key';
+        stack.push(stack[stack.length - 1]);
+        break;
+      }
+      case OP_HASH160: {
+        const top = pop();
+        if (!top) return 'scriptSig is missing the signature or public key';
+        stack.push(hash160(top));
+        break;
+      }
+      case OP_EQUAL:
+      case OP_EQUALVERIFY: {
+        const a = pop();
+        const b = pop();
+        if (!a || !b) return 'scriptSig is missing the signature or public key';
+        if (!a.equals(b)) return 'Public key does not match the address being spent';
+        if (op.opcode === OP_EQUAL) stack.push(Buffer.from([1]));
+        break;
+      }
+      case OP_CHECKSIG: {
+        const publicKey = pop();
+        const signature = pop();
+        if (!publicKey || !signature) return 'scriptSig is missing the signature or public key';
+        const error = checkSignature(signature, publicKey, sighash());
+        if (error) return error;
+        stack.push(Buffer.from([1]));
+        break;
+      }
+      default:
+        return `Unsupported opcode 0x${op.opcode.toString(16).padStart(2, '0')}`;
+    }
+  }
+
+  if (stack.length !== 1) {
+    return 'scriptSig leaves extra items on the stack';
+  }
+  return undefined;
+}
+
+/**
+ * Run OP_CHECKMULTISIG against the pushed stack: an empty dummy element, then
+ * exactly the required signatures in the same order as their public keys
+ */
+function executeMultisig(stack: Buffer[], script: string, sighash: () => Buffer): string | undefined {
+  const { requiredSignatures, publicKeys } = decodeMultisigScript(script);
+  if (stack.length !== requiredSignatures + 1) {
+    return `Multisig input needs ${requiredSignatures} signature(s), found ${Math.max(stack.length - 1, 0)}`;
+  }
+  if (stack[0].length !== 0) {
+    return 'Multisig dummy element must be empty';
+  }
+
+  const hash = sighash();
+  let keyIndex = 0;
+  for (const [i, signature] of stack.slice(1).entries()) {
+    let error: string | undefined = SIGNATURE_MISMATCH;
+    while (error === SIGNATURE_MISMATCH && keyIndex < publicKeys.length) {
+      error = checkSignature(signature, Buffer.from(publicKeys[keyIndex++], 'hex'), hash);
+    }
+    if (error === SIGNATURE_MISMATCH) {
+      return `Signature ${i + 1} does not match any remaining multisig public key`;
+    }
+    if (error) return error;
+  }
+  return undefined;
+}
+
+function checkSignature(signature: Buffer, publicKey: Buffer, sighash: Buffer): string | undefined {
+  if (signature.length === 0) {
+    return 'Signature is empty';
+  }
+  const hashType = signature[signature.length - 1];
+  if (hashType !== SIGHASH_ALL) {
+    return `Unsupported sighash type 0x${hashType.toString(16).padStart(2, '0')}`;
+  }
+  if (publicKey.length !== 33 || (publicKey[0] !== 0x02 && publicKey[0] !== 0x03)) {
+    return 'Public key is not a compressed secp256k1 key';
+  }
+
+  const der = signature.slice(0, -1).toString('hex');
+  let s: string;
+  try {
+    ({ s } = decodeDERSignature(der));
+  } catch {
+    return 'Signature is not valid DER';
+  }
+  if (!isLowS(s)) {
+    return 'Signature has a high S value';
+  }
+  if (!verifySignature(sighash, der, publicKey.toString('hex'))) {
+    return SIGNATURE_MISMATCH;
+  }
+  return undefined;
+}
+
+function parseScript(script: string): ScriptOp[] {
+  const bytes = Buffer.from(script, 'hex');
+  const ops: ScriptOp[] = [];
+  let offset = 0;
+
+  const take = (length: number): Buffer => {
+    if (offset + length > bytes.length) {
+      throw new Error('Script ends inside a push');
+    }
+    const data = bytes.slice(offset, offset + length);
+    offset += length;
+    return data;
+  };
+
+  while (offset < bytes.length) {
+    const opcode = bytes[offset++];
+
+    if (opcode === OP_0) {
+      ops.push({ opcode, data: Buffer.alloc(0) });
+    } else if (opcode < OP_PUSHDATA1) {
+      ops.push({ opcode, data: take(opcode) });
+    } else if (opcode === OP_PUSHDATA1) {
+      ops.push({ opcode, data: take(take(1)[0]) });
+    } else if (opcode === OP_PUSHDATA2) {
+      ops.push({ opcode, data: take(take(2).readUInt16LE(0)) });
+    } else if (opcode === OP_PUSHDATA4) {
+      ops.push({ opcode, data: take(take(4).readUInt32LE(0)) });
+    } else {
+      ops.push({ opcode });
+    }
+  }
+
+  return ops;
+}
@@ -5,62 +5,115 @@
 import * as bip39 from 'bip39';
 import { createHmac, randomBytes } from 'crypto';
 import { sha256, toHex, fromHex } from './crypto';
-import { generateAddress } from './address';
-import { GeneratedWallet, ImportedWallet, WalletError } from './types';
+import { generateAddress, isValidAddress } from './address';
+import { decodeWIF, isWIF } from './wif';
+import { diagnoseMnemonic, getSupportedMnemonicLengths, getWordlist } from './mnemonic';
+import { createMasterNode, deriveChild, derivePath, fromExtendedKey, getAccountPath, DEFAULT_DERIVATION_PATH } from './hd';
+import { MAINNET } from './network';
+import { DiscoveryRPC, RECEIVE_CHAIN, discoverAccount } from './discovery';
+import {
+  DerivationOptions,
+  DerivationScheme,
+  GeneratedWallet,
+  HDNode,
+  ImportedWallet,
+  MnemonicLanguage,
+  MnemonicOptions,
+  Network,
+  WatchOnlyWallet,
+  WalletError
+} from './types';
 
 const TETSUO_SALT = 'tetsuo_wallet_salt';
 
 /**
  * Generate a new wallet with mnemonic
- * Uses BIP39 for mnemonic generation and custom key derivation for TETSUO
+ * Uses BIP39 for mnemonic generation (12 words unless `wordCount` or
+ * `strength` asks for more), from the English wordlist unless `language`
+ * picks another. Keys are derived with the legacy TETSUO
+ * scheme unless a BIP32 scheme or derivation path is requested.
  */
-export async function generateWallet(): Promise<GeneratedWallet> {
-  // Generate 128-bit entropy for 12-word mnemonic
-  const entropy = randomBytes(16);
-  const mnemonic = bip39.entropyToMnemonic(entropy.toString('hex'));
+export async function generateWallet(options: MnemonicOptions = {}): Promise<GeneratedWallet> {
+  // 32 bits of entropy per 3 words (128 bits for 12 words)
+  const entropy = randomBytes(resolveMnemonicStrength(options) / 8);
+  const mnemonic = bip39.entropyToMnemonic(entropy.toString('hex'), getWordlist(options.language));
 
   // Derive keys from mnemonic
-  const wallet = await deriveFromMnemonic(mnemonic);
+  const wallet = await deriveFromMnemonic(mnemonic, options);
 
   return {
     mnemonic,
     privateKey: wallet.privateKey,
     publicKey: wallet.publicKey,
-    address: wallet.address
+    address: wallet.address,
+    derivationPath: wallet.derivationPath
   };
 }
 
 /**
- * Import a wallet from an existing mnemonic phrase
+ * Import a wallet from an existing mnemonic phrase. The passphrase must match
+ * the one used when the wallet was created; with `wordCount` or `strength`
+ * the mnemonic must also have that length. Case, spacing and Unicode form are
+ * normalized, and the wordlist is detected unless `language` is given.
+ *
+ * With `discover`, the BIP44 account (`accountIndex`, default 0) is scanned
+ * for used addresses up to `gapLimit` and returned as `account`. Discovery
+ * implies the BIP32 scheme; the legacy scheme has only one address.
  */
-export async function importFromMnemonic(mnemonic: string): Promise<GeneratedWallet> {
-  if (!bip39.validateMnemonic(mnemonic)) {
-    throw new WalletError('Invalid BIP39 mnemonic phrase');
+export async function importFromMnemonic(
+  rawMnemonic: string,
+  options: MnemonicOptions & { discover?: DiscoveryRPC; gapLimit?: number; accountIndex?: number } = {}
+): Promise<GeneratedWallet> {
+  const mnemonic = validateMnemonicInput(rawMnemonic, options.language);
+
+  if (options.wordCount !== undefined || options.strength !== undefined) {
+    const expectedWords = (resolveMnemonicStrength(options) / 32) * 3;
+    if (mnemonic.split(' ').length !== expectedWords) {
+      throw new WalletError(`Expected a ${expectedWords}-word mnemonic`);
+    }
+  }
+
+  const scheme = options.discover && !options.scheme ? 'bip32' : resolveDerivationScheme(options);
+  if (options.discover && scheme === 'legacy') {
+    throw new WalletError('Account discovery needs the bip32 scheme; legacy wallets have a single address');
   }
 
-  const wallet = await deriveFromMnemonic(mnemonic);
+  // The discovered account's first receive address unless a path is given
+  const derivationPath = options.derivationPath ??
+    (options.discover ? `${getAccountPath(options.accountIndex ?? 0)}/${RECEIVE_CHAIN}/0` : undefined);
 
-  return {
+  const wallet = await deriveFromMnemonic(mnemonic, { ...options, scheme, derivationPath });
+  const imported: GeneratedWallet = {
     mnemonic,
     privateKey: wallet.privateKey,
     publicKey: wallet.publicKey,
-    address: wallet.address
+    address: wallet.address,
+    derivationPath: wallet.derivationPath
   };
+
+  if (options.discover) {
+    imported.account = await discoverAccount(mnemonic, options.discover, {
+      gapLimit: options.gapLimit,
+      accountIndex: options.accountIndex,
+      passphrase: options.passphrase,
+      network: options.network
+    });
+  }
+
+  return imported;
 }
 
 /**
- * Import a wallet from a private key (hex format)
+ * Import a wallet from a private key (64 hex characters or compressed WIF)
  */
-export function importFromPrivateKey(privateKeyHex: string): ImportedWallet {
-  if (!privateKeyHex || privateKeyHex.length !== 64) {
-    throw new WalletError('Invalid private key. Must be 64 hex characters.');
-  }
+export function importFromPrivateKey(privateKey: string, network: Network = MAINNET): ImportedWallet {
+  const privateKeyHex = parsePrivateKey(privateKey, network);
 
   try {
     const privateKeyBuffer = fromHex(privateKeyHex);
     const publicKey = derivePublicKey(privateKeyHex);
 
-    const address = generateAddress(publicKey);
+    const address = generateAddress(publicKey, network);
 
     return {
       privateKey: privateKeyHex,
@@ -72,21 +125,117 @@ export function importFromPrivateKey(privateKeyHex: string): ImportedWallet {
   }
 }
 
+/**
+ * Normalize a private key given as 64 hex characters or WIF to lowercase hex.
+ * Uncompressed WIF keys are rejected because wallets use compressed public keys,
+ * as are WIF keys for another network.
+ */
+export function parsePrivateKey(privateKey: string, network: Network = MAINNET): string {
+  const key = (privateKey || '').trim();
+  if (/^[0-9a-fA-F]{64}$/.test(key)) {
+    return key.toLowerCase();
+  }
+  if (!isWIF(key, network)) {
+    throw new WalletError('Invalid private key. Must be 64 hex characters or WIF.');
+  }
+
+  const { privateKey: decoded, compressed } = decodeWIF(key, network);
+  if (!compressed) {
+    throw new WalletError('Uncompressed WIF keys are not supported');
+  }
+  return decoded;
+}
+
+/**
+ * Create a watch-only wallet from a TETSUO address or an extended public key.
+ * For an xpub the wallet address is the first receive address (0/0).
+ */
+export function createWatchOnlyWallet(addressOrXpub: string, network: Network = MAINNET): WatchOnlyWallet {
+  const source = addressOrXpub.trim();
+
+  if (isValidAddress(source, network)) {
+    return { type: 'address', address: source };
+  }
+
+  let node: HDNode;
+  try {
+    node = fromExtendedKey(source, { network });
+  } catch {
+    throw new WalletError('Expected a TETSUO address or extended public key');
+  }
+
+  if (node.privateKey) {
+    throw new WalletError('Extended private keys cannot be used for watch-only wallets');
+  }
+
+  const firstReceive = deriveChild(deriveChild(node, 0), 0);
+
+  return {
+    type: 'xpub',
+    address: generateAddress(firstReceive.publicKey, network),
+    extendedPublicKey: source
+  };
+}
+
+/**
+ * Create the BIP32 master node for a mnemonic phrase
+ */
+export async function mnemonicToMasterNode(mnemonic: string, passphrase?: string): Promise<HDNode> {
+  const seed = await bip39.mnemonicToSeed(validateMnemonicInput(mnemonic), passphrase);
+  return createMasterNode(seed);
+}
+
+/**
+ * Pick the derivation scheme: an explicit scheme wins, a derivation path
+ * implies BIP32, and everything else stays on the legacy scheme so existing
+ * wallets keep their addresses.
+ */
+export function resolveDerivationScheme(options: DerivationOptions = {}): DerivationScheme {
+  if (options.scheme) {
+    return options.scheme;
+  }
+  return options.derivationPath ? 'bip32' : 'legacy';
+}
+
 /**
  * Derive keys from a mnemonic phrase
- * Uses PBKDF2 with the mnemonic as password
  */
-async function deriveFromMnemonic(mnemonic: string): Promise<{ privateKey: string; publicKey: string; address: string }> {
-  // Convert mnemonic to seed using PBKDF2
-  const seed = await bip39.mnemonicToSeed(mnemonic);
+async function deriveFromMnemonic(
+  mnemonic: string,
+  options: MnemonicOptions
+): Promise<{ privateKey: string; publicKey: string; address: string; derivationPath?: string }> {
+  // Convert mnemonic to seed using PBKDF2 (no passphrase gives the same seed as before)
+  const seed = await bip39.mnemonicToSeed(mnemonic, options.passphrase);
+
+  if (resolveDerivationScheme(options) === 'bip32') {
+    const derivationPath = options.derivationPath || DEFAULT_DERIVATION_PATH;
+    const node = derivePath(createMasterNode(seed), derivationPath);
+
+    return {
+      privateKey: node.privateKey!,
+      publicKey: node.publicKey,
+      address: generateAddress(node.publicKey, options.network),
+      derivationPath
+    };
+  }
 
-  // Hash seed to get private key
+  return deriveLegacyFromSeed(seed, options.network);
+}
+
+/**
+ * Legacy TETSUO derivation: two salted SHA256 rounds over the BIP39 seed.
+ * Produces a single key per mnemonic; kept for wallets created before BIP32.
+ */
+function deriveLegacyFromSeed(
+  seed: Buffer,
+  network: Network = MAINNET
+): { privateKey: string; publicKey: string; address: string } {
   const hash1 = sha256(Buffer.concat([seed, Buffer.from(TETSUO_SALT)]));
   const hash2 = sha256(Buffer.concat([hash1, Buffer.from(TETSUO_SALT)]));
 
   const privateKey = hash2.toString('hex');
   const publicKey = derivePublicKey(privateKey);
-  const address = generateAddress(publicKey);
+  const address = generateAddress(publicKey, network);
 
   return { privateKey, publicKey, address };
 }
@@ -135,15 +284,41 @@ export function derivePublicKeyLegacy(privateKeyHex: string): string {
 }
 
 /**
- * Validate if a mnemonic phrase is valid
+ * Validate if a mnemonic phrase is valid (in any supported language unless
+ * `language` is given). Use diagnoseMnemonic to find out what is wrong.
  */
-export function isValidMnemonic(mnemonic: string): boolean {
-  return bip39.validateMnemonic(mnemonic);
+export function isValidMnemonic(mnemonic: string, language?: MnemonicLanguage): boolean {
+  return diagnoseMnemonic(mnemonic, language).valid;
 }
 
 /**
- * Get supported mnemonic word count
+ * Normalized form of a valid mnemonic; throws naming what is wrong otherwise
  */
-export function getSupportedMnemonicLengths(): number[] {
-  return [12, 15, 18, 21, 24];
+function validateMnemonicInput(mnemonic: string, language?: MnemonicLanguage): string {
+  const validation = diagnoseMnemonic(mnemonic, language);
+  if (!validation.valid) {
+    throw new WalletError(`Invalid BIP39 mnemonic phrase (${validation.errors.join(', ')})`);
+  }
+  return validation.normalized;
+}
+
+/**
+ * Entropy bits for the requested mnemonic length, 128 (12 words) by default
+ */
+function resolveMnemonicStrength(options: Pick<MnemonicOptions, 'wordCount' | 'strength'>): number {
+  const lengths = getSupportedMnemonicLengths();
+
+  if (options.wordCount !== undefined && !lengths.includes(options.wordCount)) {
+    throw new WalletError(`Mnemonic word count must be one of ${lengths.join(', ')}`);
+  }
+  if (options.strength !== undefined && !lengths.includes((options.strength / 32) * 3)) {
+    throw new WalletError(`Mnemonic strength must be one of ${lengths.map(words => (words / 3) * 32).join(', ')} bits`);
+  }
+
+  const fromWords = options.wordCount !== undefined ? (options.wordCount / 3) * 32 : undefined;
+  if (fromWords !== undefined && options.strength !== undefined && fromWords !== options.strength) {
+    throw new WalletError(`A ${options.wordCount}-word mnemonic has ${fromWords} bits of strength, not ${options.strength}`);
+  }
+
+  return options.strength ?? fromWords ?? 128;
 }
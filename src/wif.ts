@@ -0,0 +1,64 @@
+/**
+ * TETSUO Wallet SDK - Wallet Import Format (WIF) private keys
+ */
+
+import { base58check, base58checkDecode } from './crypto';
+import { MAINNET } from './network';
+import { Network, WalletError } from './types';
+
+/** Mainnet WIF version byte (address prefix 0x41 + 0x80) */
+export const TETSUO_WIF_VERSION = MAINNET.wifVersion;
+
+// Suffix marking a key whose public key is serialized compressed
+const COMPRESSED_FLAG = 0x01;
+
+/**
+ * Encode a hex private key as WIF. Keys are flagged compressed by default,
+ * matching the compressed public keys this SDK derives.
+ */
+export function encodeWIF(privateKey: string, compressed: boolean = true, network: Network = MAINNET): string {
+  if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new WalletError('Invalid private key. Must be 64 hex characters.');
+  }
+
+  return base58check(Buffer.concat([
+    Buffer.from([network.wifVersion]),
+    Buffer.from(privateKey, 'hex'),
+    compressed ? Buffer.from([COMPRESSED_FLAG]) : Buffer.alloc(0)
+  ]));
+}
+
+/**
+ * Decode a WIF private key into hex and its compression flag
+ */
+export function decodeWIF(wif: string, network: Network = MAINNET): { privateKey: string; compressed: boolean } {
+  let payload: Buffer;
+  try {
+    payload = base58checkDecode(wif.trim());
+  } catch (error) {
+    throw new WalletError(`Invalid WIF private key: ${(error as Error).message}`);
+  }
+
+  if (payload[0] !== network.wifVersion) {
+    throw new WalletError('Invalid WIF private key: wrong version byte');
+  }
+
+  const compressed = payload.length === 34 && payload[33] === COMPRESSED_FLAG;
+  if (payload.length !== 33 && !compressed) {
+    throw new WalletError('Invalid WIF private key: wrong length');
+  }
+
+  return { privateKey: payload.slice(1, 33).toString('hex'), compressed };
+}
+
+/**
+ * Check whether a string is a valid TETSUO WIF private key
+ */
+export function isWIF(value: string, network: Network = MAINNET): boolean {
+  try {
+    decodeWIF(value, network);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -14,7 +14,8 @@ const {
   createTransactionHex,
   signTransaction,
   derivePublicKey,
-  generateAddress
+  parseAmount,
+  formatAmount
 } = require('./dist/index');
 
 const WALLET_FILE = path.join(process.env.HOME, '.tetsuo', 'wallets.json');
@@ -51,15 +52,15 @@ async function runTest() {
     console.log('\n💰 Step 2: Checking balance...');
     const rpc = createRPCClient(RPC_URL);
 
-    let balance = 0;
+    let balance = 0n;
     try {
       balance = await rpc.getBalance(testWallet.address);
-      console.log(`✓ Balance: ${balance} TETSUO`);
+      console.log(`✓ Balance: ${formatAmount(balance)} TETSUO`);
     } catch (e) {
       console.log(`⚠ No balance yet (address just created)`);
     }
 
-    if (balance === 0) {
+    if (balance === 0n) {
       console.log('\n⚠️  Test wallet has no balance.');
       console.log(`Send some TETSUO to: ${testWallet.address}`);
       console.log('Then run this test again.\n');
@@ -82,7 +83,7 @@ async function runTest() {
     // Step 3: Prepare transaction
     console.log('\n📋 Step 3: Preparing transaction...');
     const testAddress = 'TVt1p2fcKTQXZVidshJbDCdYN3wxRnWLES';
-    const sendAmount = 0.1; // Small test amount
+    const sendAmount = parseAmount('0.1'); // Small test amount
 
     const utxos = await rpc.getUTXOs(testWallet.address);
     console.log(`✓ Found ${utxos.length} UTXO(s)`);
@@ -99,17 +100,18 @@ async function runTest() {
       utxos,
       testWallet.address
     );
+    const spent = txData.inputs.map(input => utxos.find(u => u.txid === input.txid && u.vout === input.vout));
 
     console.log('✓ Transaction built:');
     console.log(`  From: ${testWallet.address}`);
     console.log(`  To: ${testAddress}`);
-    console.log(`  Amount: ${sendAmount} TETSUO`);
-    console.log(`  Fee: ${(txData.fee / 100_000_000).toFixed(8)} TETSUO`);
+    console.log(`  Amount: ${formatAmount(sendAmount)} TETSUO`);
+    console.log(`  Fee: ${formatAmount(txData.fee)} TETSUO`);
 
     // Step 4: Sign transaction
     console.log('\n✍️  Step 4: Signing transaction (client-side)...');
     const unsignedHex = createTransactionHex(txData.inputs, txData.outputs);
-    const signedHex = signTransaction(unsignedHex, testWallet.privateKey, txData.inputs, utxos);
+    const signedHex = await signTransaction(unsignedHex, testWallet.privateKey, txData.inputs, spent);
 
     console.log('✓ Transaction signed:');
     console.log(`  Unsigned size: ${unsignedHex.length} chars (${unsignedHex.length / 2} bytes)`);
@@ -126,7 +128,7 @@ async function runTest() {
       console.log(`  TXID: ${txid}`);
       console.log(`  From: ${testWallet.address}`);
       console.log(`  To: ${testAddress}`);
-      console.log(`  Amount: ${sendAmount} TETSUO`);
+      console.log(`  Amount: ${formatAmount(sendAmount)} TETSUO`);
       console.log(`  Explorer: https://tetsuoarena.com/tx/${txid}\n`);
 
       return true;
@@ -0,0 +1,83 @@
+import {
+  MAX_AMOUNT,
+  amountFromCoins,
+  amountFromSatoshis,
+  formatAmount,
+  maxAmount,
+  parseAmount,
+  sumAmounts
+} from '../src/amount';
+import { buildTransaction } from '../src/transaction';
+import { importFromPrivateKey } from '../src/wallet';
+import { UTXO } from '../src/types';
+
+describe('Amounts', () => {
+  describe('parseAmount', () => {
+    it('should parse decimal TETSUO exactly', () => {
+      expect(parseAmount('1')).toBe(100_000_000n);
+      expect(parseAmount('1.5')).toBe(150_000_000n);
+      expect(parseAmount('0.00000001')).toBe(1n);
+      expect(parseAmount(' .25 ')).toBe(25_000_000n);
+      expect(parseAmount('21000000')).toBe(MAX_AMOUNT);
+      // Math.floor(0.29 * 1e8) is 28999999
+      expect(parseAmount('0.29')).toBe(29_000_000n);
+    });
+
+    it('should reject anything that is not a plain decimal', () => {
+      for (const value of ['', '.', '-1', '1e8', '0x10', '1.2.3', 'abc', '1,000']) {
+        expect(() => parseAmount(value)).toThrow('Invalid amount');
+      }
+      expect(() => parseAmount('0.000000001')).toThrow('more than 8 decimal places');
+      expect(() => parseAmount('21000000.00000001')).toThrow('exceeds maximum');
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('should format satoshis without trailing zeros', () => {
+      expect(formatAmount(0n)).toBe('0');
+      expect(formatAmount(1n)).toBe('0.00000001');
+      expect(formatAmount(150_000_000n)).toBe('1.5');
+      expect(formatAmount(-2_100_000_000n)).toBe('-21');
+      expect(formatAmount(MAX_AMOUNT - 1n)).toBe('20999999.99999999');
+    });
+
+    it('should round-trip through parseAmount', () => {
+      for (const value of ['0.1', '0.29', '1234.56789012', '20999999.99999999']) {
+        expect(formatAmount(parseAmount(value))).toBe(value);
+      }
+    });
+  });
+
+  describe('conversions', () => {
+    it('should recover the decimal a node meant from a float', () => {
+      expect(amountFromCoins(0.1 + 0.2)).toBe(30_000_000n);
+      expect(amountFromCoins(0.29)).toBe(29_000_000n);
+      expect(amountFromCoins(1e-8)).toBe(1n);
+      expect(() => amountFromCoins(NaN)).toThrow('Invalid amount');
+    });
+
+    it('should only accept whole satoshis', () => {
+      expect(amountFromSatoshis(546)).toBe(546n);
+      expect(amountFromSatoshis('9007199254740993')).toBe(9_007_199_254_740_993n);
+      expect(() => amountFromSatoshis(0.5)).toThrow('Invalid satoshi amount');
+      expect(() => amountFromSatoshis('1.0')).toThrow('Invalid satoshi amount');
+    });
+
+    it('should sum and compare amounts', () => {
+      expect(sumAmounts([])).toBe(0n);
+      expect(sumAmounts([1n, 2n, 3n])).toBe(6n);
+      expect(maxAmount(5n, 9n, 2n)).toBe(9n);
+    });
+  });
+
+  it('should send exactly the parsed amount', () => {
+    const wallet = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000001');
+    const utxos: UTXO[] = [{ txid: '11'.repeat(32), vout: 0, value: 100_000_000n, confirmations: 1 }];
+    const txData = buildTransaction(wallet.address, wallet.address, parseAmount('0.29'), utxos, wallet.address);
+
+    expect(txData.outputs[0].value).toBe(29_000_000n);
+    expect(sumAmounts(txData.outputs.map(output => output.value)) + txData.fee).toBe(100_000_000n);
+    expect(() => buildTransaction(wallet.address, wallet.address, 0.29 as any, utxos, wallet.address))
+      .toThrow('must be an Amount');
+  });
+});
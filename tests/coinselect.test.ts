@@ -0,0 +1,121 @@
+import {
+  branchAndBound,
+  consolidate,
+  largestFirst,
+  oldestFirst,
+  privacy,
+  selectCoins
+} from '../src/coinselect';
+import { buildTransaction } from '../src/transaction';
+import { importFromPrivateKey } from '../src/wallet';
+import { Amount, CoinSelectionOptions, InsufficientFundsError, UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+function utxo(id: string, value: Amount, confirmations: number): UTXO {
+  return { txid: id.repeat(32), vout: 0, value, confirmations };
+}
+
+const A = utxo('0a', 100_000n, 1);
+const B = utxo('0b', 50_000n, 50);
+const C = utxo('0c', 30_000n, 200);
+const D = utxo('0d', 20_000n, 5);
+const E = utxo('0e', 5_000n, 1000);
+const UTXOS = [A, B, C, D, E];
+
+// 1 sat/byte over the 148/34/10 size estimate
+const options: CoinSelectionOptions = {
+  calculateFee: (inputs, hasChange) => BigInt(10 + inputs.length * 148 + (hasChange ? 2 : 1) * 34)
+};
+
+describe('Coin Selection', () => {
+  it('should spend the largest UTXOs first', () => {
+    const result = largestFirst(UTXOS, 120_000n, options);
+
+    expect(result.inputs).toEqual([A, B]);
+    expect(result.fee).toBe(374n);
+    expect(result.change).toBe(150_000n - 120_000n - 374n);
+  });
+
+  it('should spend the most confirmed UTXOs first', () => {
+    const result = oldestFirst(UTXOS, 40_000n, options);
+
+    expect(result.inputs).toEqual([E, C, B]);
+    expect(result.fee).toBe(522n);
+    expect(result.change).toBe(85_000n - 40_000n - 522n);
+  });
+
+  it('should find an exact changeless match with branch and bound', () => {
+    const result = branchAndBound(UTXOS, 79_660n, options);
+
+    expect(result.inputs).toEqual([B, C]);
+    expect(result.fee).toBe(340n);
+    expect(result.change).toBe(0n);
+  });
+
+  it('should leave a match within the cost of change to the fee', () => {
+    const result = branchAndBound(UTXOS, 79_500n, options);
+
+    expect(result.inputs).toEqual([B, C]);
+    expect(result.fee).toBe(500n);
+    expect(result.change).toBe(0n);
+  });
+
+  it('should fall back to largest-first when no changeless match exists', () => {
+    expect(branchAndBound(UTXOS, 1_000n, options)).toEqual(largestFirst(UTXOS, 1_000n, options));
+  });
+
+  it('should prefer a single UTXO for privacy', () => {
+    const single = privacy(UTXOS, 25_000n, options);
+    expect(single.inputs).toEqual([C]);
+    expect(single.change).toBe(30_000n - 25_000n - 226n);
+
+    const combined = privacy(UTXOS, 160_000n, options);
+    expect(combined.inputs).toEqual([A, B, C]);
+  });
+
+  it('should consolidate every UTXO', () => {
+    const result = consolidate(UTXOS, 100_000n, options);
+
+    expect(result.inputs).toHaveLength(5);
+    expect(result.fee).toBe(818n);
+    expect(result.change).toBe(205_000n - 100_000n - 818n);
+  });
+
+  it('should drop dust change into the fee', () => {
+    const result = largestFirst([A], 99_500n, options);
+
+    expect(result.change).toBe(0n);
+    expect(result.fee).toBe(500n);
+  });
+
+  it('should throw when funds are insufficient', () => {
+    for (const strategy of [largestFirst, oldestFirst, branchAndBound, privacy, consolidate]) {
+      expect(() => strategy(UTXOS, 300_000n, options)).toThrow(InsufficientFundsError);
+    }
+  });
+
+  it('should select by name or custom selector', () => {
+    expect(selectCoins(UTXOS, 40_000n, options)).toEqual(oldestFirst(UTXOS, 40_000n, options));
+    expect(selectCoins(UTXOS, 40_000n, { ...options, strategy: 'largest-first' }).inputs).toEqual([A]);
+
+    const custom = jest.fn(() => ({ inputs: [D], fee: 0n, change: 0n }));
+    expect(selectCoins(UTXOS, 20_000n, { ...options, strategy: custom }).inputs).toEqual([D]);
+    expect(custom).toHaveBeenCalledWith(UTXOS, 20_000n, expect.anything());
+
+    expect(() => selectCoins(UTXOS, 1n, { ...options, strategy: 'random' as any })).toThrow('Unknown coin selection strategy');
+  });
+
+  it('should apply the chosen strategy in buildTransaction', () => {
+    const wallet = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000001');
+    const recipient = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+    const coins = [utxo('01', 500_000_000n, 1), utxo('02', 200_000_000n, 100)];
+
+    const oldest = buildTransaction(wallet.address, recipient.address, parseAmount('1'), coins, wallet.address);
+    expect(oldest.inputs.map(i => i.txid)).toEqual([coins[1].txid]);
+
+    const largest = buildTransaction(wallet.address, recipient.address, parseAmount('1'), coins, wallet.address, {
+      coinSelection: 'largest-first'
+    });
+    expect(largest.inputs.map(i => i.txid)).toEqual([coins[0].txid]);
+  });
+});
@@ -0,0 +1,99 @@
+import { discoverAccount, scanAccount, deriveAccountAddress, CHANGE_CHAIN, RECEIVE_CHAIN } from '../src/discovery';
+import { derivePath, getAccountPath, neuterNode } from '../src/hd';
+import { importFromMnemonic, mnemonicToMasterNode } from '../src/wallet';
+import { Amount, Transaction, UTXO } from '../src/types';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+function createStubRPC(funded: Record<string, Amount>) {
+  const queried: string[] = [];
+
+  return {
+    queried,
+    async getTransactionHistory(address: string): Promise<Transaction[]> {
+      queried.push(address);
+      if (!(address in funded)) return [];
+      return [{ txid: 'aa'.repeat(32), amount: funded[address], isIncoming: true, confirmations: 3, timestamp: 0, address }];
+    },
+    async getUTXOs(address: string): Promise<UTXO[]> {
+      if (!funded[address]) return [];
+      return [{ txid: 'bb'.repeat(32), vout: 0, value: funded[address], confirmations: 3 }];
+    }
+  };
+}
+
+describe('Account Discovery', () => {
+  let accountPath: string;
+  let addressAt: (chain: number, index: number) => string;
+
+  beforeAll(async () => {
+    accountPath = getAccountPath(0);
+    const account = derivePath(await mnemonicToMasterNode(MNEMONIC), accountPath);
+    addressAt = (chain, index) => deriveAccountAddress(account, chain, index).address;
+  });
+
+  it('should find used addresses within the gap limit', async () => {
+    const rpc = createStubRPC({
+      [addressAt(RECEIVE_CHAIN, 0)]: 1000n,
+      [addressAt(RECEIVE_CHAIN, 3)]: 2500n,
+      [addressAt(CHANGE_CHAIN, 0)]: 0n
+    });
+
+    const account = await discoverAccount(MNEMONIC, rpc, { gapLimit: 5 });
+
+    expect(account.accountPath).toBe(accountPath);
+    expect(account.receive.map(a => a.index)).toEqual([0, 3]);
+    expect(account.change.map(a => a.index)).toEqual([0]);
+    expect(account.nextReceiveIndex).toBe(4);
+    expect(account.nextChangeIndex).toBe(1);
+    expect(account.balance).toBe(3500n);
+    expect(account.receive[1].path).toBe(`${accountPath}/0/3`);
+    expect(account.receive[0].privateKey).toHaveLength(64);
+
+    // receive: 4 scanned + 5 gap, change: 1 scanned + 5 gap
+    expect(rpc.queried).toHaveLength(15);
+  });
+
+  it('should stop before addresses beyond the gap limit', async () => {
+    const rpc = createStubRPC({ [addressAt(RECEIVE_CHAIN, 6)]: 1000n });
+
+    const account = await discoverAccount(MNEMONIC, rpc, { gapLimit: 5 });
+
+    expect(account.receive).toEqual([]);
+    expect(account.nextReceiveIndex).toBe(0);
+    expect(account.balance).toBe(0n);
+  });
+
+  it('should scan public account nodes without private keys', async () => {
+    const rpc = createStubRPC({ [addressAt(RECEIVE_CHAIN, 1)]: 42n });
+    const account = derivePath(await mnemonicToMasterNode(MNEMONIC), accountPath);
+
+    const result = await scanAccount(neuterNode(account), rpc, { gapLimit: 3 });
+
+    expect(result.receive).toHaveLength(1);
+    expect(result.receive[0].privateKey).toBeUndefined();
+    expect(result.receive[0].path).toBe('m/0/1');
+    expect(result.balance).toBe(42n);
+  });
+
+  it('should discover the account while importing a mnemonic', async () => {
+    const rpc = createStubRPC({ [addressAt(RECEIVE_CHAIN, 2)]: 700n, [addressAt(CHANGE_CHAIN, 0)]: 300n });
+
+    const wallet = await importFromMnemonic(MNEMONIC, { discover: rpc, gapLimit: 3 });
+
+    expect(wallet.address).toBe(addressAt(RECEIVE_CHAIN, 0));
+    expect(wallet.account!.receive.map(a => a.index)).toEqual([2]);
+    expect(wallet.account!.nextReceiveIndex).toBe(3);
+    expect(wallet.account!.balance).toBe(1000n);
+    expect((await importFromMnemonic(MNEMONIC)).account).toBeUndefined();
+    await expect(importFromMnemonic(MNEMONIC, { discover: rpc, scheme: 'legacy' })).rejects.toThrow('needs the bip32 scheme');
+
+    const second = await importFromMnemonic(MNEMONIC, { discover: rpc, gapLimit: 1, accountIndex: 1 });
+    expect(second.derivationPath).toBe(`${getAccountPath(1)}/0/0`);
+    expect(second.account!.accountPath).toBe(getAccountPath(1));
+  });
+
+  it('should reject an invalid gap limit', async () => {
+    await expect(discoverAccount(MNEMONIC, createStubRPC({}), { gapLimit: 0 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,135 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  WalletError,
+  InvalidAddressError,
+  InsufficientFundsError,
+  RPCError,
+  SigningError,
+  SerializationError,
+  UTXO
+} from '../src/types';
+import { buildTransaction, createTransactionHex, decodeTransaction, signTransaction } from '../src/transaction';
+import { decodePsbt } from '../src/psbt';
+import { validateAddress } from '../src/address';
+import { createRPCClient } from '../src/rpc';
+import { importFromPrivateKey } from '../src/wallet';
+import { parseAmount } from '../src/amount';
+import { DEFAULT_FEE_RATE } from '../src/fee';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+// Catch what `fn` throws, failing the test if it returns
+function thrown(fn: () => unknown): any {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('Errors', () => {
+  describe('codes and fields', () => {
+    it('should give every error a stable code', () => {
+      expect(new WalletError('x').code).toBe('WALLET_ERROR');
+      expect(new SigningError('x')).toBeInstanceOf(WalletError);
+
+      const address = thrown(() => validateAddress('nope'));
+      expect(address).toBeInstanceOf(InvalidAddressError);
+      expect(address).toMatchObject({ code: 'INVALID_ADDRESS', address: 'nope' });
+    });
+
+    it('should report insufficient funds as amounts', () => {
+      const wallet = importFromPrivateKey(PRIVATE_KEY);
+      const utxos: UTXO[] = [{ txid: '11'.repeat(32), vout: 0, value: 1_000_000n, confirmations: 1 }];
+      const error = thrown(() => buildTransaction(wallet.address, wallet.address, parseAmount('5'), utxos, wallet.address));
+
+      expect(error).toBeInstanceOf(InsufficientFundsError);
+      expect(error.code).toBe('INSUFFICIENT_FUNDS');
+      expect(error.available).toBe(1_000_000n);
+      expect(error.required).toBeGreaterThan(500_000_000n);
+    });
+
+    it('should keep the cause of wrapped errors', () => {
+      const cause = new Error('socket hang up');
+      const error = new RPCError('Failed', { status: 502, endpoint: '/api/ping', cause });
+
+      expect(error).toMatchObject({ code: 'RPC_ERROR', status: 502, endpoint: '/api/ping', cause });
+      expect(new WalletError('x')).not.toHaveProperty('cause');
+    });
+
+    it('should keep the HTTP status out of RPCError.code', () => {
+      expect(new RPCError('Failed', 404)).toMatchObject({ code: 'RPC_ERROR', status: 404 });
+    });
+  });
+
+  describe('signing and serialization', () => {
+    it('should throw SigningError for inputs that cannot be signed', async () => {
+      const wallet = importFromPrivateKey(PRIVATE_KEY);
+      const utxos: UTXO[] = [{ txid: '11'.repeat(32), vout: 0, value: 50_000_000n, confirmations: 1 }];
+      const txData = buildTransaction(wallet.address, wallet.address, parseAmount('0.1'), utxos, wallet.address);
+      const error = await signTransaction(createTransactionHex(txData.inputs, txData.outputs), PRIVATE_KEY, txData.inputs, utxos)
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(SigningError);
+      expect(error).toMatchObject({ code: 'SIGNING_FAILED', inputIndex: 0 });
+    });
+
+    it('should throw SerializationError for undecodable data', () => {
+      const transaction = thrown(() => decodeTransaction('0100000001'));
+      expect(transaction).toBeInstanceOf(SerializationError);
+      expect(transaction.code).toBe('SERIALIZATION_FAILED');
+      expect(transaction.cause.message).toBe('unexpected end of data');
+
+      expect(thrown(() => decodePsbt('AAAA'))).toBeInstanceOf(SerializationError);
+    });
+  });
+
+  describe('RPC failures', () => {
+    let server: http.Server;
+    let url: string;
+    let status: number;
+
+    beforeAll(async () => {
+      server = http.createServer((_req, res) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'node is syncing' }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should surface outages instead of returning empty results', async () => {
+      status = 503;
+      const rpc = createRPCClient(url);
+
+      const history = await rpc.getTransactionHistory('TAddress').catch(error => error);
+      expect(history).toBeInstanceOf(RPCError);
+      expect(history).toMatchObject({ status: 503, endpoint: '/api/wallet/transactions/TAddress' });
+      expect(history.message).toContain('node is syncing');
+
+      await expect(rpc.estimateFee(1, 2)).rejects.toMatchObject({ code: 'RPC_ERROR', status: 503 });
+
+      const feeRate = await createRPCClient(url, { retries: 0 }).getFeeRate().catch(error => error);
+      expect(feeRate).toMatchObject({ code: 'RPC_ERROR', status: 503, endpoint: '/api/fee/estimate' });
+      expect(feeRate.cause).toBeDefined();
+      await expect(createRPCClient(url, { retries: 0 }).validateAddress('TAddress')).rejects.toMatchObject({ status: 503 });
+    });
+
+    it('should fall back only when the endpoint does not exist', async () => {
+      status = 404;
+      const rpc = createRPCClient(url);
+
+      await expect(rpc.getTransactionHistory('TAddress')).resolves.toEqual([]);
+      await expect(rpc.estimateFee(1, 2)).resolves.toBeGreaterThan(0);
+      await expect(rpc.getFeeRate()).resolves.toBe(DEFAULT_FEE_RATE);
+      await expect(rpc.validateAddress(importFromPrivateKey(PRIVATE_KEY).address)).resolves.toBe(true);
+      await expect(rpc.validateAddress('TAddress')).resolves.toBe(false);
+    });
+  });
+});
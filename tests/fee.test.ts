@@ -0,0 +1,96 @@
+import {
+  FEE_RATE_PRESETS,
+  MIN_FEE_RATE,
+  calculateFee,
+  estimateDataOutputSize,
+  estimateInputSize,
+  estimateOutputSize,
+  estimateSignedTransactionSize,
+  getTransactionSize,
+  resolveFeeRate
+} from '../src/fee';
+import { buildTransaction, createTransactionHex, estimateFee, estimateTransactionSize, signTransaction } from '../src/transaction';
+import { addressToScriptPubKey, createMultisigScript, getOutputScript } from '../src/script';
+import { importFromPrivateKey } from '../src/wallet';
+import { UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+describe('Fees', () => {
+  const wallet = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000001');
+  const recipient = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+  const scriptPubKey = addressToScriptPubKey(wallet.address);
+
+  const utxos: UTXO[] = [1, 2, 3].map(n => ({
+    txid: n.toString(16).padStart(2, '0').repeat(32),
+    vout: n,
+    value: 100_000_000n,
+    confirmations: 10 * n,
+    scriptPubKey
+  }));
+
+  it('should size P2PKH inputs and outputs', () => {
+    expect(estimateInputSize()).toBe(148);
+    expect(estimateOutputSize(scriptPubKey)).toBe(34);
+    expect(estimateTransactionSize(1, 2)).toBe(226);
+    expect(estimateSignedTransactionSize([{}, {}], [scriptPubKey])).toBe(10 + 2 * 148 + 34);
+  });
+
+  it('should size P2SH multisig inputs', () => {
+    const keys = [wallet.publicKey, recipient.publicKey, importFromPrivateKey('03'.padStart(64, '0')).publicKey];
+    const redeemScript = createMultisigScript(2, keys);
+
+    // OP_0 + 2 signatures + PUSHDATA1 redeem script (105 bytes), 3-byte length varint
+    expect(estimateInputSize({ redeemScript })).toBe(32 + 4 + 3 + 1 + 2 * 73 + 2 + 105 + 4);
+  });
+
+  it('should size OP_RETURN data outputs', () => {
+    // value + script length + OP_RETURN + push opcode + data
+    expect(estimateDataOutputSize(32)).toBe(8 + 1 + 1 + 1 + 32);
+    expect(estimateDataOutputSize(80)).toBe(8 + 1 + 1 + 2 + 80);
+    expect(estimateTransactionSize(1, 2, 32)).toBe(226 + 43);
+    expect(estimateFee(1, 2, 700, 32)).toBe(BigInt((226 + 43) * 700));
+  });
+
+  it('should scale the fee with size and rate', () => {
+    expect(calculateFee(226, 700)).toBe(158_200n);
+    expect(estimateFee(2, 2, 700)).toBeGreaterThan(estimateFee(1, 2, 700));
+    expect(estimateFee(1, 2, 1500)).toBeGreaterThan(estimateFee(1, 2, 700));
+  });
+
+  it('should match the size of the signed transaction', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('2.5'), utxos, wallet.address, { feeRate: 1000 });
+    const signed = await signTransaction(createTransactionHex(txData.inputs, txData.outputs), wallet.privateKey, txData.inputs, utxos);
+
+    const estimated = estimateSignedTransactionSize(txData.inputs.map(() => ({})), txData.outputs.map(output => getOutputScript(output)));
+    const actual = getTransactionSize(signed);
+
+    expect(txData.inputs).toHaveLength(3);
+    expect(txData.fee).toBe(BigInt(estimated * 1000));
+    // Only shorter DER signatures can make the real transaction smaller
+    expect(actual).toBeLessThanOrEqual(estimated);
+    expect(actual).toBeGreaterThanOrEqual(estimated - 2 * txData.inputs.length);
+  });
+
+  it('should keep every preset above the per-byte floor', () => {
+    const size = estimateTransactionSize(1, 2);
+
+    for (const feeRate of Object.values(FEE_RATE_PRESETS)) {
+      expect(feeRate).toBeGreaterThan(MIN_FEE_RATE);
+      expect(estimateFee(1, 2, feeRate)).toBe(BigInt(size * feeRate));
+    }
+    // A typical transaction at the low preset scales with size, with no flat minimum
+    expect(buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), utxos.slice(0, 1), wallet.address,
+      { feeRate: 'low' }).fee).toBe(BigInt(size * FEE_RATE_PRESETS.low));
+    expect(resolveFeeRate(MIN_FEE_RATE)).toBe(MIN_FEE_RATE);
+    expect(() => resolveFeeRate(MIN_FEE_RATE - 0.5)).toThrow('at least 200 sat/byte');
+  });
+
+  it('should resolve presets, overrides and defaults', () => {
+    expect(resolveFeeRate('high')).toBe(FEE_RATE_PRESETS.high);
+    expect(resolveFeeRate(450)).toBe(450);
+    expect(resolveFeeRate(undefined, 900)).toBe(900);
+    expect(resolveFeeRate(undefined, 1)).toBe(MIN_FEE_RATE);
+    expect(() => resolveFeeRate(MIN_FEE_RATE - 1)).toThrow();
+    expect(() => resolveFeeRate('urgent' as any)).toThrow('Unknown fee priority');
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  bumpFee,
+  createChildPaysForParent,
+  createReplacementTransaction,
+  getSpentOutputs,
+  getTransactionFee,
+  signalsReplaceByFee
+} from '../src/feebump';
+import {
+  buildSweepTransaction,
+  buildTransaction,
+  createTransactionHex,
+  decodeTransaction,
+  encodeTransaction,
+  signTransaction
+} from '../src/transaction';
+import { FEE_RATE_PRESETS, estimateSignedTransactionSize } from '../src/fee';
+import { SEQUENCE_RBF } from '../src/timelock';
+import { addressToScriptPubKey } from '../src/script';
+import { importFromPrivateKey } from '../src/wallet';
+import { DecodedTransaction, TransactionInput, TransactionOutput, UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+describe('Fee Bumping', () => {
+  const wallet = importFromPrivateKey(PRIVATE_KEY);
+  const recipient = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+  const scriptPubKey = addressToScriptPubKey(wallet.address);
+
+  // Funding transaction paying the wallet twice
+  const funding = decodeTransaction(encodeTransaction({
+    version: 1,
+    inputs: [{ txid: '99'.repeat(32), vout: 0 }],
+    outputs: [{ value: 100_000_000n, scriptPubKey }, { value: 40_000_000n, scriptPubKey }],
+    locktime: 0
+  }));
+  const utxo: UTXO = { txid: funding.txid, vout: 0, value: 100_000_000n, confirmations: 1, scriptPubKey };
+  const extra: UTXO = { txid: funding.txid, vout: 1, value: 40_000_000n, confirmations: 1, scriptPubKey };
+
+  async function signAndDecode(txData: { inputs: TransactionInput[]; outputs: TransactionOutput[] }, utxos: UTXO[]): Promise<DecodedTransaction> {
+    const txHex = createTransactionHex(txData.inputs, txData.outputs);
+    return decodeTransaction(await signTransaction(txHex, PRIVATE_KEY, txData.inputs, utxos));
+  }
+
+  function createStubRPC(transactions: DecodedTransaction[]) {
+    return {
+      async getDecodedTransaction(txid: string): Promise<DecodedTransaction> {
+        const tx = transactions.find(t => t.txid === txid);
+        if (!tx) throw new Error('not found');
+        return tx;
+      }
+    };
+  }
+
+  it('should signal replace-by-fee only when requested', async () => {
+    const plain = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address);
+    const replaceable = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, { replaceable: true });
+
+    expect(signalsReplaceByFee(await signAndDecode(plain, [utxo]))).toBe(false);
+    expect(signalsReplaceByFee(await signAndDecode(replaceable, [utxo]))).toBe(true);
+    expect(replaceable.inputs[0].sequence).toBe(SEQUENCE_RBF);
+  });
+
+  it('should bump the fee by reducing change and reusing the original inputs', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, {
+      replaceable: true,
+      feeRate: 'low'
+    });
+    const original = await signAndDecode(txData, [utxo]);
+    const rpc = createStubRPC([funding, original]);
+
+    const spent = await getSpentOutputs(original, rpc);
+    expect(spent).toEqual([{ ...utxo, confirmations: 0 }]);
+    expect(getTransactionFee(original, spent)).toBe(txData.fee);
+
+    const bumped = await bumpFee(original.txid, rpc, { feeRate: 'high', changeAddress: wallet.address });
+    const size = estimateSignedTransactionSize([{}], [scriptPubKey, scriptPubKey]);
+
+    expect(bumped.inputs).toEqual([{ txid: utxo.txid, vout: 0, sequence: SEQUENCE_RBF }]);
+    expect(bumped.outputs[0]).toEqual({ address: recipient.address, value: 50_000_000n });
+    expect(bumped.fee).toBe(BigInt(size * FEE_RATE_PRESETS.high));
+    expect(bumped.outputs[1]).toEqual({ address: wallet.address, value: 50_000_000n - bumped.fee });
+  });
+
+  it('should pay at least the original fee plus relay of the replacement', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, {
+      replaceable: true,
+      feeRate: 'high'
+    });
+    const original = await signAndDecode(txData, [utxo]);
+
+    const bumped = createReplacementTransaction(original, [utxo], { feeRate: 'high', changeAddress: wallet.address });
+
+    expect(bumped.fee).toBe(txData.fee + BigInt(estimateSignedTransactionSize([{}], [scriptPubKey, scriptPubKey]) * 200));
+  });
+
+  it('should keep OP_RETURN memos in the replacement', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, {
+      replaceable: true,
+      memo: 'invoice #42'
+    });
+
+    const bumped = createReplacementTransaction(await signAndDecode(txData, [utxo]), [utxo], { feeRate: 'high', changeAddress: wallet.address });
+
+    expect(bumped.outputs.slice(0, 2)).toEqual(txData.outputs.slice(0, 2));
+    expect(bumped.fee).toBeGreaterThan(txData.fee);
+  });
+
+  it('should add inputs when the original has no change to reduce', async () => {
+    const txData = buildSweepTransaction(wallet.address, recipient.address, [utxo], { replaceable: true, feeRate: 'low' });
+    const original = await signAndDecode(txData, [utxo]);
+
+    expect(() => createReplacementTransaction(original, [utxo], { feeRate: 'high', changeAddress: wallet.address }))
+      .toThrow('Insufficient funds');
+
+    const bumped = createReplacementTransaction(original, [utxo], {
+      feeRate: 'high',
+      changeAddress: wallet.address,
+      utxos: [utxo, extra]
+    });
+
+    expect(bumped.utxos).toEqual([utxo, extra]);
+    expect(bumped.outputs[0]).toEqual(txData.outputs[0]);
+    expect(bumped.outputs[1].address).toBe(wallet.address);
+    expect(bumped.outputs.reduce((sum, o) => sum + o.value, 0n) + bumped.fee).toBe(140_000_000n);
+  });
+
+  it('should never spend outputs of the transaction being replaced', async () => {
+    const txData = buildSweepTransaction(wallet.address, wallet.address, [utxo], { replaceable: true, feeRate: 'low' });
+    const original = await signAndDecode(txData, [utxo]);
+    const ownOutput: UTXO = { txid: original.txid, vout: 0, value: txData.outputs[0].value, confirmations: 1, scriptPubKey };
+
+    expect(() => createReplacementTransaction(original, [utxo], {
+      feeRate: 'high',
+      changeAddress: recipient.address,
+      utxos: [ownOutput]
+    })).toThrow('Insufficient funds');
+  });
+
+  it('should not add unconfirmed inputs to a replacement', async () => {
+    const txData = buildSweepTransaction(wallet.address, recipient.address, [utxo], { replaceable: true, feeRate: 'low' });
+    const original = await signAndDecode(txData, [utxo]);
+
+    expect(() => createReplacementTransaction(original, [utxo], {
+      feeRate: 'high',
+      changeAddress: wallet.address,
+      utxos: [{ ...extra, confirmations: 0 }]
+    })).toThrow('Insufficient funds');
+  });
+
+  it('should refuse to replace transactions without the RBF signal', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address);
+
+    const original = await signAndDecode(txData, [utxo]);
+
+    expect(() => createReplacementTransaction(original, [utxo], {
+      feeRate: 'high',
+      changeAddress: wallet.address
+    })).toThrow('does not signal replace-by-fee');
+  });
+
+  it('should build a child paying for its parent', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, { feeRate: 'low' });
+    const parent = await signAndDecode(txData, [utxo]);
+
+    const child = createChildPaysForParent(parent, txData.fee, { address: wallet.address, feeRate: 'high' });
+    const childSize = estimateSignedTransactionSize([{}], [scriptPubKey]);
+
+    expect(child.inputs).toEqual([{ txid: parent.txid, vout: 1, sequence: SEQUENCE_RBF }]);
+    expect(child.fee).toBe(BigInt(Math.ceil((parent.size + childSize) * FEE_RATE_PRESETS.high)) - txData.fee);
+    expect(child.outputs).toEqual([{ address: wallet.address, value: txData.outputs[1].value - child.fee }]);
+    expect(() => createChildPaysForParent(parent, txData.fee, { address: 'TFake', feeRate: 'high' })).toThrow('no output paying');
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  createMasterNode,
+  deriveChild,
+  derivePath,
+  neuterNode,
+  parseDerivationPath,
+  formatDerivationPath,
+  toExtendedKey,
+  fromExtendedKey,
+  HARDENED_OFFSET,
+  DEFAULT_DERIVATION_PATH
+} from '../src/hd';
+import { generateWallet, importFromMnemonic } from '../src/wallet';
+import { isValidAddress } from '../src/address';
+import { fromHex } from '../src/crypto';
+import { createRPCClient } from '../src/rpc';
+import { REGTEST } from '../src/network';
+import { WalletConfig } from '../src/types';
+
+// BIP32 test vector 1 uses the Bitcoin mainnet version bytes
+const BITCOIN_VERSIONS = { privateVersion: 0x0488ade4, publicVersion: 0x0488b21e };
+const SEED = fromHex('000102030405060708090a0b0c0d0e0f');
+
+describe('HD Keys', () => {
+  it('should derive the BIP32 master key', () => {
+    const master = createMasterNode(SEED);
+
+    expect(master.privateKey).toBe('e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35');
+    expect(master.chainCode).toBe('873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508');
+    expect(toExtendedKey(master, BITCOIN_VERSIONS)).toBe(
+      'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi'
+    );
+    expect(toExtendedKey(master, { ...BITCOIN_VERSIONS, publicOnly: true })).toBe(
+      'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8'
+    );
+  });
+
+  it('should derive BIP32 test vector chains', () => {
+    const node = derivePath(createMasterNode(SEED), "m/0'/1/2'/2/1000000000");
+
+    expect(node.depth).toBe(5);
+    expect(node.privateKey).toBe('471b76e389e528d6de6d816857e012c5455051cad6660850e58372a6c3e6e7c8');
+    expect(node.chainCode).toBe('c783e67b921d2beb8f6b389cc646d7263b4145701dadd2161548a8b078e65e9e');
+  });
+
+  it('should match private derivation when deriving from a public node', () => {
+    const account = derivePath(createMasterNode(SEED), "m/44'/0'/0'");
+    const fromPrivate = derivePath(account, '0/7');
+    const fromPublic = derivePath(neuterNode(account), '0/7');
+
+    expect(fromPublic.privateKey).toBeUndefined();
+    expect(fromPublic.publicKey).toBe(fromPrivate.publicKey);
+    expect(fromPublic.chainCode).toBe(fromPrivate.chainCode);
+  });
+
+  it('should refuse hardened derivation from a public node', () => {
+    const master = neuterNode(createMasterNode(SEED));
+
+    expect(() => deriveChild(master, HARDENED_OFFSET)).toThrow();
+  });
+
+  it('should round-trip extended keys', () => {
+    const node = derivePath(createMasterNode(SEED), "m/44'/1919'/0'");
+    const xprv = toExtendedKey(node);
+    const xpub = toExtendedKey(node, { publicOnly: true });
+
+    expect(xprv.startsWith('Tprv')).toBe(true);
+    expect(xpub.startsWith('Tpub')).toBe(true);
+    expect(fromExtendedKey(xprv)).toEqual(node);
+    expect(fromExtendedKey(xpub)).toEqual(neuterNode(node));
+    expect(() => fromExtendedKey(xprv.slice(0, -1) + 'x')).toThrow();
+  });
+
+  it('should parse and format derivation paths', () => {
+    const indexes = parseDerivationPath("m/44'/1919'/0'/1/5");
+
+    expect(indexes).toEqual([44 + HARDENED_OFFSET, 1919 + HARDENED_OFFSET, HARDENED_OFFSET, 1, 5]);
+    expect(formatDerivationPath(indexes)).toBe("m/44'/1919'/0'/1/5");
+    expect(() => parseDerivationPath('m/abc')).toThrow();
+  });
+
+  it('should keep legacy mnemonic derivation by default', async () => {
+    const generated = await generateWallet();
+    const legacy = await importFromMnemonic(generated.mnemonic, { scheme: 'legacy' });
+    const hd = await importFromMnemonic(generated.mnemonic, { scheme: 'bip32' });
+
+    expect(legacy.address).toBe(generated.address);
+    expect(generated.derivationPath).toBeUndefined();
+    expect(hd.address).not.toBe(generated.address);
+    expect(hd.derivationPath).toBe(DEFAULT_DERIVATION_PATH);
+    expect(isValidAddress(hd.address)).toBe(true);
+  });
+
+  it('should derive different addresses for different paths', async () => {
+    const generated = await generateWallet();
+    const first = await importFromMnemonic(generated.mnemonic, { derivationPath: "m/44'/1919'/0'/0/0" });
+    const second = await importFromMnemonic(generated.mnemonic, { derivationPath: "m/44'/1919'/0'/0/1" });
+
+    expect(first.address).not.toBe(second.address);
+    expect(second.derivationPath).toBe("m/44'/1919'/0'/0/1");
+  });
+
+  it('should derive from the WalletConfig derivation path', async () => {
+    const generated = await generateWallet();
+    const config: WalletConfig = { derivationPath: "m/44'/1919'/0'/0/1", network: REGTEST };
+    const wallet = await importFromMnemonic(generated.mnemonic, config);
+
+    expect(wallet.derivationPath).toBe(config.derivationPath);
+    expect(isValidAddress(wallet.address, REGTEST)).toBe(true);
+    expect(createRPCClient(config).network).toBe(REGTEST);
+  });
+});
@@ -0,0 +1,81 @@
+import { hashMessage, recoverMessagePublicKey, signMessage, verifyMessage } from '../src/message';
+import { generateAddress, generateScriptAddress } from '../src/address';
+import { createMultisigScript } from '../src/script';
+import { derivePublicKeyLegacy, importFromPrivateKey } from '../src/wallet';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+describe('Message Signing', () => {
+  const wallet = importFromPrivateKey(PRIVATE_KEY);
+  const other = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+  const message = 'I own this address';
+
+  it('should sign and verify a message', async () => {
+    const signature = await signMessage(PRIVATE_KEY, message);
+
+    expect(Buffer.from(signature, 'base64')).toHaveLength(65);
+    expect(recoverMessagePublicKey(message, signature)).toBe(wallet.publicKey);
+    expect(verifyMessage(wallet.address, message, signature)).toBe(true);
+    // Deterministic (RFC6979 nonces)
+    expect(await signMessage(PRIVATE_KEY, message, wallet.address)).toBe(signature);
+  });
+
+  it('should reject other messages, addresses and tampered signatures', async () => {
+    const signature = await signMessage(PRIVATE_KEY, message);
+    const tampered = Buffer.from(signature, 'base64');
+    tampered[40] ^= 1;
+
+    expect(verifyMessage(wallet.address, message + '.', signature)).toBe(false);
+    expect(verifyMessage(other.address, message, signature)).toBe(false);
+    expect(verifyMessage(wallet.address, message, tampered.toString('base64'))).toBe(false);
+    expect(verifyMessage(wallet.address, message, 'not a signature')).toBe(false);
+    expect(() => verifyMessage('TInvalid', message, signature)).toThrow();
+  });
+
+  it('should only accept compressed key headers', async () => {
+    const bytes = Buffer.from(await signMessage(PRIVATE_KEY, message), 'base64');
+    bytes[0] -= 4;
+
+    expect(() => recoverMessagePublicKey(message, bytes.toString('base64'))).toThrow('bad header byte');
+  });
+
+  it('should verify legacy addresses only against a trusted signing key', async () => {
+    const legacyAddress = generateAddress(derivePublicKeyLegacy(PRIVATE_KEY));
+    const signature = await signMessage(PRIVATE_KEY, message, legacyAddress);
+
+    expect(signature).toBe(await signMessage(PRIVATE_KEY, message));
+    expect(verifyMessage(legacyAddress, message, signature, undefined, { signingPublicKey: wallet.publicKey })).toBe(true);
+    expect(verifyMessage(legacyAddress, message, signature)).toBe(false);
+    expect(verifyMessage(legacyAddress, message + '.', signature, undefined, { signingPublicKey: wallet.publicKey })).toBe(false);
+
+    // Another key's signature does not verify against the owner's record
+    const forged = await signMessage(other.privateKey, message);
+    expect(verifyMessage(legacyAddress, message, forged, undefined, { signingPublicKey: wallet.publicKey })).toBe(false);
+    await expect(signMessage(other.privateKey, message, legacyAddress)).rejects.toThrow('does not match address');
+  });
+
+  it('should not accept a signature with an appended legacy public key', async () => {
+    // Legacy public keys are visible in the scriptSig of every spend
+    const victimKey = derivePublicKeyLegacy(PRIVATE_KEY);
+    const forged = Buffer.concat([
+      Buffer.from(await signMessage(other.privateKey, message), 'base64'),
+      Buffer.from(victimKey, 'hex')
+    ]).toString('base64');
+
+    expect(verifyMessage(generateAddress(victimKey), message, forged)).toBe(false);
+    expect(() => recoverMessagePublicKey(message, forged)).toThrow('wrong length');
+  });
+
+  it('should refuse addresses the key cannot sign for', async () => {
+    const multisig = generateScriptAddress(createMultisigScript(1, [wallet.publicKey]));
+
+    await expect(signMessage(PRIVATE_KEY, message, other.address)).rejects.toThrow('does not match address');
+    await expect(signMessage(PRIVATE_KEY, message, multisig)).rejects.toThrow('does not match address');
+    expect(verifyMessage(multisig, message, await signMessage(PRIVATE_KEY, message))).toBe(false);
+  });
+
+  it('should commit to the magic prefix and message length', () => {
+    expect(hashMessage('a')).not.toEqual(hashMessage('a\u0000'));
+    expect(hashMessage(message)).toHaveLength(32);
+  });
+});
@@ -0,0 +1,95 @@
+import * as bip39 from 'bip39';
+import {
+  detectMnemonicLanguage,
+  diagnoseMnemonic,
+  getWordlist,
+  normalizeMnemonic,
+  suggestWords
+} from '../src/mnemonic';
+import { generateWallet, importFromMnemonic, isValidMnemonic, mnemonicToMasterNode } from '../src/wallet';
+import { createMasterNode } from '../src/hd';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const ZERO_ENTROPY = '00'.repeat(16);
+
+describe('Mnemonics', () => {
+  describe('normalizeMnemonic', () => {
+    it('should fold case and whitespace', () => {
+      expect(normalizeMnemonic(`  ${MNEMONIC.toUpperCase().replace(/ /g, ' \t\n ')}  `)).toBe(MNEMONIC);
+    });
+
+    it('should decompose accents and ideographic spaces', () => {
+      const spanish = bip39.entropyToMnemonic(ZERO_ENTROPY, getWordlist('spanish'));
+      const japanese = bip39.entropyToMnemonic(ZERO_ENTROPY, getWordlist('japanese'));
+
+      expect(normalizeMnemonic(spanish.normalize('NFC'))).toBe(spanish.normalize('NFKD'));
+      expect(japanese).toContain('　');
+      expect(normalizeMnemonic(japanese)).toBe(japanese.normalize('NFKD'));
+    });
+  });
+
+  describe('languages', () => {
+    it.each(['spanish', 'japanese'] as const)('should round-trip a %s mnemonic to the same seed', async language => {
+      const wallet = await generateWallet({ language });
+      const canonicalSeed = await bip39.mnemonicToSeed(wallet.mnemonic);
+      // Typed in composed form with ordinary spaces
+      const typed = wallet.mnemonic.normalize('NFC').split(/\s+/).join('  ');
+
+      expect(detectMnemonicLanguage(typed)).toBe(language);
+      expect((await importFromMnemonic(typed)).address).toBe(wallet.address);
+      expect((await mnemonicToMasterNode(typed)).privateKey).toBe(createMasterNode(canonicalSeed).privateKey);
+    });
+
+    it('should validate against a given language only', () => {
+      const french = bip39.entropyToMnemonic(ZERO_ENTROPY, getWordlist('french'));
+
+      expect(isValidMnemonic(french)).toBe(true);
+      expect(isValidMnemonic(french, 'french')).toBe(true);
+      expect(isValidMnemonic(french, 'english')).toBe(false);
+      expect(() => getWordlist('klingon' as any)).toThrow('Unsupported mnemonic language');
+    });
+  });
+
+  describe('diagnoseMnemonic', () => {
+    it('should accept a valid mnemonic', () => {
+      expect(diagnoseMnemonic(MNEMONIC)).toEqual({
+        valid: true,
+        normalized: MNEMONIC,
+        language: 'english',
+        wordCount: 12,
+        errors: [],
+        unknownWords: []
+      });
+    });
+
+    it('should report unknown words with suggestions', () => {
+      const result = diagnoseMnemonic(MNEMONIC.replace('abandon', 'abandn').replace('about', 'abuot'));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['unknown-words']);
+      expect(result.unknownWords).toEqual([
+        { index: 0, word: 'abandn', suggestions: ['abandon'] },
+        { index: 11, word: 'abuot', suggestions: expect.arrayContaining(['about']) }
+      ]);
+    });
+
+    it('should tell a wrong length from a bad checksum', () => {
+      expect(diagnoseMnemonic(MNEMONIC.split(' ').slice(1).join(' ')).errors).toEqual(['wrong-length']);
+      expect(diagnoseMnemonic(MNEMONIC.replace('about', 'abandon')).errors).toEqual(['bad-checksum']);
+      expect(diagnoseMnemonic('').errors).toEqual(['wrong-length']);
+    });
+
+    it('should reject invalid mnemonics on import with the reason', async () => {
+      await expect(importFromMnemonic(MNEMONIC.replace('about', 'abandon'))).rejects.toThrow('bad-checksum');
+    });
+  });
+
+  describe('suggestWords', () => {
+    it('should match truncated, swapped and unaccented words', () => {
+      expect(suggestWords('abst')).toEqual(['abstract']);
+      expect(suggestWords('acocunt')).toContain('account');
+      expect(suggestWords('abaco', 'spanish')).toContain('ábaco'.normalize('NFKD'));
+      expect(suggestWords('zzzzzz')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { MAINNET, REGTEST, TESTNET, getNetwork, getTransactionUrl } from '../src/network';
+import { generateScriptAddress, getAddressNetwork, isValidAddress } from '../src/address';
+import { decodeWIF, encodeWIF } from '../src/wif';
+import { createMasterNode, fromExtendedKey, toExtendedKey } from '../src/hd';
+import { buildTransaction, createTransactionHex, decodeTransaction } from '../src/transaction';
+import { createWatchOnlyWallet, importFromPrivateKey, parsePrivateKey } from '../src/wallet';
+import { signMessage, verifyMessage } from '../src/message';
+import { DEFAULT_RPC_URL, createRPCClient } from '../src/rpc';
+import { parseAmount } from '../src/amount';
+import { UTXO } from '../src/types';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+describe('Networks', () => {
+  const mainnetWallet = importFromPrivateKey(PRIVATE_KEY);
+  const regtestWallet = importFromPrivateKey(PRIVATE_KEY, REGTEST);
+
+  it('should look up profiles by name', () => {
+    expect(getNetwork('Regtest')).toBe(REGTEST);
+    expect(getNetwork('mainnet')).toBe(MAINNET);
+    expect(getNetwork('testnet')).toBe(TESTNET);
+    expect(() => getNetwork('signet')).toThrow('Unknown network: signet');
+    expect(() => getNetwork('constructor')).toThrow('Unknown network');
+  });
+
+  describe('addresses', () => {
+    it('should encode the same key differently per network', () => {
+      expect(mainnetWallet.address.startsWith('T')).toBe(true);
+      expect(regtestWallet.address).toMatch(/^[mn]/);
+      expect(regtestWallet.publicKey).toBe(mainnetWallet.publicKey);
+      expect(generateScriptAddress('51', REGTEST).startsWith('2')).toBe(true);
+    });
+
+    it('should only accept addresses of the given network', () => {
+      expect(isValidAddress(regtestWallet.address, REGTEST)).toBe(true);
+      expect(isValidAddress(regtestWallet.address)).toBe(false);
+      expect(isValidAddress(mainnetWallet.address, REGTEST)).toBe(false);
+      // Testnet and regtest share version bytes
+      expect(getAddressNetwork(regtestWallet.address)).toBe(TESTNET);
+      expect(isValidAddress(regtestWallet.address, TESTNET)).toBe(true);
+      expect(getAddressNetwork(mainnetWallet.address)).toBe(MAINNET);
+      expect(getAddressNetwork('nope')).toBeUndefined();
+    });
+  });
+
+  describe('keys', () => {
+    it('should serialize WIF keys with the network version byte', () => {
+      const wif = encodeWIF(PRIVATE_KEY, true, REGTEST);
+
+      expect(wif.startsWith('c')).toBe(true);
+      expect(decodeWIF(wif, REGTEST).privateKey).toBe(PRIVATE_KEY);
+      expect(() => decodeWIF(wif)).toThrow('wrong version byte');
+      expect(parsePrivateKey(wif, REGTEST)).toBe(PRIVATE_KEY);
+      expect(() => parsePrivateKey(encodeWIF(PRIVATE_KEY), REGTEST)).toThrow('Invalid private key');
+    });
+
+    it('should serialize extended keys as tprv/tpub', () => {
+      const master = createMasterNode(Buffer.alloc(32, 1));
+      const tprv = toExtendedKey(master, { network: REGTEST });
+      const tpub = toExtendedKey(master, { publicOnly: true, network: REGTEST });
+
+      expect(tprv.startsWith('tprv')).toBe(true);
+      expect(tpub.startsWith('tpub')).toBe(true);
+      expect(fromExtendedKey(tprv, { network: REGTEST })).toEqual(master);
+      expect(() => fromExtendedKey(tpub)).toThrow('Unknown extended key version');
+
+      const watchOnly = createWatchOnlyWallet(tpub, REGTEST);
+      expect(isValidAddress(watchOnly.address, REGTEST)).toBe(true);
+    });
+  });
+
+  describe('transactions', () => {
+    const utxos: UTXO[] = [{ txid: '11'.repeat(32), vout: 0, value: 100_000_000n, confirmations: 1 }];
+
+    it('should build and decode regtest transactions', () => {
+      const txData = buildTransaction(regtestWallet.address, regtestWallet.address, parseAmount('0.5'), utxos,
+        regtestWallet.address, { network: REGTEST });
+      const txHex = createTransactionHex(txData.inputs, txData.outputs, undefined, { network: REGTEST });
+
+      expect(decodeTransaction(txHex, REGTEST).outputs.map(output => output.address))
+        .toEqual([regtestWallet.address, regtestWallet.address]);
+      expect(decodeTransaction(txHex).outputs[0].address).toBe(mainnetWallet.address);
+    });
+
+    it('should refuse to pay an address from another network', () => {
+      expect(() => buildTransaction(regtestWallet.address, mainnetWallet.address, parseAmount('0.5'), utxos,
+        regtestWallet.address, { network: REGTEST })).toThrow('Invalid TETSUO address');
+      expect(() => buildTransaction(mainnetWallet.address, regtestWallet.address, parseAmount('0.5'), utxos,
+        mainnetWallet.address)).toThrow('Invalid TETSUO address');
+    });
+
+    it('should apply the network fee floor', () => {
+      expect(() => buildTransaction(mainnetWallet.address, mainnetWallet.address, parseAmount('0.5'), utxos,
+        mainnetWallet.address, { feeRate: 10 })).toThrow('Fee rate must be at least 200 sat/byte');
+
+      const txData = buildTransaction(regtestWallet.address, regtestWallet.address, parseAmount('0.5'), utxos,
+        regtestWallet.address, { feeRate: 10, network: REGTEST });
+      expect(txData.fee).toBeLessThan(10_000n);
+    });
+  });
+
+  it('should sign and verify messages for regtest addresses', async () => {
+    const signature = await signMessage(PRIVATE_KEY, 'hello', regtestWallet.address, REGTEST);
+
+    expect(verifyMessage(regtestWallet.address, 'hello', signature, REGTEST)).toBe(true);
+    expect(() => verifyMessage(regtestWallet.address, 'hello', signature)).toThrow('Invalid TETSUO address');
+  });
+
+  it('should default the RPC client to the network endpoint', () => {
+    expect(createRPCClient().network).toBe(MAINNET);
+    expect(createRPCClient({ network: REGTEST }).network).toBe(REGTEST);
+
+    // Without a network or URL the client stays on a local node
+    expect(createRPCClient().getEndpoint()).toBe(DEFAULT_RPC_URL);
+    expect(createRPCClient({}).getEndpoint()).toBe('http://localhost:8080');
+    expect(createRPCClient({ network: MAINNET }).getEndpoint()).toBe(MAINNET.rpcUrl);
+    expect(createRPCClient({ network: TESTNET, networkUrl: 'http://testnet:8080' }).getEndpoint()).toBe('http://testnet:8080');
+    expect(getTransactionUrl('ab', MAINNET)).toBe('https://tetsuoarena.com/tx/ab');
+    expect(getTransactionUrl('ab', REGTEST)).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  createPsbt,
+  signPsbt,
+  combinePsbts,
+  finalizePsbt,
+  extractTransaction,
+  isPsbtFinalized,
+  getPsbtFee,
+  getPsbtUtxos,
+  encodePsbt,
+  decodePsbt
+} from '../src/psbt';
+import { verifyTransaction } from '../src/verify';
+import { buildTransaction, createTransactionHex, signTransaction } from '../src/transaction';
+import { importFromPrivateKey } from '../src/wallet';
+import { getAddressHash, generateScriptAddress } from '../src/address';
+import { createMultisigScript, addressToScriptPubKey } from '../src/script';
+import { UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+const KEY_A = '0000000000000000000000000000000000000000000000000000000000000001';
+const KEY_B = '0000000000000000000000000000000000000000000000000000000000000002';
+
+function p2pkh(address: string): string {
+  return '76a914' + getAddressHash(address) + '88ac';
+}
+
+describe('PSBT', () => {
+  const walletA = importFromPrivateKey(KEY_A);
+  const walletB = importFromPrivateKey(KEY_B);
+
+  const utxoA: UTXO = { txid: '11'.repeat(32), vout: 0, value: 50_000_000n, confirmations: 10, scriptPubKey: p2pkh(walletA.address) };
+  const utxoB: UTXO = { txid: '22'.repeat(32), vout: 1, value: 30_000_000n, confirmations: 5, scriptPubKey: p2pkh(walletB.address) };
+
+  it('should produce the same transaction as direct signing', async () => {
+    const txData = buildTransaction(walletA.address, walletB.address, parseAmount('0.1'), [utxoA], walletA.address);
+    const txHex = createTransactionHex(txData.inputs, txData.outputs);
+
+    const psbt = finalizePsbt(await signPsbt(createPsbt(txHex, [utxoA]), KEY_A));
+
+    expect(isPsbtFinalized(psbt)).toBe(true);
+    expect(extractTransaction(psbt)).toBe(await signTransaction(txHex, KEY_A, txData.inputs, [utxoA]));
+    expect(getPsbtFee(psbt)).toBe(txData.fee);
+  });
+
+  it('should round-trip through base64', async () => {
+    const txData = buildTransaction(walletA.address, walletB.address, parseAmount('0.1'), [utxoA], walletA.address);
+    const psbt = await signPsbt(createPsbt(createTransactionHex(txData.inputs, txData.outputs), [utxoA]), KEY_A);
+
+    const decoded = decodePsbt(encodePsbt(psbt));
+
+    expect(decoded).toEqual(psbt);
+    expect(() => decodePsbt('bm90IGEgcHNidA==')).toThrow();
+  });
+
+  it('should combine signatures from separate signers', async () => {
+    const inputs = [
+      { txid: utxoA.txid, vout: utxoA.vout, sequence: 0xffffffff },
+      { txid: utxoB.txid, vout: utxoB.vout, sequence: 0xffffffff }
+    ];
+    const txHex = createTransactionHex(inputs, [{ address: walletA.address, value: 79_000_000n }]);
+    const unsigned = createPsbt(txHex, [utxoA, utxoB]);
+
+    const signedA = decodePsbt(encodePsbt(await signPsbt(unsigned, KEY_A)));
+    const signedB = decodePsbt(encodePsbt(await signPsbt(unsigned, KEY_B)));
+
+    expect(() => finalizePsbt(signedA)).toThrow();
+
+    const combined = finalizePsbt(combinePsbts([signedA, signedB]));
+    expect(isPsbtFinalized(combined)).toBe(true);
+    expect(getPsbtFee(combined)).toBe(1_000_000n);
+    expect(extractTransaction(combined).length).toBeGreaterThan(txHex.length);
+  });
+
+  it('should reject mismatched keys and transactions', async () => {
+    const txData = buildTransaction(walletA.address, walletB.address, parseAmount('0.1'), [utxoA], walletA.address);
+    const psbt = createPsbt(createTransactionHex(txData.inputs, txData.outputs), [utxoA]);
+    const other = createPsbt(createTransactionHex([{ txid: utxoB.txid, vout: 1 }], txData.outputs), [utxoB]);
+
+    await expect(signPsbt(psbt, KEY_B)).rejects.toThrow();
+    expect(() => combinePsbts([psbt, other])).toThrow();
+    expect(() => extractTransaction(psbt)).toThrow();
+    expect(() => createPsbt(createTransactionHex(txData.inputs, txData.outputs), [])).toThrow();
+  });
+
+  it('should sign and combine a 2-of-3 multisig spend', async () => {
+    const KEY_C = '0000000000000000000000000000000000000000000000000000000000000003';
+    const publicKeys = [KEY_A, KEY_B, KEY_C].map(k => importFromPrivateKey(k).publicKey);
+    const redeemScript = createMultisigScript(2, publicKeys);
+    const multisigAddress = generateScriptAddress(redeemScript);
+
+    const utxo: UTXO = {
+      txid: '33'.repeat(32),
+      vout: 0,
+      value: 20_000_000n,
+      confirmations: 6,
+      scriptPubKey: addressToScriptPubKey(multisigAddress),
+      redeemScript
+    };
+
+    const txHex = createTransactionHex([{ txid: utxo.txid, vout: 0 }], [{ address: walletA.address, value: 19_000_000n }]);
+    const unsigned = decodePsbt(encodePsbt(createPsbt(txHex, [utxo])));
+
+    expect(unsigned.inputs[0].redeemScript).toBe(redeemScript);
+
+    const signedC = await signPsbt(unsigned, KEY_C);
+    expect(() => finalizePsbt(signedC)).toThrow();
+
+    const signedA = await signPsbt(unsigned, KEY_A);
+    const finalized = finalizePsbt(combinePsbts([signedC, signedA]));
+    const scriptSig = finalized.inputs[0].finalScriptSig!;
+
+    // OP_0 <sigA> <sigC> <redeemScript>, signatures ordered like the keys
+    expect(scriptSig.startsWith('00')).toBe(true);
+    expect(scriptSig.indexOf(signedA.inputs[0].partialSignatures[publicKeys[0]]))
+      .toBeLessThan(scriptSig.indexOf(signedC.inputs[0].partialSignatures[publicKeys[2]]));
+    expect(scriptSig.endsWith(redeemScript)).toBe(true);
+    expect(verifyTransaction(extractTransaction(finalized), getPsbtUtxos(finalized)).valid).toBe(true);
+
+    const { redeemScript: _, ...withoutScript } = utxo;
+    expect(() => createPsbt(txHex, [withoutScript])).toThrow();
+  });
+});
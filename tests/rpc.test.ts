@@ -0,0 +1,179 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createRPCClient } from '../src/rpc';
+import { createTransactionHex, decodeTransaction } from '../src/transaction';
+import { importFromPrivateKey } from '../src/wallet';
+import { RPCError, RPCClientOptions } from '../src/types';
+
+type Handler = (path: string, method: string) => { status: number; body?: unknown; delay?: number };
+
+interface Stub {
+  url: string;
+  /** "METHOD path" of every request received */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+// Local HTTP node answering each request with `handler`
+async function startStub(handler: Handler): Promise<Stub> {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(`${req.method} ${req.url}`);
+    const { status, body = {}, delay = 0 } = handler(req.url!, req.method!);
+    setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    }, delay);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+const FAST: RPCClientOptions = { retryDelay: 1, maxRetryDelay: 5 };
+
+describe('RPC transport', () => {
+  const stubs: Stub[] = [];
+  const stub = async (handler: Handler) => {
+    const started = await startStub(handler);
+    stubs.push(started);
+    return started;
+  };
+
+  afterEach(async () => {
+    await Promise.all(stubs.splice(0).map(s => s.close()));
+  });
+
+  describe('retries', () => {
+    it('should retry reads that fail with 5xx', async () => {
+      let calls = 0;
+      const node = await stub(() => ++calls < 3 ? { status: 503 } : { status: 200, body: { balance: 1.5 } });
+
+      await expect(createRPCClient(node.url, FAST).getBalance('TAddress')).resolves.toBe(150_000_000n);
+      expect(node.requests).toEqual(Array(3).fill('GET /api/wallet/balance/TAddress'));
+    });
+
+    it('should give up after the configured retries with the last error', async () => {
+      const node = await stub(() => ({ status: 502, body: { error: 'bad gateway' } }));
+      const error = await createRPCClient(node.url, { ...FAST, retries: 1 }).getBalance('TAddress').catch(e => e);
+
+      expect(error).toBeInstanceOf(RPCError);
+      expect(error).toMatchObject({ status: 502, endpoint: '/api/wallet/balance/TAddress' });
+      expect(node.requests).toHaveLength(2);
+    });
+
+    it('should not retry client errors', async () => {
+      const node = await stub(() => ({ status: 400, body: { error: 'bad address' } }));
+
+      await expect(createRPCClient(node.url, FAST).getUTXOs('nope')).rejects.toMatchObject({ status: 400 });
+      expect(node.requests).toHaveLength(1);
+    });
+
+    it('should time out each attempt', async () => {
+      const node = await stub(() => ({ status: 200, body: { balance: 1 }, delay: 300 }));
+      const error = await createRPCClient(node.url, { ...FAST, timeout: 50, retries: 1 }).getBalance('TAddress').catch(e => e);
+
+      expect(error).toBeInstanceOf(RPCError);
+      expect(error.status).toBeUndefined();
+      expect(error.message).toContain('timeout of 50ms exceeded');
+      expect(node.requests).toHaveLength(2);
+    });
+  });
+
+  describe('failover', () => {
+    it('should move to a fallback endpoint that answers a ping', async () => {
+      const primary = await stub(() => ({ status: 503 }));
+      const fallback = await stub(path => ({ status: 200, body: path === '/api/ping' ? {} : { balance: 2 } }));
+      const rpc = createRPCClient(primary.url, { ...FAST, fallbackUrls: [fallback.url] });
+
+      await expect(rpc.getBalance('TAddress')).resolves.toBe(200_000_000n);
+      expect(rpc.getEndpoint()).toBe(fallback.url);
+      expect(primary.requests).toEqual(['GET /api/wallet/balance/TAddress', 'GET /api/ping']);
+      expect(fallback.requests).toEqual(['GET /api/ping', 'GET /api/wallet/balance/TAddress']);
+
+      // Later requests stay on the fallback
+      await rpc.getBalance('TAddress');
+      expect(primary.requests).toHaveLength(2);
+    });
+
+    it('should stay on an endpoint that still answers pings', async () => {
+      let calls = 0;
+      const primary = await stub(path => path === '/api/ping' || ++calls > 1
+        ? { status: 200, body: { balance: 1 } }
+        : { status: 500 });
+      const fallback = await stub(() => ({ status: 200 }));
+      const rpc = createRPCClient(primary.url, { ...FAST, fallbackUrls: [fallback.url] });
+
+      await expect(rpc.getBalance('TAddress')).resolves.toBe(100_000_000n);
+      expect(rpc.getEndpoint()).toBe(primary.url);
+      expect(fallback.requests).toHaveLength(0);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should stop calling an endpoint after repeated failures', async () => {
+      let healthy = false;
+      const node = await stub(() => healthy ? { status: 200, body: { balance: 1 } } : { status: 503 });
+      const rpc = createRPCClient(node.url, { ...FAST, retries: 0, failureThreshold: 2, resetTimeout: 100 });
+
+      await expect(rpc.getBalance('TAddress')).rejects.toMatchObject({ status: 503 });
+      await expect(rpc.getBalance('TAddress')).rejects.toMatchObject({ status: 503 });
+      await expect(rpc.getBalance('TAddress')).rejects.toThrow('No RPC endpoint available');
+      expect(node.requests).toHaveLength(2);
+
+      // After resetTimeout one trial request goes through and closes the circuit
+      healthy = true;
+      await new Promise(resolve => setTimeout(resolve, 120));
+      await expect(rpc.getBalance('TAddress')).resolves.toBe(100_000_000n);
+      expect(node.requests).toHaveLength(3);
+    });
+  });
+
+  describe('broadcast', () => {
+    const wallet = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000001');
+    const txHex = createTransactionHex(
+      [{ txid: '11'.repeat(32), vout: 0 }],
+      [{ address: wallet.address, value: 50_000n }]
+    );
+    const txid = decodeTransaction(txHex).txid;
+    const posts = (node: Stub) => node.requests.filter(r => r.startsWith('POST'));
+
+    it('should not resend when the node already has the transaction', async () => {
+      const node = await stub((path, method) => method === 'POST' ? { status: 504 } : { status: 200, body: { txid } });
+
+      await expect(createRPCClient(node.url, FAST).broadcastTransaction(txHex)).resolves.toBe(txid);
+      expect(node.requests).toEqual(['POST /api/wallet/broadcast', `GET /api/transaction/${txid}`]);
+    });
+
+    it('should resend once when the node does not have the transaction', async () => {
+      let attempts = 0;
+      const node = await stub((path, method) => method === 'POST'
+        ? ++attempts === 1 ? { status: 503 } : { status: 200, body: { txid } }
+        : { status: 404 });
+
+      await expect(createRPCClient(node.url, FAST).broadcastTransaction(txHex)).resolves.toBe(txid);
+      expect(posts(node)).toHaveLength(2);
+    });
+
+    it('should never resend a rejected transaction', async () => {
+      const node = await stub(() => ({ status: 500, body: { error: 'bad-txns-inputs-missingorspent' } }));
+      const error = await createRPCClient(node.url, FAST).broadcastTransaction(txHex).catch(e => e);
+
+      expect(error).toMatchObject({ status: 500 });
+      expect(error.message).toContain('bad-txns-inputs-missingorspent');
+      expect(node.requests).toEqual(['POST /api/wallet/broadcast']);
+    });
+
+    it('should report an unknown outcome when the transaction cannot be looked up', async () => {
+      const node = await stub(() => ({ status: 503 }));
+      const error = await createRPCClient(node.url, { ...FAST, retries: 0 }).broadcastTransaction(txHex).catch(e => e);
+
+      expect(error.message).toContain(`check whether ${txid} was received before resending`);
+      expect(posts(node)).toHaveLength(1);
+    });
+  });
+});
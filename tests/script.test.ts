@@ -0,0 +1,90 @@
+import {
+  createMultisigScript,
+  decodeMultisigScript,
+  createPayToScriptHashScript,
+  addressToScriptPubKey,
+  scriptToAddress,
+  getScriptType,
+  getScriptHash,
+  createDataScript,
+  decodeDataScript,
+  pushData
+} from '../src/script';
+import { generateScriptAddress, getAddressType, isValidAddress, validateAddress } from '../src/address';
+import { createTransactionHex, decodeTransaction } from '../src/transaction';
+import { derivePublicKey, importFromPrivateKey } from '../src/wallet';
+
+const PUBLIC_KEYS = ['01', '02', '03'].map(k => derivePublicKey(k.padStart(64, '0')));
+
+describe('Script', () => {
+  it('should build and decode a 2-of-3 multisig script', () => {
+    const script = createMultisigScript(2, PUBLIC_KEYS);
+
+    expect(script.startsWith('52')).toBe(true); // OP_2
+    expect(script.endsWith('53ae')).toBe(true); // OP_3 OP_CHECKMULTISIG
+    expect(getScriptType(script)).toBe('multisig');
+    expect(decodeMultisigScript(script)).toEqual({ requiredSignatures: 2, publicKeys: PUBLIC_KEYS });
+  });
+
+  it('should sort keys when requested', () => {
+    const reversed = [...PUBLIC_KEYS].reverse();
+
+    expect(createMultisigScript(2, reversed, { sort: true })).toBe(createMultisigScript(2, [...PUBLIC_KEYS].sort()));
+    expect(createMultisigScript(2, reversed)).not.toBe(createMultisigScript(2, PUBLIC_KEYS));
+  });
+
+  it('should reject invalid multisig parameters', () => {
+    expect(() => createMultisigScript(0, PUBLIC_KEYS)).toThrow();
+    expect(() => createMultisigScript(4, PUBLIC_KEYS)).toThrow();
+    expect(() => createMultisigScript(1, [PUBLIC_KEYS[0], PUBLIC_KEYS[0]])).toThrow();
+    expect(() => createMultisigScript(1, ['abcd'])).toThrow();
+  });
+
+  it('should derive valid P2SH addresses', () => {
+    const script = createMultisigScript(2, PUBLIC_KEYS);
+    const address = generateScriptAddress(script);
+
+    expect(address.startsWith('M')).toBe(true);
+    expect(isValidAddress(address)).toBe(true);
+    expect(validateAddress(address)).toBe(address);
+    expect(getAddressType(address)).toBe('p2sh');
+    expect(addressToScriptPubKey(address)).toBe(createPayToScriptHashScript(getScriptHash(script)));
+    expect(scriptToAddress(addressToScriptPubKey(address))).toBe(address);
+  });
+
+  it('should pay P2SH addresses from createTransactionHex', () => {
+    const p2sh = generateScriptAddress(createMultisigScript(2, PUBLIC_KEYS));
+    const p2pkh = importFromPrivateKey('01'.padStart(64, '0')).address;
+
+    const tx = decodeTransaction(createTransactionHex(
+      [{ txid: 'aa'.repeat(32), vout: 0 }],
+      [{ address: p2sh, value: 1000n }, { address: p2pkh, value: 2000n }]
+    ));
+
+    expect(getScriptType(tx.outputs[0].scriptPubKey)).toBe('p2sh');
+    expect(getScriptType(tx.outputs[1].scriptPubKey)).toBe('p2pkh');
+    expect(tx.outputs.map(o => o.address)).toEqual([p2sh, p2pkh]);
+  });
+
+  it('should use pushdata opcodes for large pushes', () => {
+    expect(pushData('ab'.repeat(75)).slice(0, 2)).toBe('4b');
+    expect(pushData('ab'.repeat(76)).slice(0, 4)).toBe('4c4c');
+    expect(pushData('ab'.repeat(300)).slice(0, 6)).toBe('4d2c01');
+  });
+
+  it('should build and decode OP_RETURN data scripts', () => {
+    const hash = 'ab'.repeat(32);
+    const script = createDataScript(hash);
+
+    expect(script).toBe('6a20' + hash);
+    expect(getScriptType(script)).toBe('nulldata');
+    expect(decodeDataScript(script)).toBe(hash);
+    expect(decodeDataScript(createDataScript('cd'.repeat(80)))).toBe('cd'.repeat(80));
+    expect(scriptToAddress(script)).toBeUndefined();
+
+    expect(decodeDataScript('6a20' + 'ab'.repeat(31))).toBeUndefined();
+    expect(decodeDataScript(addressToScriptPubKey(importFromPrivateKey('01'.padStart(64, '0')).address))).toBeUndefined();
+    expect(() => createDataScript('')).toThrow();
+    expect(() => createDataScript('xyz')).toThrow();
+  });
+});
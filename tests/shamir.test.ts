@@ -0,0 +1,107 @@
+import { combineShares, decodeShare, encodeShare, recoverMnemonic, splitMnemonic, splitSecret } from '../src/shamir';
+import { generateWallet } from '../src/wallet';
+import { SecretShare } from '../src/types';
+
+const SECRET = '0c1e24e5917779d297e14d45f14e1a1a';
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+function subsets<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+}
+
+describe('Shamir Secret Sharing', () => {
+  describe('splitSecret / combineShares', () => {
+    it.each([[2, 3], [3, 5], [5, 5]])('should recover a %i-of-%i split from every subset', (threshold, count) => {
+      const shares = splitSecret(SECRET, threshold, count);
+
+      expect(shares.map(share => share.index)).toEqual(Array.from({ length: count }, (_, i) => i + 1));
+      for (let size = threshold; size <= count; size++) {
+        for (const subset of subsets(shares, size)) {
+          expect(combineShares(subset)).toBe(SECRET);
+          expect(combineShares([...subset].reverse())).toBe(SECRET);
+        }
+      }
+      for (const subset of subsets(shares, threshold - 1)) {
+        expect(() => combineShares(subset)).toThrow(`Need ${threshold} shares`);
+      }
+    });
+
+    it('should split 32-byte secrets', () => {
+      const secret = 'ff'.repeat(32);
+      const shares = splitSecret(secret, 2, 2);
+
+      expect(shares[0].value).toHaveLength(64);
+      expect(shares[0].value).not.toBe(secret);
+      expect(combineShares(shares)).toBe(secret);
+    });
+
+    it('should reject shares from different splits', () => {
+      const first = splitSecret(SECRET, 2, 3);
+      const second = splitSecret(SECRET, 2, 3);
+
+      expect(() => combineShares([first[0], second[1]])).toThrow('different backups');
+      expect(() => combineShares([first[0], { ...first[1], threshold: 3 }])).toThrow('different backups');
+      // Forged into the same set: caught by the shares beyond the threshold
+      expect(() => combineShares([...first.slice(0, 2), { ...second[2], identifier: first[0].identifier }]))
+        .toThrow('Share 3 does not match');
+    });
+
+    it('should reject duplicate shares and bad parameters', () => {
+      const shares = splitSecret(SECRET, 2, 3);
+
+      expect(() => combineShares([shares[0], shares[0]])).toThrow('only be given once');
+      expect(() => combineShares([])).toThrow('No shares');
+      expect(() => splitSecret(SECRET, 1, 3)).toThrow('Threshold');
+      expect(() => splitSecret(SECRET, 4, 3)).toThrow('Threshold');
+      expect(() => splitSecret(SECRET, 2, 256)).toThrow('Share count');
+      expect(() => splitSecret('abcd', 2, 3)).toThrow('Secret must be');
+    });
+  });
+
+  describe('word encoding', () => {
+    const share: SecretShare = { identifier: 0xdeadbeef, threshold: 3, index: 7, value: SECRET };
+
+    it('should round-trip shares through words', () => {
+      const words = encodeShare(share);
+
+      expect(words.split(' ')).toHaveLength(19);
+      expect(decodeShare(words)).toEqual(share);
+      expect(decodeShare(`  ${words.toUpperCase()} `)).toEqual(share);
+    });
+
+    it('should use word counts no mnemonic has', () => {
+      const counts = [16, 20, 24, 28, 32].map(size =>
+        encodeShare({ ...share, value: 'ab'.repeat(size) }).split(' ').length);
+
+      expect(counts).toEqual([19, 22, 25, 28, 31]);
+    });
+
+    it('should detect changed, unknown and missing words', () => {
+      const words = encodeShare(share).split(' ');
+      const changed = [...words];
+      changed[8] = changed[8] === 'zoo' ? 'abandon' : 'zoo';
+
+      expect(() => decodeShare(changed.join(' '))).toThrow('checksum mismatch');
+      expect(() => decodeShare(['abandn', ...words.slice(1)].join(' '))).toThrow('did you mean abandon');
+      expect(() => decodeShare(words.slice(1).join(' '))).toThrow('not a valid share length');
+    });
+  });
+
+  describe('mnemonics', () => {
+    it('should split and recover a mnemonic', () => {
+      const shares = splitMnemonic(MNEMONIC, 2, 3);
+
+      expect(recoverMnemonic([shares[2], shares[0]])).toBe(MNEMONIC);
+      expect(() => recoverMnemonic([shares[1]])).toThrow('Need 2 shares');
+      expect(() => splitMnemonic(MNEMONIC.replace('about', 'abandon'), 2, 3)).toThrow('bad-checksum');
+    });
+
+    it('should recover non-English mnemonics in their language', async () => {
+      const wallet = await generateWallet({ language: 'spanish', wordCount: 24 });
+      const shares = splitMnemonic(wallet.mnemonic, 3, 5);
+
+      expect(recoverMnemonic(shares.slice(2), 'spanish')).toBe(wallet.mnemonic);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import {
+  decodeDERSignature,
+  encodeDERSignature,
+  isLowS,
+  normalizeSignature,
+  signHash,
+  verifySignature
+} from '../src/signature';
+import { createSignatureHash, createTransactionHex, signTransaction } from '../src/transaction';
+import { getAddressHash } from '../src/address';
+import { derivePublicKey, importFromPrivateKey } from '../src/wallet';
+
+const KEY_ONE = '0000000000000000000000000000000000000000000000000000000000000001';
+const KEY_MAX = 'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364140';
+const CURVE_ORDER = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+function sha256(message: string): Buffer {
+  return createHash('sha256').update(message).digest();
+}
+
+// RFC6979 secp256k1/SHA-256 vectors widely used by Bitcoin libraries (low-S signatures)
+const VECTORS = [
+  {
+    key: KEY_ONE,
+    message: 'Satoshi Nakamoto',
+    signature: '934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8' +
+      '2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5'
+  },
+  {
+    key: KEY_ONE,
+    message: 'All those moments will be lost in time, like tears in rain. Time to die...',
+    signature: '8600dbd41e348fe5c9465ab92d23e3db8b98b873beecd930736488696438cb6b' +
+      '547fe64427496db33bf66019dacbf0039c04199abb0122918601db38a72cfc21'
+  },
+  {
+    key: KEY_MAX,
+    message: 'Satoshi Nakamoto',
+    signature: 'fd567d121db66e382991534ada77a6bd3106f0a1098c231e47993447cd6af2d0' +
+      '6b39cd0eb1bc8603e159ef5c20a5c8ad685a45b06ce9bebed3f153d10d93bed5'
+  },
+  {
+    key: 'f8b8af8ce3c7cca5e300d33939540c10d45ce001b8f252bfbc57ba0342904181',
+    message: 'Alan Turing',
+    signature: '7063ae83e7f62bbb171798131b4a0564b956930092b33b07b395615d9ec7e15c' +
+      '58dfcc1e00a35e1572f366ffe34ba0fc47db1e7189759b9fb233c5b05ab388ea'
+  }
+];
+
+describe('Signatures', () => {
+  describe('RFC6979 known answers', () => {
+    it.each(VECTORS)('should sign "$message"', ({ key, message, signature }) => {
+      const hash = sha256(message);
+      const der = signHash(key, hash);
+      const { r, s } = decodeDERSignature(der);
+
+      expect(r + s).toBe(signature);
+      expect(der).toBe(encodeDERSignature(r, s));
+      expect(verifySignature(hash, der, derivePublicKey(key))).toBe(true);
+    });
+
+    it('should always produce low-S signatures', () => {
+      for (let i = 1; i <= 20; i++) {
+        const { s } = decodeDERSignature(signHash(KEY_ONE, sha256(`message ${i}`)));
+        expect(isLowS(s)).toBe(true);
+      }
+    });
+
+    it('should reject invalid keys and digests', () => {
+      expect(() => signHash('00'.repeat(32), sha256('x'))).toThrow('out of range');
+      expect(() => signHash(CURVE_ORDER.toString(16), sha256('x'))).toThrow('out of range');
+      expect(() => signHash('abc', sha256('x'))).toThrow('64 hex characters');
+      expect(() => signHash(KEY_ONE, Buffer.alloc(31))).toThrow('32 bytes');
+    });
+  });
+
+  describe('verifySignature', () => {
+    const hash = sha256('Satoshi Nakamoto');
+    const publicKey = derivePublicKey(KEY_ONE);
+    const signature = signHash(KEY_ONE, hash);
+
+    it('should reject other digests, keys and malformed signatures', () => {
+      expect(verifySignature(sha256('Satoshi'), signature, publicKey)).toBe(false);
+      expect(verifySignature(hash, signature, derivePublicKey(KEY_MAX))).toBe(false);
+      expect(verifySignature(hash, signature + '01', publicKey)).toBe(false);
+      expect(verifySignature(hash, signature, '02' + '00'.repeat(32))).toBe(false);
+      expect(verifySignature(Buffer.alloc(0), signature, publicKey)).toBe(false);
+    });
+
+    it('should reject high-S signatures until normalized', () => {
+      const { r, s } = decodeDERSignature(signature);
+      const highS = encodeDERSignature(r, (CURVE_ORDER - BigInt('0x' + s)).toString(16).padStart(64, '0'));
+
+      expect(verifySignature(hash, highS, publicKey)).toBe(false);
+      expect(normalizeSignature(highS)).toBe(signature);
+    });
+  });
+
+  describe('DER encoding', () => {
+    it('should pad values with the high bit set and strip leading zeros', () => {
+      expect(encodeDERSignature('80'.padStart(64, '0'), '01'.padStart(64, '0'))).toBe('3007020200800201' + '01');
+      expect(decodeDERSignature('3007020200800201' + '01')).toEqual({ r: '80'.padStart(64, '0'), s: '01'.padStart(64, '0') });
+    });
+
+    it('should reject malformed signatures', () => {
+      expect(() => decodeDERSignature('3006020101020101ff')).toThrow('Invalid DER signature');
+      expect(() => decodeDERSignature('300602010102')).toThrow('Invalid DER signature');
+      expect(() => decodeDERSignature('zz')).toThrow('Invalid DER signature');
+    });
+  });
+
+  it('should reproduce a signed transaction byte for byte', async () => {
+    const wallet = importFromPrivateKey(KEY_ONE);
+    const recipient = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+    const scriptPubKey = '76a914' + getAddressHash(wallet.address) + '88ac';
+    const inputs = [{ txid: '11'.repeat(32), vout: 0 }, { txid: '22'.repeat(32), vout: 1 }];
+    const utxos = inputs.map((input, i) => ({ ...input, value: 50_000_000n * BigInt(i + 1), confirmations: 10, scriptPubKey }));
+    const txHex = createTransactionHex(inputs, [
+      { address: recipient.address, value: 120_000_000n },
+      { address: wallet.address, value: 29_700_000n }
+    ]);
+
+    expect(createSignatureHash(txHex, inputs, 0, scriptPubKey).toString('hex'))
+      .toBe('36421429c58eace1be6954ec7e63e3539da1f86d7e5ce3104cb39b506eebe73b');
+    expect(await signTransaction(txHex, KEY_ONE, inputs, utxos)).toBe(
+      '0100000002' +
+      '1111111111111111111111111111111111111111111111111111111111111111' + '00000000' +
+      '6a47304402203e62115b0512d1acac70a4b36266523065d7b3071a63f387041153bcfe15648c' +
+      '022002a02a75c4f8a2c2d5afee252e3b2587f74cd9fcc1f80cbe0e24891d7a612eae01' +
+      '210279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' + 'ffffffff' +
+      '2222222222222222222222222222222222222222222222222222222222222222' + '01000000' +
+      '6b483045022100c7031216442355c77d5645c61369b6397a105c0373ff2f57ff1a7d47e2111b3a' +
+      '0220035c837d056e0e25a8c030b21f0495670660788898720dd4b31dfa4014acf20d01' +
+      '210279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' + 'ffffffff' +
+      '02' +
+      '000e270700000000' + '1976a91406afd46bcdfd22ef94ac122aa11f241244a37ecc88ac' +
+      'a02fc50100000000' + '1976a914751e76e8199196d454941c45d1b3a323f1433bd688ac' +
+      '00000000'
+    );
+  });
+});
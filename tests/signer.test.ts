@@ -0,0 +1,133 @@
+import { createExternalSigner, createPrivateKeySigner } from '../src/signer';
+import { buildTransaction, createTransactionHex, signTransaction } from '../src/transaction';
+import { createPsbt, extractTransaction, finalizePsbt, signPsbt } from '../src/psbt';
+import { signMessage, verifyMessage } from '../src/message';
+import { getAddressHash } from '../src/address';
+import { importFromPrivateKey } from '../src/wallet';
+import { Signer, UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+const EC = require('elliptic').ec;
+const ec = new EC('secp256k1');
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+const OTHER_KEY = '0000000000000000000000000000000000000000000000000000000000000002';
+
+// Answers signer requests on stdio; argv: <private key> [ok|wrong-key|fail]
+const STUB_SIGNER_SOURCE = `
+const ec = new (require(${JSON.stringify(require.resolve('elliptic'))}).ec)('secp256k1');
+const [key, mode = 'ok'] = process.argv.slice(1);
+let input = '';
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+  const request = JSON.parse(input);
+  if (mode === 'fail') {
+    process.stderr.write('device locked');
+    process.exit(1);
+  }
+  const signingKey = ec.keyFromPrivate(mode === 'wrong-key' ? '02'.repeat(32) : key, 'hex');
+  const response = request.method === 'getPublicKey'
+    ? { publicKey: ec.keyFromPrivate(key, 'hex').getPublic(true, 'hex') }
+    : { signature: Buffer.from(signingKey.sign(Buffer.from(request.hash, 'hex')).toDER()).toString('hex') };
+  process.stdout.write(JSON.stringify(response));
+});
+`;
+
+function stubExternalSigner(mode: string = 'ok'): Signer {
+  return createExternalSigner(process.execPath, { args: ['-e', STUB_SIGNER_SOURCE, PRIVATE_KEY, mode] });
+}
+
+// In-process stand-in for a device: signs high-S to check callers normalize
+function stubSigner(privateKey: string): Signer & { requests: number } {
+  const key = ec.keyFromPrivate(privateKey, 'hex');
+  const stub = {
+    requests: 0,
+    getPublicKey: async () => key.getPublic(true, 'hex'),
+    signHash: async (hash: Buffer) => {
+      stub.requests++;
+      const signature = key.sign(hash, { canonical: true });
+      const highS = new signature.constructor({ r: signature.r, s: ec.n.sub(signature.s) });
+      return Buffer.from(highS.toDER()).toString('hex');
+    }
+  };
+  return stub;
+}
+
+describe('Signers', () => {
+  const wallet = importFromPrivateKey(PRIVATE_KEY);
+  const recipient = importFromPrivateKey(OTHER_KEY);
+  const utxo: UTXO = {
+    txid: '11'.repeat(32),
+    vout: 0,
+    value: 50_000_000n,
+    confirmations: 10,
+    scriptPubKey: '76a914' + getAddressHash(wallet.address) + '88ac'
+  };
+  const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address);
+  const txHex = createTransactionHex(txData.inputs, txData.outputs);
+  let expected: string;
+
+  beforeAll(async () => {
+    expected = await signTransaction(txHex, PRIVATE_KEY, txData.inputs, [utxo]);
+  });
+
+  describe('createPrivateKeySigner', () => {
+    it('should sign with the key in memory', async () => {
+      const signer = createPrivateKeySigner(PRIVATE_KEY);
+      const hash = Buffer.alloc(32, 7);
+
+      expect(await signer.getPublicKey()).toBe(wallet.publicKey);
+      expect(ec.verify(hash, await signer.signHash(hash), Buffer.from(wallet.publicKey, 'hex'))).toBe(true);
+      expect(await signTransaction(txHex, signer, txData.inputs, [utxo])).toBe(expected);
+    });
+  });
+
+  describe('stub signer', () => {
+    it('should sign transactions with low-S signatures', async () => {
+      const signer = stubSigner(PRIVATE_KEY);
+
+      expect(await signTransaction(txHex, signer, txData.inputs, [utxo])).toBe(expected);
+      expect(signer.requests).toBe(1);
+    });
+
+    it('should sign PSBTs', async () => {
+      const psbt = finalizePsbt(await signPsbt(createPsbt(txHex, [utxo]), stubSigner(PRIVATE_KEY)));
+
+      expect(extractTransaction(psbt)).toBe(expected);
+      await expect(signPsbt(createPsbt(txHex, [utxo]), stubSigner(OTHER_KEY))).rejects.toThrow('does not match');
+    });
+
+    it('should sign messages', async () => {
+      const signature = await signMessage(stubSigner(PRIVATE_KEY), 'hello', wallet.address);
+
+      expect(signature).toBe(await signMessage(PRIVATE_KEY, 'hello'));
+      expect(verifyMessage(wallet.address, 'hello', signature)).toBe(true);
+      await expect(signMessage(stubSigner(OTHER_KEY), 'hello', wallet.address)).rejects.toThrow('does not match address');
+    });
+  });
+
+  describe('createExternalSigner', () => {
+    it('should sign through a subprocess', async () => {
+      const signer = stubExternalSigner();
+
+      expect(await signer.getPublicKey()).toBe(wallet.publicKey);
+      expect(await signTransaction(txHex, signer, txData.inputs, [utxo])).toBe(expected);
+      expect(verifyMessage(wallet.address, 'hello', await signMessage(signer, 'hello'))).toBe(true);
+    });
+
+    it('should reject failures and signatures from another key', async () => {
+      await expect(stubExternalSigner('fail').getPublicKey()).rejects.toThrow('External signer failed: device locked');
+      await expect(stubExternalSigner('wrong-key').signHash(Buffer.alloc(32, 1))).rejects.toThrow('does not match its public key');
+    });
+
+    it('should reject malformed responses', async () => {
+      const respond = (output: string) =>
+        createExternalSigner(process.execPath, { args: ['-e', `console.log(${JSON.stringify(output)})`] });
+
+      await expect(respond('hi').getPublicKey()).rejects.toThrow('invalid JSON');
+      await expect(respond('[]').getPublicKey()).rejects.toThrow('invalid JSON');
+      await expect(respond('{"publicKey":2}').getPublicKey()).rejects.toThrow('non-string publicKey');
+      await expect(respond('{}').getPublicKey()).rejects.toThrow('invalid public key');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  SEQUENCE_ENABLE_LOCKTIME,
+  SEQUENCE_FINAL,
+  SEQUENCE_RBF,
+  decodeRelativeLock,
+  encodeRelativeLock,
+  hasRelativeLock,
+  validateTimelocks
+} from '../src/timelock';
+import {
+  createCheckLockTimeVerifyScript,
+  createCheckSequenceVerifyScript,
+  createMultisigScript,
+  createPayToPubKeyHashScript,
+  addressToScriptPubKey,
+  decodeTimelockScript,
+  getScriptType
+} from '../src/script';
+import { buildTransaction, createTransactionHex, decodeTransaction } from '../src/transaction';
+import { createPsbt, extractTransaction, finalizePsbt, signPsbt } from '../src/psbt';
+import { estimateInputSize } from '../src/fee';
+import { generateScriptAddress, getAddressHash } from '../src/address';
+import { importFromPrivateKey } from '../src/wallet';
+import { UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+describe('Timelocks', () => {
+  const wallet = importFromPrivateKey(PRIVATE_KEY);
+  const recipient = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+  const ownerScript = createPayToPubKeyHashScript(Buffer.from(getAddressHash(wallet.address), 'hex'));
+
+  function lockedUtxo(redeemScript: string): UTXO {
+    return {
+      txid: '44'.repeat(32),
+      vout: 0,
+      value: 100_000_000n,
+      confirmations: 10,
+      scriptPubKey: addressToScriptPubKey(generateScriptAddress(redeemScript)),
+      redeemScript
+    };
+  }
+
+  describe('relative locks', () => {
+    it('should encode block and time based locks', () => {
+      expect(encodeRelativeLock({ blocks: 144 })).toBe(144);
+      expect(encodeRelativeLock({ seconds: 1024 })).toBe(0x00400002);
+      // Rounded up to the next 512 second unit
+      expect(decodeRelativeLock(encodeRelativeLock({ seconds: 1000 }))).toEqual({ seconds: 1024 });
+      expect(decodeRelativeLock(144)).toEqual({ blocks: 144 });
+    });
+
+    it('should reject out of range locks', () => {
+      expect(() => encodeRelativeLock({ blocks: 0 })).toThrow();
+      expect(() => encodeRelativeLock({ blocks: 0x10000 })).toThrow();
+      expect(() => encodeRelativeLock({ seconds: 512 * 0x10000 })).toThrow();
+    });
+
+    it('should treat final, RBF and disabled sequences as unlocked', () => {
+      expect(hasRelativeLock(SEQUENCE_FINAL)).toBe(false);
+      expect(hasRelativeLock(SEQUENCE_RBF)).toBe(false);
+      expect(decodeRelativeLock(0x80000000 | 10)).toBeUndefined();
+      expect(hasRelativeLock(10)).toBe(true);
+    });
+  });
+
+  describe('validateTimelocks', () => {
+    it('should reject a locktime no input enforces', () => {
+      expect(() => validateTimelocks({ version: 1, inputs: [{ sequence: SEQUENCE_FINAL }], locktime: 800_000 }))
+        .toThrow('every input sequence is final');
+      expect(() => validateTimelocks({ version: 1, inputs: [{ sequence: SEQUENCE_ENABLE_LOCKTIME }], locktime: 800_000 }))
+        .not.toThrow();
+    });
+
+    it('should require version 2 for relative locks', () => {
+      expect(() => validateTimelocks({ version: 1, inputs: [{ sequence: 10 }], locktime: 0 }))
+        .toThrow('requires transaction version 2');
+      expect(() => validateTimelocks({ version: 2, inputs: [{ sequence: 10 }], locktime: 0 })).not.toThrow();
+    });
+
+    it('should check CLTV and CSV scripts against the spending input', () => {
+      const cltv = lockedUtxo(createCheckLockTimeVerifyScript(800_000, ownerScript));
+      const csv = lockedUtxo(createCheckSequenceVerifyScript(144, ownerScript));
+
+      expect(() => validateTimelocks({ version: 1, inputs: [{ sequence: SEQUENCE_ENABLE_LOCKTIME }], locktime: 799_999 }, [cltv]))
+        .toThrow('requires locktime of at least 800000');
+      expect(() => validateTimelocks({ version: 1, inputs: [{ sequence: SEQUENCE_ENABLE_LOCKTIME }], locktime: 1_700_000_000 }, [cltv]))
+        .toThrow('requires a block height locktime');
+      expect(() => validateTimelocks({ version: 2, inputs: [{ sequence: 100 }], locktime: 0 }, [csv]))
+        .toThrow('shorter than the script requires');
+      expect(() => validateTimelocks({ version: 2, inputs: [{ sequence: 144 }], locktime: 0 }, [csv])).not.toThrow();
+    });
+  });
+
+  describe('script templates', () => {
+    it('should round-trip CLTV and CSV scripts', () => {
+      const cltv = createCheckLockTimeVerifyScript(800_000, ownerScript);
+      const csv = createCheckSequenceVerifyScript(encodeRelativeLock({ seconds: 86_400 }), ownerScript);
+
+      // <800000> OP_CHECKLOCKTIMEVERIFY OP_DROP <inner>
+      expect(cltv).toBe('0300350cb175' + ownerScript);
+      expect(getScriptType(cltv)).toBe('cltv');
+      expect(getScriptType(csv)).toBe('csv');
+      expect(decodeTimelockScript(cltv)).toEqual({ type: 'cltv', value: 800_000, innerScript: ownerScript });
+      expect(decodeTimelockScript(csv)).toEqual({ type: 'csv', value: 0x004000a9, innerScript: ownerScript });
+      expect(decodeTimelockScript(ownerScript)).toBeUndefined();
+    });
+
+    it('should wrap multisig scripts', () => {
+      const multisig = createMultisigScript(1, [wallet.publicKey, recipient.publicKey]);
+      const script = createCheckSequenceVerifyScript(10, multisig);
+
+      expect(decodeTimelockScript(script)!.innerScript).toBe(multisig);
+      expect(estimateInputSize({ redeemScript: script }))
+        .toBe(estimateInputSize({ redeemScript: multisig }) + (script.length - multisig.length) / 2);
+    });
+
+    it('should reject values the opcodes cannot enforce', () => {
+      expect(() => createCheckLockTimeVerifyScript(0, ownerScript)).toThrow();
+      expect(() => createCheckSequenceVerifyScript(0x80000000, ownerScript)).toThrow();
+    });
+  });
+
+  describe('buildTransaction', () => {
+    const utxo: UTXO = { txid: '11'.repeat(32), vout: 0, value: 100_000_000n, confirmations: 10, scriptPubKey: ownerScript };
+
+    it('should set an absolute locktime and enable it on every input', () => {
+      const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, { locktime: 800_000 });
+      const decoded = decodeTransaction(createTransactionHex(txData.inputs, txData.outputs, undefined, txData));
+
+      expect(txData.locktime).toBe(800_000);
+      expect(decoded.locktime).toBe(800_000);
+      expect(decoded.version).toBe(1);
+      expect(decoded.inputs[0].sequence).toBe(SEQUENCE_ENABLE_LOCKTIME);
+    });
+
+    it('should keep the RBF signal alongside a locktime', () => {
+      const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address, {
+        locktime: 800_000,
+        replaceable: true
+      });
+
+      expect(txData.inputs[0].sequence).toBe(SEQUENCE_RBF);
+    });
+
+    it('should satisfy CLTV and CSV outputs being spent', () => {
+      const cltv = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'),
+        [lockedUtxo(createCheckLockTimeVerifyScript(800_000, ownerScript))], wallet.address);
+      const csv = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'),
+        [lockedUtxo(createCheckSequenceVerifyScript(144, ownerScript))], wallet.address);
+
+      expect(cltv.locktime).toBe(800_000);
+      expect(cltv.inputs[0].sequence).toBe(SEQUENCE_ENABLE_LOCKTIME);
+      expect(csv.version).toBe(2);
+      expect(csv.inputs[0].sequence).toBe(144);
+    });
+
+    it('should reject unenforceable combinations', () => {
+      expect(() => buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [{ ...utxo, sequence: 10 }], wallet.address, { version: 1 }))
+        .toThrow('requires transaction version 2');
+      expect(() => buildTransaction(wallet.address, recipient.address, parseAmount('0.5'),
+        [lockedUtxo(createCheckLockTimeVerifyScript(800_000, ownerScript))], wallet.address, { locktime: 700_000 }))
+        .toThrow('requires locktime of at least 800000');
+    });
+  });
+
+  it('should sign and finalize a CLTV output through a PSBT', async () => {
+    const redeemScript = createCheckLockTimeVerifyScript(800_000, ownerScript);
+    const utxo = lockedUtxo(redeemScript);
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), [utxo], wallet.address);
+    const txHex = createTransactionHex(txData.inputs, txData.outputs, undefined, txData);
+
+    const finalized = finalizePsbt(await signPsbt(createPsbt(txHex, [utxo]), PRIVATE_KEY));
+    const scriptSig = finalized.inputs[0].finalScriptSig!;
+
+    // <sig> <pubkey> <redeemScript>
+    expect(scriptSig).toContain(wallet.publicKey);
+    expect(scriptSig.endsWith(redeemScript)).toBe(true);
+    expect(decodeTransaction(extractTransaction(finalized)).locktime).toBe(800_000);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  buildTransaction,
+  buildBatchTransaction,
+  buildSweepTransaction,
+  createTransactionHex,
+  signTransaction,
+  decodeTransaction,
+  encodeTransaction
+} from '../src/transaction';
+import { importFromPrivateKey } from '../src/wallet';
+import { getAddressHash } from '../src/address';
+import { readVarInt, writeVarInt } from '../src/crypto';
+import { InsufficientFundsError, UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+describe('Transaction', () => {
+  const wallet = importFromPrivateKey(PRIVATE_KEY);
+  const recipient = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000002');
+
+  const utxo: UTXO = {
+    txid: 'ab'.repeat(32),
+    vout: 3,
+    value: 50_000_000n,
+    confirmations: 10,
+    scriptPubKey: '76a914' + getAddressHash(wallet.address) + '88ac'
+  };
+
+  it('should decode an unsigned transaction', () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address);
+    const decoded = decodeTransaction(createTransactionHex(txData.inputs, txData.outputs));
+
+    expect(decoded.version).toBe(1);
+    expect(decoded.locktime).toBe(0);
+    expect(decoded.inputs).toEqual([{ txid: utxo.txid, vout: 3, scriptSig: '', sequence: 0xffffffff }]);
+    expect(decoded.outputs.map(o => o.address)).toEqual([recipient.address, wallet.address]);
+    expect(decoded.outputs.map(o => o.value)).toEqual(txData.outputs.map(o => o.value));
+    expect(decoded.txid).toHaveLength(64);
+  });
+
+  it('should round-trip signed transactions through encode/decode', async () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address);
+    const signed = await signTransaction(createTransactionHex(txData.inputs, txData.outputs), PRIVATE_KEY, txData.inputs, [utxo]);
+    const decoded = decodeTransaction(signed);
+
+    expect(decoded.size).toBe(signed.length / 2);
+    expect(decoded.inputs[0].scriptSig.length).toBeGreaterThan(0);
+    expect(encodeTransaction(decoded)).toBe(signed);
+  });
+
+  it('should pay several recipients in one transaction', () => {
+    const third = importFromPrivateKey('0000000000000000000000000000000000000000000000000000000000000003');
+    const txData = buildBatchTransaction(wallet.address, [
+      { address: recipient.address, amount: parseAmount('0.1') },
+      { address: third.address, amount: parseAmount('0.05') }
+    ], [utxo], wallet.address);
+
+    expect(txData.outputs.map(o => o.address)).toEqual([recipient.address, third.address, wallet.address]);
+    expect(txData.outputs.map(o => o.value).slice(0, 2)).toEqual([10_000_000n, 5_000_000n]);
+    expect(txData.outputs.reduce((sum, o) => sum + o.value, 0n) + txData.fee).toBe(utxo.value);
+  });
+
+  it('should reject empty batches and dust amounts', () => {
+    expect(() => buildBatchTransaction(wallet.address, [], [utxo], wallet.address)).toThrow('At least one recipient');
+    expect(() => buildBatchTransaction(wallet.address, [
+      { address: recipient.address, amount: parseAmount('0.1') },
+      { address: recipient.address, amount: parseAmount('0.000001') }
+    ], [utxo], wallet.address)).toThrow('Recipient 2 amount is below the dust threshold');
+  });
+
+  it('should sweep every UTXO with the fee taken from the output', () => {
+    const second: UTXO = { ...utxo, txid: 'cd'.repeat(32), vout: 0, value: 20_000_000n };
+    const txData = buildSweepTransaction(wallet.address, recipient.address, [utxo, second], { feeRate: 'low' });
+
+    expect(txData.inputs).toHaveLength(2);
+    expect(txData.outputs).toEqual([{ address: recipient.address, value: 70_000_000n - txData.fee }]);
+    expect(txData.fee).toBe(BigInt((10 + 2 * 148 + 34) * 300));
+  });
+
+  it('should refuse to sweep when the fee consumes the balance', () => {
+    const dust: UTXO = { ...utxo, value: 50_000n };
+
+    expect(() => buildSweepTransaction(wallet.address, recipient.address, [], {})).toThrow('No UTXOs to sweep');
+    expect(() => buildSweepTransaction(wallet.address, recipient.address, [dust], {})).toThrow(InsufficientFundsError);
+  });
+
+  it('should add an OP_RETURN memo before the change', () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address, { memo: 'invoice #42' });
+    const plain = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address);
+    const tx = decodeTransaction(createTransactionHex(txData.inputs, txData.outputs));
+
+    expect(txData.outputs[1]).toEqual({ value: 0n, data: Buffer.from('invoice #42').toString('hex') });
+    expect(tx.outputs.map(o => o.address)).toEqual([recipient.address, undefined, wallet.address]);
+    expect(tx.outputs[1].data).toBe(txData.outputs[1].data);
+    // 8-byte value, script length, OP_RETURN, push opcode and 11 bytes of text
+    expect(txData.fee - plain.fee).toBe(BigInt((8 + 1 + 1 + 1 + 11) * 700));
+  });
+
+  it('should enforce the memo size limit', () => {
+    const hash = Buffer.alloc(100, 1);
+
+    expect(() => buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address, { memo: hash }))
+      .toThrow('above the 80 byte limit');
+    expect(() => buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address, { memo: '' }))
+      .toThrow('Memo must not be empty');
+
+    const txData = buildSweepTransaction(wallet.address, recipient.address, [utxo], { memo: hash, maxDataSize: 100 });
+    expect(txData.outputs[1]).toEqual({ value: 0n, data: hash.toString('hex') });
+    expect(txData.outputs[0].value + txData.fee).toBe(utxo.value);
+  });
+
+  it('should reject malformed transactions', () => {
+    const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address);
+    const txHex = createTransactionHex(txData.inputs, txData.outputs);
+
+    expect(() => decodeTransaction('zz')).toThrow();
+    expect(() => decodeTransaction(txHex.slice(0, -2))).toThrow();
+    expect(() => decodeTransaction(txHex + '00')).toThrow();
+  });
+
+  it('should encode varints in little endian', () => {
+    expect(writeVarInt(0xfc).toString('hex')).toBe('fc');
+    expect(writeVarInt(0x1234).toString('hex')).toBe('fd3412');
+    expect(writeVarInt(0x12345678).toString('hex')).toBe('fe78563412');
+    expect(readVarInt(Buffer.from('fd3412', 'hex'))).toEqual({ value: 0x1234, size: 3 });
+  });
+});
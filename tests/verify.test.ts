@@ -0,0 +1,224 @@
+import { verifyTransaction } from '../src/verify';
+import {
+  buildTransaction,
+  createTransactionHex,
+  decodeTransaction,
+  createSignature,
+  createSignatureHash,
+  encodeTransaction,
+  signTransaction
+} from '../src/transaction';
+import { combinePsbts, createPsbt, extractTransaction, finalizePsbt, signPsbt } from '../src/psbt';
+import { decodeDERSignature, encodeDERSignature } from '../src/signature';
+import {
+  createPayToPubKeyHashScript,
+  createMultisigScript,
+  createCheckLockTimeVerifyScript,
+  createDataScript,
+  addressToScriptPubKey,
+  pushData
+} from '../src/script';
+import { generateAddress, generateScriptAddress, getAddressHash } from '../src/address';
+import { derivePublicKeyLegacy, importFromPrivateKey } from '../src/wallet';
+import { UTXO } from '../src/types';
+import { parseAmount } from '../src/amount';
+
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+const OTHER_KEY = '0000000000000000000000000000000000000000000000000000000000000002';
+const CURVE_ORDER = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+describe('Transaction Verification', () => {
+  const wallet = importFromPrivateKey(PRIVATE_KEY);
+  const recipient = importFromPrivateKey(OTHER_KEY);
+  const scriptPubKey = createPayToPubKeyHashScript(Buffer.from(getAddressHash(wallet.address), 'hex'));
+
+  const utxos: UTXO[] = [
+    { txid: '11'.repeat(32), vout: 0, value: 30_000_000n, confirmations: 10, scriptPubKey },
+    { txid: '22'.repeat(32), vout: 1, value: 40_000_000n, confirmations: 10, scriptPubKey }
+  ];
+  const txData = buildTransaction(wallet.address, recipient.address, parseAmount('0.5'), utxos, wallet.address);
+  const txHex = createTransactionHex(txData.inputs, txData.outputs);
+  const spent = txData.inputs.map(input => utxos.find(u => u.txid === input.txid)!);
+  let signed: string;
+
+  beforeAll(async () => {
+    signed = await signTransaction(txHex, PRIVATE_KEY, txData.inputs, spent);
+  });
+
+  // Swap one input's scriptSig in a signed transaction
+  function withScriptSig(hex: string, index: number, scriptSig: string): string {
+    const tx = decodeTransaction(hex);
+    return encodeTransaction({ ...tx, inputs: tx.inputs.map((input, i) => i === index ? { ...input, scriptSig } : input) });
+  }
+
+  it('should accept a correctly signed transaction', () => {
+    const result = verifyTransaction(signed, utxos, { expectedFee: txData.fee });
+
+    expect(result).toMatchObject({
+      valid: true,
+      inputValue: 70_000_000n,
+      outputValue: 70_000_000n - txData.fee,
+      fee: txData.fee,
+      errors: [],
+      inputErrors: []
+    });
+    expect(result.feeRate).toBeCloseTo(Number(txData.fee) / (signed.length / 2));
+  });
+
+  it('should reject unsigned inputs and unknown outputs', () => {
+    expect(verifyTransaction(txHex, utxos).inputErrors.map(e => e.error))
+      .toEqual(['Input is not signed', 'Input is not signed']);
+    const missing = txData.inputs.findIndex(input => input.txid === utxos[1].txid);
+    expect(verifyTransaction(signed, utxos.slice(0, 1)).inputErrors).toEqual([
+      { index: missing, txid: utxos[1].txid, vout: 1, error: 'Spent output not provided' }
+    ]);
+    expect(verifyTransaction('00', utxos).errors[0]).toContain('Failed to decode');
+  });
+
+  it('should reject signatures over different outputs', () => {
+    const tx = decodeTransaction(signed);
+    const tampered = encodeTransaction({
+      ...tx,
+      outputs: tx.outputs.map((output, i) => i === 0 ? { ...output, value: output.value + 1000n } : output)
+    });
+    const result = verifyTransaction(tampered, utxos);
+
+    expect(result.valid).toBe(false);
+    expect(result.inputErrors.map(e => e.error)).toEqual([
+      'Signature does not verify against the sighash and public key',
+      'Signature does not verify against the sighash and public key'
+    ]);
+  });
+
+  it('should reject keys that do not own the spent output', async () => {
+    const wrongKey = await signTransaction(txHex, OTHER_KEY, txData.inputs, spent);
+
+    expect(verifyTransaction(wrongKey, utxos).inputErrors[0].error)
+      .toBe('Public key does not match the address being spent');
+  });
+
+  it('should reject malformed and high-S signatures', () => {
+    const [sigPush] = [decodeTransaction(signed).inputs[0].scriptSig];
+    const der = sigPush.slice(2, 2 + parseInt(sigPush.slice(0, 2), 16) * 2 - 2);
+    const { r, s } = decodeDERSignature(der);
+    const highS = encodeDERSignature(r, (CURVE_ORDER - BigInt('0x' + s)).toString(16).padStart(64, '0'));
+
+    const withSignature = (signature: string) =>
+      verifyTransaction(withScriptSig(signed, 0, pushData(signature) + pushData(wallet.publicKey)), utxos).inputErrors[0].error;
+
+    expect(withSignature(highS + '01')).toBe('Signature has a high S value');
+    expect(withSignature(der + '03')).toBe('Unsupported sighash type 0x03');
+    expect(withSignature('3001')).toBe('Signature is not valid DER');
+    expect(verifyTransaction(withScriptSig(signed, 0, pushData(der + '01')), utxos).inputErrors[0].error)
+      .toBe('Public key does not match the address being spent');
+    expect(verifyTransaction(withScriptSig(signed, 0, '76'), utxos).inputErrors[0].error)
+      .toBe('scriptSig must only push data');
+  });
+
+  it('should only verify P2PKH and P2SH inputs', () => {
+    const data = createDataScript('00');
+
+    expect(verifyTransaction(signed, [{ ...utxos[0], scriptPubKey: data }, utxos[1]]).inputErrors[0].error)
+      .toBe('Only P2PKH and P2SH inputs can be verified, not nulldata');
+  });
+
+  describe('P2SH inputs', () => {
+    const KEY_C = '0000000000000000000000000000000000000000000000000000000000000003';
+    const publicKeys = [PRIVATE_KEY, OTHER_KEY, KEY_C].map(k => importFromPrivateKey(k).publicKey);
+    const redeemScript = createMultisigScript(2, publicKeys);
+    const multisigUtxo: UTXO = {
+      txid: '33'.repeat(32),
+      vout: 0,
+      value: 20_000_000n,
+      confirmations: 6,
+      scriptPubKey: addressToScriptPubKey(generateScriptAddress(redeemScript)),
+      redeemScript
+    };
+    const multisigTx = createTransactionHex([{ txid: multisigUtxo.txid, vout: 0 }], [{ address: recipient.address, value: 19_900_000n }]);
+
+    async function partialSignature(key: string): Promise<string> {
+      const psbt = await signPsbt(createPsbt(multisigTx, [multisigUtxo]), key);
+      return psbt.inputs[0].partialSignatures[importFromPrivateKey(key).publicKey];
+    }
+
+    const withMultisigScriptSig = (scriptSig: string) =>
+      verifyTransaction(withScriptSig(multisigTx, 0, scriptSig), [multisigUtxo]).inputErrors[0]?.error;
+
+    it('should verify a 2-of-3 multisig spend', async () => {
+      const psbts = await Promise.all([PRIVATE_KEY, KEY_C].map(key => signPsbt(createPsbt(multisigTx, [multisigUtxo]), key)));
+      const result = verifyTransaction(extractTransaction(finalizePsbt(combinePsbts(psbts))), [multisigUtxo]);
+
+      expect(result).toMatchObject({ valid: true, fee: 100_000n, errors: [], inputErrors: [] });
+    });
+
+    it('should reject missing, misordered and foreign multisig signatures', async () => {
+      const sigA = await partialSignature(PRIVATE_KEY);
+      const sigC = await partialSignature(KEY_C);
+      const sighash = createSignatureHash(multisigTx, [{ txid: multisigUtxo.txid, vout: 0 }], 0, redeemScript);
+      const foreign = await createSignature('0000000000000000000000000000000000000000000000000000000000000004', sighash);
+      const script = pushData(redeemScript);
+
+      expect(withMultisigScriptSig('00' + pushData(sigA) + pushData(sigC) + script)).toBeUndefined();
+      expect(withMultisigScriptSig('00' + pushData(sigA) + script)).toBe('Multisig input needs 2 signature(s), found 1');
+      expect(withMultisigScriptSig('00' + pushData(sigC) + pushData(sigA) + script))
+        .toBe('Signature 2 does not match any remaining multisig public key');
+      expect(withMultisigScriptSig('00' + pushData(foreign) + pushData(sigC) + script))
+        .toBe('Signature 1 does not match any remaining multisig public key');
+      expect(withMultisigScriptSig(pushData('01') + pushData(sigA) + pushData(sigC) + script))
+        .toBe('Multisig dummy element must be empty');
+      expect(withMultisigScriptSig('00' + pushData(sigA) + pushData(sigC) + pushData(createMultisigScript(1, publicKeys))))
+        .toBe('Redeem script does not match the script hash being spent');
+    });
+
+    it('should enforce timelocked redeem scripts', async () => {
+      const cltvScript = createCheckLockTimeVerifyScript(800_000, scriptPubKey);
+      const utxo: UTXO = { ...multisigUtxo, scriptPubKey: addressToScriptPubKey(generateScriptAddress(cltvScript)), redeemScript: cltvScript };
+      const cltvData = buildTransaction(wallet.address, recipient.address, parseAmount('0.1'), [utxo], wallet.address);
+      const cltvHex = createTransactionHex(cltvData.inputs, cltvData.outputs, undefined, cltvData);
+      const spend = extractTransaction(finalizePsbt(await signPsbt(createPsbt(cltvHex, [utxo]), PRIVATE_KEY)));
+
+      expect(verifyTransaction(spend, [utxo], { expectedFee: cltvData.fee }).valid).toBe(true);
+
+      const early = encodeTransaction({ ...decodeTransaction(spend), locktime: 700_000 });
+      expect(verifyTransaction(early, [utxo]).inputErrors[0].error).toBe('Input 0 requires locktime of at least 800000');
+    });
+  });
+
+  describe('values and fees', () => {
+    it('should require inputs to cover outputs and the fee', async () => {
+      const overspend = createTransactionHex(txData.inputs, [{ address: recipient.address, value: 80_000_000n }]);
+      const overspendSigned = await signTransaction(overspend, PRIVATE_KEY, txData.inputs, spent);
+
+      expect(verifyTransaction(overspendSigned, utxos).errors)
+        .toEqual(['Outputs (80000000 satoshis) exceed inputs (70000000 satoshis)']);
+      expect(verifyTransaction(signed, utxos, { expectedFee: txData.fee + 1n }).errors[0])
+        .toContain(`plus the ${txData.fee + 1n} satoshi fee`);
+    });
+
+    it('should enforce fee rate bounds', async () => {
+      expect(verifyTransaction(signed, utxos, { minFeeRate: 100_000 }).errors[0]).toContain('below the minimum');
+      expect(verifyTransaction(signed, utxos, { maxFeeRate: 1 }).errors[0]).toContain('above the sanity limit');
+
+      // Forgetting the change output burns it as fee
+      const noChange = createTransactionHex(txData.inputs, [txData.outputs[0]]);
+      expect(verifyTransaction(await signTransaction(noChange, PRIVATE_KEY, txData.inputs, spent), utxos).errors[0])
+        .toContain('above the sanity limit');
+    });
+  });
+
+  it('should sign each input for the key its output pays', async () => {
+    const legacyAddress = generateAddress(derivePublicKeyLegacy(PRIVATE_KEY));
+    const mixed = [utxos[0], { ...utxos[1], scriptPubKey: addressToScriptPubKey(legacyAddress) }];
+    const mixedSpent = txData.inputs.map(input => mixed.find(u => u.txid === input.txid)!);
+    const tx = decodeTransaction(await signTransaction(txHex, PRIVATE_KEY, txData.inputs, mixedSpent));
+
+    tx.inputs.forEach((input, i) => {
+      const paysLegacy = mixedSpent[i].scriptPubKey === mixed[1].scriptPubKey;
+      expect(input.scriptSig.endsWith(paysLegacy ? derivePublicKeyLegacy(PRIVATE_KEY) : wallet.publicKey)).toBe(true);
+    });
+  });
+
+  it('should throw instead of returning an unsigned transaction', async () => {
+    await expect(signTransaction(txHex, PRIVATE_KEY, txData.inputs, [])).rejects.toThrow('Missing UTXO scriptPubKey for input 0');
+  });
+});
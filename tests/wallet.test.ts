@@ -3,9 +3,13 @@ import {
   importFromMnemonic,
   importFromPrivateKey,
   isValidMnemonic,
-  derivePublicKey
+  derivePublicKey,
+  createWatchOnlyWallet,
+  mnemonicToMasterNode
 } from '../src/wallet';
+import { encodeWIF } from '../src/wif';
 import { isValidAddress } from '../src/address';
+import { derivePath, toExtendedKey } from '../src/hd';
 
 describe('Wallet', () => {
   it('should generate a new wallet', async () => {
@@ -37,6 +41,40 @@ describe('Wallet', () => {
     expect(imported.address).toBe(generated.address);
   });
 
+  it('should keep addresses of wallets without a passphrase', async () => {
+    const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+    expect((await importFromMnemonic(mnemonic)).address).toBe('TQCpa1nvZvDR1nNweuZ5fp9Ku6spELxzHj');
+    expect((await importFromMnemonic(mnemonic, { passphrase: '' })).address).toBe('TQCpa1nvZvDR1nNweuZ5fp9Ku6spELxzHj');
+    expect((await importFromMnemonic(mnemonic, { scheme: 'bip32' })).address).toBe('TFpaXCraywWWLLYyXiMZFfFYQ6x4JLFvvL');
+  });
+
+  it('should derive a different wallet for each passphrase', async () => {
+    const generated = await generateWallet({ passphrase: 'TREZOR' });
+    const restored = await importFromMnemonic(generated.mnemonic, { passphrase: 'TREZOR' });
+    const withoutPassphrase = await importFromMnemonic(generated.mnemonic);
+
+    expect(restored.address).toBe(generated.address);
+    expect(withoutPassphrase.address).not.toBe(generated.address);
+  });
+
+  it('should generate mnemonics of the requested length', async () => {
+    expect((await generateWallet({ wordCount: 24 })).mnemonic.split(' ')).toHaveLength(24);
+    expect((await generateWallet({ strength: 160 })).mnemonic.split(' ')).toHaveLength(15);
+    expect((await generateWallet({ wordCount: 18, strength: 192 })).mnemonic.split(' ')).toHaveLength(18);
+
+    await expect(generateWallet({ wordCount: 13 })).rejects.toThrow('word count must be one of');
+    await expect(generateWallet({ strength: 100 })).rejects.toThrow('strength must be one of');
+    await expect(generateWallet({ wordCount: 12, strength: 256 })).rejects.toThrow('not 256');
+  });
+
+  it('should check the expected word count on import', async () => {
+    const { mnemonic } = await generateWallet();
+
+    await expect(importFromMnemonic(mnemonic, { wordCount: 12 })).resolves.toHaveProperty('address');
+    await expect(importFromMnemonic(mnemonic, { wordCount: 24 })).rejects.toThrow('Expected a 24-word mnemonic');
+  });
+
   it('should reject invalid mnemonic', async () => {
     expect(isValidMnemonic('invalid mnemonic phrase')).toBe(false);
   });
@@ -50,6 +88,15 @@ describe('Wallet', () => {
     expect(imported.address).toBe(generated.address);
   });
 
+  it('should import wallet from a WIF private key', async () => {
+    const generated = await generateWallet();
+    const imported = importFromPrivateKey(encodeWIF(generated.privateKey));
+
+    expect(imported.privateKey).toBe(generated.privateKey);
+    expect(imported.address).toBe(generated.address);
+    expect(() => importFromPrivateKey(encodeWIF(generated.privateKey, false))).toThrow('Uncompressed WIF');
+  });
+
   it('should reject invalid private key', () => {
     expect(() => {
       importFromPrivateKey('invalid');
@@ -68,4 +115,25 @@ describe('Wallet', () => {
     expect(publicKey1).toBe(publicKey2);
     expect(publicKey1.length).toBe(66); // 33 bytes * 2 hex chars
   });
+
+  it('should create watch-only wallets from an address', async () => {
+    const generated = await generateWallet();
+    const watchOnly = createWatchOnlyWallet(generated.address);
+
+    expect(watchOnly.type).toBe('address');
+    expect(watchOnly.address).toBe(generated.address);
+  });
+
+  it('should create watch-only wallets from an xpub but not an xprv', async () => {
+    const generated = await generateWallet();
+    const account = derivePath(await mnemonicToMasterNode(generated.mnemonic), "m/44'/1919'/0'");
+    const xpub = toExtendedKey(account, { publicOnly: true });
+    const watchOnly = createWatchOnlyWallet(xpub);
+
+    expect(watchOnly.type).toBe('xpub');
+    expect(watchOnly.extendedPublicKey).toBe(xpub);
+    expect(isValidAddress(watchOnly.address)).toBe(true);
+    expect(() => createWatchOnlyWallet(toExtendedKey(account))).toThrow();
+    expect(() => createWatchOnlyWallet('not-an-address')).toThrow();
+  });
 });
@@ -0,0 +1,33 @@
+import { decodeWIF, encodeWIF, isWIF, TETSUO_WIF_VERSION } from '../src/wif';
+import { base58check } from '../src/crypto';
+
+const PRIVATE_KEY = '0c28fca386c7a227600b2fe50b7cae11ec86d3bf1fbe471be89827e19d72aa1d';
+
+function wif(version: number, key: string, suffix: string = '01'): string {
+  return base58check(Buffer.from(version.toString(16) + key + suffix, 'hex'));
+}
+
+describe('WIF', () => {
+  it('should decode compressed and uncompressed keys', () => {
+    expect(decodeWIF(wif(TETSUO_WIF_VERSION, PRIVATE_KEY))).toEqual({ privateKey: PRIVATE_KEY, compressed: true });
+    expect(decodeWIF(wif(TETSUO_WIF_VERSION, PRIVATE_KEY, ''))).toEqual({ privateKey: PRIVATE_KEY, compressed: false });
+  });
+
+  it('should encode keys as WIF', () => {
+    expect(encodeWIF(PRIVATE_KEY)).toBe(wif(TETSUO_WIF_VERSION, PRIVATE_KEY));
+    expect(encodeWIF(PRIVATE_KEY, false)).toBe(wif(TETSUO_WIF_VERSION, PRIVATE_KEY, ''));
+    expect(decodeWIF(encodeWIF(PRIVATE_KEY.toUpperCase()))).toEqual({ privateKey: PRIVATE_KEY, compressed: true });
+    expect(() => encodeWIF('abcd')).toThrow('64 hex characters');
+  });
+
+  it('should reject other networks and corrupted keys', () => {
+    // Bitcoin mainnet WIF
+    expect(() => decodeWIF('KwdMAjGmerYanjeui5SHS7JkmpZvVipYvB2LJGU1ZxJwYvP98617')).toThrow('wrong version byte');
+    expect(() => decodeWIF(wif(TETSUO_WIF_VERSION, PRIVATE_KEY, '02'))).toThrow('wrong length');
+
+    const valid = wif(TETSUO_WIF_VERSION, PRIVATE_KEY);
+    const corrupted = valid.slice(0, -1) + (valid.endsWith('a') ? 'b' : 'a');
+    expect(isWIF(valid)).toBe(true);
+    expect(isWIF(corrupted)).toBe(false);
+  });
+});